@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { FileText, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  isImageType,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  validateAttachment,
+} from "@/utils/attachments";
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+// Paperclip button for the chat input; selected files are checked here and
+// previewed above the input until the message is sent
+export const AttachmentButton = ({
+  files,
+  onChange,
+  disabled,
+}: AttachmentPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const accepted: File[] = [];
+    selected.forEach((file) => {
+      const error = validateAttachment(file);
+      if (error) {
+        toast({ title: "Can't attach file", description: error, variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    const next = [...files, ...accepted];
+    if (next.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast({
+        title: "Too many attachments",
+        description: `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`,
+        variant: "destructive",
+      });
+    }
+    onChange(next.slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+        className="hidden"
+        onChange={handleSelect}
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+        onClick={() => inputRef.current?.click()}
+        className="rounded-full h-10 w-10 p-0 text-white hover:bg-white/10"
+        title="Attach a photo or file"
+      >
+        <Paperclip className="h-4 w-4" />
+      </Button>
+    </>
+  );
+};
+
+export const AttachmentPreviews = ({
+  files,
+  onChange,
+}: Omit<AttachmentPickerProps, "disabled">) => {
+  const previews = useMemo(
+    () =>
+      files.map((file) =>
+        isImageType(file.type) ? URL.createObjectURL(file) : null
+      ),
+    [files]
+  );
+
+  useEffect(
+    () => () => previews.forEach((url) => url && URL.revokeObjectURL(url)),
+    [previews]
+  );
+
+  if (files.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 mb-2 overflow-x-auto">
+      {files.map((file, index) => (
+        <div
+          key={`${file.name}-${index}`}
+          className="relative h-16 w-16 shrink-0 rounded-lg border border-blue-200 bg-white/10 overflow-hidden"
+        >
+          {previews[index] ? (
+            <img
+              src={previews[index]}
+              alt={file.name}
+              className="h-full w-full object-cover"
+            />
+          ) : (
+            <div className="h-full w-full flex flex-col items-center justify-center p-1">
+              <FileText className="h-5 w-5 text-white" />
+              <span className="text-[9px] text-white truncate w-full text-center">
+                {file.name}
+              </span>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(files.filter((_, i) => i !== index))}
+            className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5"
+            aria-label={`Remove ${file.name}`}
+          >
+            <X className="h-3 w-3 text-white" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
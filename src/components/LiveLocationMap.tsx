@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from "react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import {
+  DEFAULT_MAP_ZOOM,
+  MAP_STYLE_URL,
+  MAPBOX_ACCESS_TOKEN,
+} from "@/utils/mapConfig";
+import type { LiveLocation } from "@/utils/liveLocation";
+
+interface LiveLocationMapProps {
+  locations: LiveLocation[];
+  currentUserId: string | undefined;
+}
+
+// Small map with one marker per person sharing, kept framed as they move
+const LiveLocationMap = ({ locations, currentUserId }: LiveLocationMapProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const markersRef = useRef<Record<string, mapboxgl.Marker>>({});
+  const hasLocations = locations.length > 0;
+  const firstRef = useRef(locations[0]);
+  firstRef.current = locations[0];
+
+  // The map only exists while someone is sharing
+  useEffect(() => {
+    const first = firstRef.current;
+    if (!containerRef.current || !hasLocations || !first) return;
+
+    mapboxgl.accessToken = MAPBOX_ACCESS_TOKEN;
+    const map = new mapboxgl.Map({
+      container: containerRef.current,
+      style: MAP_STYLE_URL,
+      center: [first.lng, first.lat],
+      zoom: DEFAULT_MAP_ZOOM,
+    });
+    mapRef.current = map;
+    const markers = markersRef.current;
+
+    return () => {
+      Object.values(markers).forEach((marker) => marker.remove());
+      markersRef.current = {};
+      map.remove();
+      mapRef.current = null;
+    };
+  }, [hasLocations]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const markers = markersRef.current;
+    const sharing = new Set(locations.map((l) => l.user_id));
+
+    Object.entries(markers).forEach(([userId, marker]) => {
+      if (!sharing.has(userId)) {
+        marker.remove();
+        delete markers[userId];
+      }
+    });
+
+    locations.forEach((location) => {
+      const existing = markers[location.user_id];
+      if (existing) {
+        existing.setLngLat([location.lng, location.lat]);
+        return;
+      }
+
+      const isMe = location.user_id === currentUserId;
+      const el = document.createElement("div");
+      el.className = `flex h-8 w-8 items-center justify-center rounded-full border-2 border-white shadow-md text-base ${
+        isMe ? "bg-blue-600" : "bg-teal-500"
+      }`;
+      el.textContent = location.avatar_emoji || "📍";
+
+      markers[location.user_id] = new mapboxgl.Marker({ element: el })
+        .setLngLat([location.lng, location.lat])
+        .setPopup(
+          new mapboxgl.Popup({ offset: 16 }).setText(
+            isMe
+              ? "You"
+              : location.full_name || location.username || "Anonymous"
+          )
+        )
+        .addTo(map);
+    });
+
+    if (locations.length > 1) {
+      const bounds = new mapboxgl.LngLatBounds();
+      locations.forEach((l) => bounds.extend([l.lng, l.lat]));
+      map.fitBounds(bounds, { padding: 40, maxZoom: 16, duration: 500 });
+    } else if (locations.length === 1) {
+      map.easeTo({ center: [locations[0].lng, locations[0].lat], duration: 500 });
+    }
+  }, [locations, currentUserId]);
+
+  if (!hasLocations) return null;
+
+  return <div ref={containerRef} className="w-full h-48 rounded-lg border" />;
+};
+
+export default LiveLocationMap;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+import { Navigation, Radio } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/useAuth";
+import { useLiveLocation } from "@/hooks/useLiveLocation";
+import { toast } from "@/hooks/use-toast";
+import { distanceKm } from "@/utils/distance";
+import {
+  formatDistance,
+  formatEta,
+  formatTimeLeft,
+  LIVE_LOCATION_DURATIONS,
+  type LiveLocationDuration,
+} from "@/utils/liveLocation";
+import { isMapConfigured } from "@/utils/mapConfig";
+import { formatTime } from "@/utils/timeUtils";
+import LiveLocationMap from "@/components/LiveLocationMap";
+
+interface LiveLocationPanelProps {
+  helpRequestId: string;
+}
+
+// Requester and accepted helpers can follow each other for a limited time
+const LiveLocationPanel = ({ helpRequestId }: LiveLocationPanelProps) => {
+  const { user, userLocation } = useAuth();
+  const {
+    locations,
+    myLocation,
+    otherLocations,
+    isSharing,
+    starting,
+    startSharing,
+    stopSharing,
+  } = useLiveLocation(helpRequestId);
+  const [now, setNow] = useState(Date.now());
+
+  // Refresh the countdowns and ETAs once a minute
+  useEffect(() => {
+    if (locations.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(interval);
+  }, [locations.length]);
+
+  const handleStart = async (minutes: LiveLocationDuration) => {
+    const { error } = await startSharing(minutes);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+    } else {
+      toast({
+        title: "Sharing live location",
+        description: `Others on this request can follow you for ${minutes} minutes.`,
+      });
+    }
+  };
+
+  const handleStop = async () => {
+    const { error } = await stopSharing();
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+    }
+  };
+
+  const origin = myLocation || userLocation;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {isSharing ? (
+        <div className="flex items-center justify-between text-xs text-teal-700">
+          <span className="flex items-center">
+            <Radio className="h-3 w-3 mr-1 animate-pulse" />
+            Sharing live location · {formatTimeLeft(myLocation.shared_until, now)}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleStop}
+            className="h-7 text-red-600 border-red-200 hover:bg-red-50"
+          >
+            Stop
+          </Button>
+        </div>
+      ) : (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={starting}
+              className="w-full text-teal-700 border-teal-200 hover:bg-teal-50"
+            >
+              <Navigation className="mr-1 h-4 w-4" />
+              {starting ? "Starting..." : "Share live location"}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center">
+            <DropdownMenuLabel>Share for</DropdownMenuLabel>
+            {LIVE_LOCATION_DURATIONS.map((minutes) => (
+              <DropdownMenuItem
+                key={minutes}
+                onSelect={() => handleStart(minutes)}
+              >
+                {minutes} minutes
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {otherLocations.length > 0 && (
+        <ul className="space-y-1">
+          {otherLocations.map((location) => {
+            const km = origin ? distanceKm(origin, location) : null;
+            return (
+              <li
+                key={location.user_id}
+                className="flex items-center justify-between text-xs text-gray-600"
+              >
+                <span className="capitalize truncate">
+                  {location.avatar_emoji}{" "}
+                  {location.full_name || location.username || "Anonymous"}
+                  <span className="ml-1 normal-case text-gray-400">
+                    updated {formatTime(location.updated_at)}
+                  </span>
+                </span>
+                {km !== null && (
+                  <span className="shrink-0 ml-2 font-medium text-teal-700">
+                    {formatDistance(km)} · {formatEta(km)}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isMapConfigured() && (
+        <LiveLocationMap locations={locations} currentUserId={user?.id} />
+      )}
+    </div>
+  );
+};
+
+export default LiveLocationPanel;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+interface LoadOlderMessagesProps {
+  hasOlder: boolean;
+  loading: boolean;
+  onLoadOlder: () => Promise<void>;
+}
+
+// Sits at the top of a chat: loads the previous page when scrolled into view
+// (or tapped) and keeps the reader's place once the older messages render
+const LoadOlderMessages = ({
+  hasOlder,
+  loading,
+  onLoadOlder,
+}: LoadOlderMessagesProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadOlderRef = useRef(onLoadOlder);
+  onLoadOlderRef.current = onLoadOlder;
+  const busyRef = useRef(false);
+
+  const loadOlder = async () => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+
+    const scroller = document.scrollingElement || document.documentElement;
+    const previousHeight = scroller.scrollHeight;
+    try {
+      await onLoadOlderRef.current();
+    } finally {
+      requestAnimationFrame(() => {
+        scroller.scrollTop += scroller.scrollHeight - previousHeight;
+        busyRef.current = false;
+      });
+    }
+  };
+
+  const loadOlderRef = useRef(loadOlder);
+  loadOlderRef.current = loadOlder;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasOlder) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        // Ignore the first render at the top, before the chat has scrolled to the latest message
+        if (entry.isIntersecting && window.scrollY > 0) loadOlderRef.current();
+      },
+      { rootMargin: "200px 0px 0px 0px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasOlder]);
+
+  if (!hasOlder) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        disabled={loading}
+        onClick={loadOlder}
+        className="text-xs text-white hover:bg-white/10"
+      >
+        {loading ? "Loading older messages..." : "Load older messages"}
+      </Button>
+    </div>
+  );
+};
+
+export default LoadOlderMessages;
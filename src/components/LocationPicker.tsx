@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from "react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import { Crosshair, Home, Building2, MapPin, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { useGeocodeSearch } from "@/hooks/useGeocodeSearch";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { forwardGeocode, reverseGeocode } from "@/utils/geocoding";
+import {
+  DEFAULT_MAP_ZOOM,
+  isMapConfigured,
+  MAP_STYLE_URL,
+  MAPBOX_ACCESS_TOKEN,
+} from "@/utils/mapConfig";
+
+export interface PickedLocation {
+  lat: number;
+  lng: number;
+  name: string;
+  source: "current" | "search" | "pin" | "saved";
+}
+
+interface LocationPickerProps {
+  value: PickedLocation | null;
+  onChange: (location: PickedLocation) => void;
+}
+
+interface SavedPlace {
+  label: string;
+  address: string;
+  icon: React.ReactNode;
+}
+
+// Tap anywhere on the map to move the pin
+const PinDropMap = ({
+  center,
+  pin,
+  onPick,
+}: {
+  center: { lat: number; lng: number };
+  pin: { lat: number; lng: number } | null;
+  onPick: (lat: number, lng: number) => void;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const markerRef = useRef<mapboxgl.Marker | null>(null);
+  const onPickRef = useRef(onPick);
+  onPickRef.current = onPick;
+  // The map opens once, centred on the pin if there is one; later pins move the marker instead
+  const initialCenterRef = useRef(pin ?? center);
+  const pinLat = pin?.lat;
+  const pinLng = pin?.lng;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    mapboxgl.accessToken = MAPBOX_ACCESS_TOKEN;
+    const map = new mapboxgl.Map({
+      container: containerRef.current,
+      style: MAP_STYLE_URL,
+      center: [initialCenterRef.current.lng, initialCenterRef.current.lat],
+      zoom: DEFAULT_MAP_ZOOM,
+    });
+    mapRef.current = map;
+
+    map.on("click", (e) => onPickRef.current(e.lngLat.lat, e.lngLat.lng));
+
+    return () => {
+      markerRef.current = null;
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || pinLat == null || pinLng == null) return;
+
+    if (!markerRef.current) {
+      markerRef.current = new mapboxgl.Marker({ color: "#dc2626", draggable: true })
+        .setLngLat([pinLng, pinLat])
+        .addTo(map);
+      markerRef.current.on("dragend", () => {
+        const { lat, lng } = markerRef.current.getLngLat();
+        onPickRef.current(lat, lng);
+      });
+    } else {
+      markerRef.current.setLngLat([pinLng, pinLat]);
+    }
+  }, [pinLat, pinLng]);
+
+  return <div ref={containerRef} className="w-full h-56 rounded-lg border" />;
+};
+
+const LocationPicker = ({ value, onChange }: LocationPickerProps) => {
+  const { user, userLocation } = useAuth();
+  const [query, setQuery] = useState("");
+  const [showSearch, setShowSearch] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [resolving, setResolving] = useState(false);
+  // Bumped on every pick so a slow place-name lookup can't overwrite a newer one
+  const pickRef = useRef(0);
+  const { results, loading: searching, live, search } = useGeocodeSearch(
+    showSearch ? query : "",
+    userLocation
+  );
+
+  // Saved places come from the addresses on the user's profile
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchSavedPlaces = async () => {
+      const { data, error } = await supabase
+        .rpc("get_own_contact_details")
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching saved places:", error);
+        return;
+      }
+
+      const places: SavedPlace[] = [];
+      if (data?.home_address?.trim()) {
+        places.push({
+          label: "Home",
+          address: data.home_address.trim(),
+          icon: <Home className="h-4 w-4 mr-1" />,
+        });
+      }
+      if (data?.current_address?.trim()) {
+        places.push({
+          label: "Office",
+          address: data.current_address.trim(),
+          icon: <Building2 className="h-4 w-4 mr-1" />,
+        });
+      }
+      setSavedPlaces(places);
+    };
+
+    fetchSavedPlaces();
+  }, [user]);
+
+  const pick = (location: PickedLocation) => {
+    pickRef.current++;
+    onChange(location);
+  };
+
+  const handleUseCurrent = () => {
+    if (!userLocation) return;
+    setShowSearch(false);
+    setShowMap(false);
+    pick({ ...userLocation, source: "current" });
+  };
+
+  const handleSavedPlace = async (place: SavedPlace) => {
+    setResolving(true);
+    const request = pickRef.current;
+    try {
+      const [match] = await forwardGeocode(place.address, {
+        near: userLocation,
+        limit: 1,
+      });
+      if (request !== pickRef.current) return;
+
+      if (!match) {
+        toast({
+          title: "Address not found",
+          description: `We couldn't locate your ${place.label.toLowerCase()} address. Try searching or dropping a pin instead.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setShowSearch(false);
+      setShowMap(false);
+      pick({ lat: match.lat, lng: match.lng, name: place.address, source: "saved" });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const handlePinDrop = async (lat: number, lng: number) => {
+    pick({ lat, lng, name: "Dropped pin", source: "pin" });
+    const request = pickRef.current;
+    const name = await reverseGeocode(lat, lng);
+    if (request === pickRef.current) onChange({ lat, lng, name, source: "pin" });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={value?.source === "current" ? "default" : "outline"}
+          disabled={!userLocation}
+          onClick={handleUseCurrent}
+        >
+          <Crosshair className="h-4 w-4 mr-1" />
+          Current location
+        </Button>
+        {savedPlaces.map((place) => (
+          <Button
+            key={place.label}
+            type="button"
+            size="sm"
+            variant={
+              value?.source === "saved" && value.name === place.address
+                ? "default"
+                : "outline"
+            }
+            disabled={resolving}
+            onClick={() => handleSavedPlace(place)}
+          >
+            {place.icon}
+            {place.label}
+          </Button>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant={showSearch ? "default" : "outline"}
+          onClick={() => setShowSearch(!showSearch)}
+        >
+          <Search className="h-4 w-4 mr-1" />
+          Search
+        </Button>
+        {isMapConfigured() && (
+          <Button
+            type="button"
+            size="sm"
+            variant={showMap ? "default" : "outline"}
+            onClick={() => setShowMap(!showMap)}
+          >
+            <MapPin className="h-4 w-4 mr-1" />
+            Drop pin
+          </Button>
+        )}
+      </div>
+
+      {showSearch && (
+        <div className="space-y-1">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              // This sits inside the request form, so Enter searches instead of submitting it
+              if (e.key !== "Enter") return;
+              e.preventDefault();
+              if (!live) search();
+            }}
+            placeholder={
+              live ? "Type an address or area" : "Type an address or area, then press Enter"
+            }
+            autoFocus
+          />
+          {searching && (
+            <p className="text-xs text-white/70 px-1">Searching...</p>
+          )}
+          {results.length > 0 && (
+            <div className="rounded-lg border bg-white overflow-hidden">
+              {results.map((result) => (
+                <button
+                  key={`${result.lat},${result.lng}`}
+                  type="button"
+                  className="w-full text-left px-3 py-2 text-sm text-gray-800 hover:bg-blue-50 border-b last:border-b-0"
+                  onClick={() => {
+                    pick({ ...result, source: "search" });
+                    setQuery("");
+                    setShowSearch(false);
+                  }}
+                >
+                  {result.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showMap && (userLocation || value) && (
+        <PinDropMap
+          center={value || userLocation}
+          pin={value?.source === "pin" ? value : null}
+          onPick={handlePinDrop}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LocationPicker;
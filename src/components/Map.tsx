@@ -1,254 +1,329 @@
 import React, { useEffect, useRef, useState } from "react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { MapPin, Users } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresence } from "@/hooks/usePresence";
+import { useHelpCategories } from "@/hooks/useHelpCategories";
 import { supabase } from "@/integrations/supabase/client";
 import UserProfileModal from "@/components/UserProfileModal";
+import { formatRadius } from "@/utils/searchRadius";
+import {
+  CLUSTER_MAX_ZOOM,
+  DEFAULT_MAP_ZOOM,
+  isMapConfigured,
+  MAP_STYLE_URL,
+  MAPBOX_ACCESS_TOKEN,
+} from "@/utils/mapConfig";
+import type { Database } from "@/integrations/supabase/types";
+import { isPreciseLocation } from "@/utils/locationPrivacy";
+import {
+  getUserStatusDotColor,
+  getUserStatusHex,
+  getUserStatusLabel,
+  getUserStatusTextColor,
+  type UserStatus,
+} from "@/utils/userStatus";
+
+type NearbyRequest =
+  Database["public"]["Functions"]["get_nearby_help_requests"]["Returns"][number];
+
+const USERS_SOURCE = "nearby-users";
+
+// Available users first, offline last
+const STATUS_SORT_ORDER: UserStatus[] = [
+  "online",
+  "away",
+  "do_not_disturb",
+  "offline",
+];
+const REQUESTS_SOURCE = "nearby-requests";
+
+const emptyCollection = (): GeoJSON.FeatureCollection => ({
+  type: "FeatureCollection",
+  features: [],
+});
+
+const hasCoordinates = (point: { lat: number; lng: number }) =>
+  point.lat !== null &&
+  point.lng !== null &&
+  !isNaN(point.lat) &&
+  !isNaN(point.lng);
+
+// Clustered circles at low zoom, individual pins once zoomed in
+const addClusteredLayers = (
+  map: mapboxgl.Map,
+  sourceId: string,
+  clusterColor: string,
+  pointPaint: mapboxgl.CirclePaint
+) => {
+  map.addSource(sourceId, {
+    type: "geojson",
+    data: emptyCollection(),
+    cluster: true,
+    clusterMaxZoom: CLUSTER_MAX_ZOOM,
+    clusterRadius: 40,
+  });
+
+  map.addLayer({
+    id: `${sourceId}-clusters`,
+    type: "circle",
+    source: sourceId,
+    filter: ["has", "point_count"],
+    paint: {
+      "circle-color": clusterColor,
+      "circle-opacity": 0.85,
+      "circle-radius": ["step", ["get", "point_count"], 14, 10, 18, 50, 24],
+      "circle-stroke-width": 2,
+      "circle-stroke-color": "#ffffff",
+    },
+  });
+
+  map.addLayer({
+    id: `${sourceId}-cluster-count`,
+    type: "symbol",
+    source: sourceId,
+    filter: ["has", "point_count"],
+    layout: {
+      "text-field": ["get", "point_count_abbreviated"],
+      "text-size": 12,
+    },
+    paint: { "text-color": "#ffffff" },
+  });
+
+  map.addLayer({
+    id: `${sourceId}-points`,
+    type: "circle",
+    source: sourceId,
+    filter: ["!", ["has", "point_count"]],
+    paint: pointPaint,
+  });
+
+  // Zoom into a cluster when it is tapped
+  map.on("click", `${sourceId}-clusters`, (e) => {
+    const feature = e.features?.[0];
+    if (!feature) return;
+    const source = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
+    source.getClusterExpansionZoom(
+      feature.properties?.cluster_id,
+      (error, zoom) => {
+        if (error || zoom == null) return;
+        map.easeTo({
+          center: (feature.geometry as GeoJSON.Point).coordinates as [
+            number,
+            number
+          ],
+          zoom,
+        });
+      }
+    );
+  });
 
-interface OnlineUser {
-  user_id: string;
-  full_name: string;
-  username: string;
-  location_name: string;
-  lat: number;
-  lng: number;
-  distance_km: number;
-  is_online: boolean;
-  avatar_emoji: string;
-}
+  [`${sourceId}-clusters`, `${sourceId}-points`].forEach((layerId) => {
+    map.on("mouseenter", layerId, () => {
+      map.getCanvas().style.cursor = "pointer";
+    });
+    map.on("mouseleave", layerId, () => {
+      map.getCanvas().style.cursor = "";
+    });
+  });
+};
 
 const Map = () => {
-  const { userLocation, user } = useAuth();
-  const [allNearbyUsers, setAllNearbyUsers] = useState<OnlineUser[]>([]);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const navigate = useNavigate();
+  const { userLocation, user, searchRadiusKm } = useAuth();
+  const { categories, getCategoryHex } = useHelpCategories();
+  const { nearbyUsers: allNearbyUsers } = usePresence();
+  const [nearbyRequests, setNearbyRequests] = useState<NearbyRequest[]>([]);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [mapError, setMapError] = useState<string | null>(null);
 
-  // Fetch nearby users from database
-  const fetchNearbyUsers = async () => {
-    if (!userLocation || !user) {
-      console.log("Map: Missing userLocation or user");
-      return;
-    }
-
-    try {
-      console.log("Map: Fetching nearby users at:", userLocation);
-
-      const { data, error } = await supabase.rpc("get_nearby_users" as any, {
-        user_lat: userLocation.lat,
-        user_lng: userLocation.lng,
-        radius_km: 10.0,
-      });
-
-      if (error) {
-        console.error("Map: Error fetching nearby users:", error);
-        setMapError("Failed to fetch nearby users");
-        return;
-      }
+  // Open requests are shown as pins regardless of the feed's status filter
+  const fetchNearbyRequests = async () => {
+    if (!userLocation || !user) return;
 
-      const users = (data as OnlineUser[]) || [];
-      console.log("Map: Fetched users:", users);
+    const { data, error } = await supabase.rpc("get_nearby_help_requests", {
+      user_lat: userLocation.lat,
+      user_lng: userLocation.lng,
+      radius_km: searchRadiusKm,
+      statuses: ["open"],
+    });
 
-      setAllNearbyUsers(users);
-      setMapError(null);
-    } catch (error) {
-      console.error("Map: Error fetching nearby users:", error);
-      setMapError("Failed to fetch nearby users");
+    if (error) {
+      console.error("Map: Error fetching nearby requests:", error);
+      return;
     }
+
+    setNearbyRequests(data || []);
   };
 
-  // Fetch nearby users when component mounts and periodically
+  // Users come live from presence; request pins are refreshed periodically
   useEffect(() => {
     if (userLocation && user) {
-      fetchNearbyUsers();
-      const interval = setInterval(fetchNearbyUsers, 8000); // Every 8 seconds
+      fetchNearbyRequests();
+      const interval = setInterval(fetchNearbyRequests, 8000); // Every 8 seconds
       return () => clearInterval(interval);
     }
-  }, [userLocation, user]);
-
-  // Initialize simple map visualization
-  const initializeMap = () => {
-    console.log("Map: initializeMap called", {
-      hasCanvas: !!canvasRef.current,
-      hasUserLocation: !!userLocation,
-      userLocation: userLocation,
-    });
+  }, [userLocation, user, searchRadiusKm]);
 
-    if (!canvasRef.current) {
-      console.log("Map: Canvas ref not available");
-      return false;
-    }
+  const hasLocation = !!userLocation;
 
-    if (!userLocation) {
-      console.log("Map: User location not available");
-      setMapError("Location not available");
-      setIsLoaded(false);
-      return false;
+  // Create the map once the container is mounted and we know where the user is
+  useEffect(() => {
+    if (!hasLocation || !mapContainerRef.current || mapRef.current) return;
+
+    if (!isMapConfigured()) {
+      setMapError(
+        "Set VITE_MAPBOX_ACCESS_TOKEN or point VITE_MAP_STYLE_URL at a self-hosted style"
+      );
+      return;
     }
 
     try {
-      console.log("Map: Initializing simple map with users:", allNearbyUsers);
-
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        console.error("Map: Failed to get canvas context");
-        setMapError("Failed to create map context");
-        setIsLoaded(false);
-        return false;
-      }
+      mapboxgl.accessToken = MAPBOX_ACCESS_TOKEN;
 
-      // Set canvas size to match the display size
-      const rect = canvas.getBoundingClientRect();
-      canvas.width = rect.width;
-      canvas.height = rect.height;
-
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      // Draw background with grid pattern
-      ctx.fillStyle = "#f0f8ff";
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      // Add a subtle grid pattern
-      ctx.strokeStyle = "#e0e8f0";
-      ctx.lineWidth = 1;
-      for (let x = 0; x <= canvas.width; x += 20) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvas.height);
-        ctx.stroke();
-      }
-      for (let y = 0; y <= canvas.height; y += 20) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.stroke();
-      }
-
-      // Calculate bounds - ensure we have valid numbers
-      const allLats = [
-        userLocation.lat,
-        ...allNearbyUsers.map((u) => u.lat),
-      ].filter((lat) => !isNaN(lat) && lat !== null && lat !== undefined);
-      const allLngs = [
-        userLocation.lng,
-        ...allNearbyUsers.map((u) => u.lng),
-      ].filter((lng) => !isNaN(lng) && lng !== null && lng !== undefined);
-
-      if (allLats.length === 0 || allLngs.length === 0) {
-        console.log("Map: No valid coordinates to display");
-        setMapError("No valid coordinates to display");
-        setIsLoaded(false);
-        return false;
-      }
+      const map = new mapboxgl.Map({
+        container: mapContainerRef.current,
+        style: MAP_STYLE_URL,
+        center: [userLocation.lng, userLocation.lat],
+        zoom: DEFAULT_MAP_ZOOM,
+      });
+      mapRef.current = map;
+
+      map.addControl(new mapboxgl.NavigationControl({ showCompass: false }));
+
+      map.on("load", () => {
+        addClusteredLayers(map, USERS_SOURCE, "#10b981", {
+          "circle-radius": 7,
+          "circle-color": ["get", "color"],
+          // Blurred positions are drawn faded
+          "circle-opacity": ["case", ["get", "is_precise"], 1, 0.5],
+          "circle-stroke-width": 2,
+          "circle-stroke-color": "#ffffff",
+        });
+
+        addClusteredLayers(map, REQUESTS_SOURCE, "#f97316", {
+          "circle-radius": ["case", ["get", "is_urgent"], 11, 9],
+          "circle-color": ["get", "color"],
+          "circle-stroke-width": ["case", ["get", "is_urgent"], 3, 2],
+          "circle-stroke-color": [
+            "case",
+            ["get", "is_urgent"],
+            "#fde047",
+            "#ffffff",
+          ],
+        });
+
+        // Tapping a request pin opens its chat
+        map.on("click", `${REQUESTS_SOURCE}-points`, (e) => {
+          const requestId = e.features?.[0]?.properties?.id;
+          if (requestId) navigate(`/chat/${requestId}`);
+        });
+
+        map.on("click", `${USERS_SOURCE}-points`, (e) => {
+          const feature = e.features?.[0];
+          if (!feature) return;
+          const { name, status } = feature.properties || {};
+          new mapboxgl.Popup({ offset: 10, closeButton: false })
+            .setLngLat(
+              (feature.geometry as GeoJSON.Point).coordinates as [
+                number,
+                number
+              ]
+            )
+            .setText(`${name} • ${getUserStatusLabel(status)}`)
+            .addTo(map);
+        });
+
+        setIsLoaded(true);
+        setMapError(null);
+      });
 
-      const minLat = Math.min(...allLats) - 0.01;
-      const maxLat = Math.max(...allLats) + 0.01;
-      const minLng = Math.min(...allLngs) - 0.01;
-      const maxLng = Math.max(...allLngs) + 0.01;
-
-      // Convert lat/lng to canvas coordinates
-      const latToY = (lat: number) => {
-        if (isNaN(lat) || maxLat === minLat) return canvas.height / 2;
-        return ((maxLat - lat) / (maxLat - minLat)) * (canvas.height - 40) + 20;
-      };
-
-      const lngToX = (lng: number) => {
-        if (isNaN(lng) || maxLng === minLng) return canvas.width / 2;
-        return ((lng - minLng) / (maxLng - minLng)) * (canvas.width - 40) + 20;
-      };
-
-      // Draw user's location (blue dot)
-      const userX = lngToX(userLocation.lng);
-      const userY = latToY(userLocation.lat);
-
-      ctx.fillStyle = "#2563eb";
-      ctx.beginPath();
-      ctx.arc(userX, userY, 8, 0, 2 * Math.PI);
-      ctx.fill();
-
-      // Add user label
-      ctx.fillStyle = "#1f2937";
-      ctx.font = "12px Arial";
-      ctx.fillText("You", userX - 10, userY - 12);
-
-      // Draw nearby users
-      allNearbyUsers.forEach((nearbyUser) => {
-        if (
-          isNaN(nearbyUser.lat) ||
-          isNaN(nearbyUser.lng) ||
-          nearbyUser.lat === null ||
-          nearbyUser.lat === undefined ||
-          nearbyUser.lng === null ||
-          nearbyUser.lng === undefined
-        ) {
-          console.log(
-            "Map: Skipping user with invalid coordinates:",
-            nearbyUser
-          );
-          return;
+      map.on("error", (e) => {
+        console.error("Map: Mapbox error:", e.error);
+        if (!map.isStyleLoaded()) {
+          setMapError("Failed to load map style");
         }
-
-        const x = lngToX(nearbyUser.lng);
-        const y = latToY(nearbyUser.lat);
-
-        // Choose color based on online status
-        ctx.fillStyle = nearbyUser.is_online ? "#10b981" : "#ef4444";
-        ctx.beginPath();
-        ctx.arc(x, y, 6, 0, 2 * Math.PI);
-        ctx.fill();
-
-        // Add user name
-        ctx.fillStyle = "#1f2937";
-        ctx.font = "10px Arial";
-        const userName = nearbyUser.full_name || "Unknown";
-        const textWidth = ctx.measureText(userName).width;
-        ctx.fillText(userName, x - textWidth / 2, y - 10);
       });
-
-      setIsLoaded(true);
-      setMapError(null);
-      console.log("Map: Successfully initialized and set isLoaded to true");
-      return true;
     } catch (error) {
       console.error("Map: Error initializing map:", error);
       setMapError("Failed to initialize map");
-      setIsLoaded(false);
-      return false;
     }
-  };
 
-  // Initialize map when canvas is mounted and we have data
-  useEffect(() => {
-    if (!userLocation) return;
-
-    const checkAndInitialize = () => {
-      if (canvasRef.current) {
-        console.log("Map: Canvas is ready, initializing map");
-        const success = initializeMap();
-        if (!success) {
-          // If initialization failed, clear any error after a short delay and try again
-          setTimeout(() => {
-            setMapError(null);
-          }, 1000);
-        }
-      } else {
-        console.log("Map: Canvas not ready yet, will retry");
-        setMapError("Canvas not ready");
-        setIsLoaded(false);
-      }
+    return () => {
+      userMarkerRef.current?.remove();
+      userMarkerRef.current = null;
+      mapRef.current?.remove();
+      mapRef.current = null;
+      setIsLoaded(false);
     };
+  }, [hasLocation]);
 
-    // Try immediately
-    checkAndInitialize();
+  // Keep the "you are here" marker in sync with the user's location
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isLoaded || !userLocation) return;
+
+    if (!userMarkerRef.current) {
+      const el = document.createElement("div");
+      el.className =
+        "h-4 w-4 rounded-full bg-blue-600 border-2 border-white shadow-md";
+      userMarkerRef.current = new mapboxgl.Marker({ element: el })
+        .setLngLat([userLocation.lng, userLocation.lat])
+        .setPopup(new mapboxgl.Popup({ offset: 10 }).setText("You"))
+        .addTo(map);
+    } else {
+      userMarkerRef.current.setLngLat([userLocation.lng, userLocation.lat]);
+    }
+  }, [isLoaded, userLocation]);
 
-    // Also try after a short delay to ensure canvas is mounted
-    const timeout = setTimeout(checkAndInitialize, 200);
+  useEffect(() => {
+    const source = mapRef.current?.getSource(USERS_SOURCE) as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    if (!isLoaded || !source) return;
+
+    source.setData({
+      type: "FeatureCollection",
+      features: allNearbyUsers.filter(hasCoordinates).map((nearbyUser) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [nearbyUser.lng, nearbyUser.lat] },
+        properties: {
+          id: nearbyUser.user_id,
+          name: nearbyUser.full_name || nearbyUser.username || "Unknown User",
+          status: nearbyUser.status,
+          color: getUserStatusHex(nearbyUser.status),
+          is_precise: isPreciseLocation(nearbyUser.location_precision),
+        },
+      })),
+    });
+  }, [isLoaded, allNearbyUsers]);
 
-    return () => clearTimeout(timeout);
-  }, [allNearbyUsers, userLocation]);
+  useEffect(() => {
+    const source = mapRef.current?.getSource(REQUESTS_SOURCE) as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    if (!isLoaded || !source) return;
+
+    source.setData({
+      type: "FeatureCollection",
+      features: nearbyRequests.filter(hasCoordinates).map((request) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [request.lng, request.lat] },
+        properties: {
+          id: request.id,
+          color: getCategoryHex(request.category),
+          is_urgent: request.is_urgent,
+        },
+      })),
+    });
+  }, [isLoaded, nearbyRequests, categories]);
 
   if (!userLocation) {
     return (
@@ -282,20 +357,22 @@ const Map = () => {
               </span>
               <span className="text-xs">total</span>
             </div>
+            <div className="flex items-center space-x-1 text-orange-600">
+              <span className="text-sm font-medium">
+                {nearbyRequests.length}
+              </span>
+              <span className="text-xs">requests</span>
+            </div>
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {/* <div className="w-full h-64 rounded-lg border mb-4 relative">
-          <canvas
-            ref={canvasRef}
-            className="w-full h-full border rounded-lg bg-blue-50"
-            style={{ maxWidth: '400px', maxHeight: '300px' }}
-          />
+        <div className="w-full h-64 rounded-lg border mb-4 relative overflow-hidden">
+          <div ref={mapContainerRef} className="absolute inset-0" />
           {!isLoaded && (
             <div className="absolute inset-0 flex items-center justify-center bg-white rounded-lg">
               {mapError ? (
-                <div className="text-center">
+                <div className="text-center px-4">
                   <p className="text-red-500 text-sm mb-2">Map Error</p>
                   <p className="text-gray-500 text-xs">{mapError}</p>
                 </div>
@@ -304,17 +381,19 @@ const Map = () => {
               )}
             </div>
           )}
-        </div> */}
+        </div>
 
         <div className="space-y-3">
-          <h4 className="font-medium text-sm">Users Nearby (10km radius):</h4>
+          <h4 className="font-medium text-sm">Users Nearby ({formatRadius(searchRadiusKm)} radius):</h4>
           {allNearbyUsers.length === 0 ? (
             <p className="text-sm text-gray-500">No other users nearby</p>
           ) : (
             <div className=" max-h-56 overflow-y-auto">
-              {allNearbyUsers
-                .sort((a, b) =>
-                  b.is_online === a.is_online ? 0 : b.is_online ? 1 : -1
+              {[...allNearbyUsers]
+                .sort(
+                  (a, b) =>
+                    STATUS_SORT_ORDER.indexOf(a.status) -
+                    STATUS_SORT_ORDER.indexOf(b.status)
                 )
                 .map((nearbyUser) => (
                   <UserProfileModal
@@ -325,7 +404,8 @@ const Map = () => {
                       nearbyUser.username ||
                       "Unknown User"
                     }
-                    isOnline={nearbyUser.is_online}
+                    isOnline={nearbyUser.status !== "offline"}
+                    status={nearbyUser.status}
                     distance={nearbyUser.distance_km}
                   >
                     <div className="flex items-center space-x-3 p-2 my-2 neuromorphic hover:bg-gray-100 cursor-pointer transition-colors">
@@ -344,11 +424,9 @@ const Map = () => {
                           </Avatar>
                         )}
                         <div
-                          className={`absolute -top-1 -right-1 w-3 h-3 ${
-                            nearbyUser.is_online
-                              ? "bg-green-500"
-                              : "bg-gray-400"
-                          } border-2 border-white rounded-full`}
+                          className={`absolute -top-1 -right-1 w-3 h-3 ${getUserStatusDotColor(
+                            nearbyUser.status
+                          )} border-2 border-white rounded-full`}
                         ></div>
                       </div>
                       <div className="flex-1 min-w-0">
@@ -359,20 +437,23 @@ const Map = () => {
                           at {nearbyUser.location_name || "Unknown location"}
                         </p>
                         <p className="text-xs text-gray-400">
-                          {isNaN(nearbyUser.distance_km)
+                          {nearbyUser.distance_km == null ||
+                          isNaN(nearbyUser.distance_km)
                             ? "Distance unknown"
-                            : `${nearbyUser.distance_km.toFixed(1)} km away`}
+                            : `${
+                                isPreciseLocation(nearbyUser.location_precision)
+                                  ? ""
+                                  : "~"
+                              }${nearbyUser.distance_km.toFixed(1)} km away`}
                         </p>
                       </div>
                       <div className="flex items-center">
                         <span
-                          className={`text-xs font-medium ${
-                            nearbyUser.is_online
-                              ? "text-green-600"
-                              : "text-gray-500"
-                          }`}
+                          className={`text-xs font-medium ${getUserStatusTextColor(
+                            nearbyUser.status
+                          )}`}
                         >
-                          {nearbyUser.is_online ? "Online" : "Offline"}
+                          {getUserStatusLabel(nearbyUser.status)}
                         </span>
                       </div>
                     </div>
@@ -0,0 +1,274 @@
+import React, { useState } from "react";
+import { Copy, History, Pencil, Reply, SmilePlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ReactionPicker } from "@/components/MessageReactions";
+import { toast } from "@/hooks/use-toast";
+import { QUICK_REACTIONS } from "@/utils/emojis";
+import { formatChatTime } from "@/utils/timeUtils";
+import {
+  fetchMessageEdits,
+  isDeletedMessage,
+  type ChatMessage,
+  type MessageEdit,
+} from "@/utils/chatMessages";
+
+interface MessageActionsMenuProps {
+  message: ChatMessage;
+  canEdit: boolean;
+  canDelete: boolean;
+  // Someone other than the author removing it, e.g. the requester moderating their chat
+  isModerating?: boolean;
+  maxLength: number;
+  onReply?: () => void;
+  onReact?: (emoji: string) => void;
+  onEdit: (messageId: string, message: string) => Promise<{ error?: string }>;
+  onDelete: (message: ChatMessage) => Promise<{ error?: string }>;
+  children: React.ReactNode;
+}
+
+// Right-click or long-press on a bubble to react, reply, copy, edit, see earlier versions or delete it
+const MessageActionsMenu = ({
+  message,
+  canEdit,
+  canDelete,
+  isModerating,
+  maxLength,
+  onReply,
+  onReact,
+  onEdit,
+  onDelete,
+  children,
+}: MessageActionsMenuProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [history, setHistory] = useState<MessageEdit[] | null>(null);
+  const [pickingReaction, setPickingReaction] = useState(false);
+
+  if (message.pending || isDeletedMessage(message)) return <>{children}</>;
+
+  const showError = (description: string) =>
+    toast({ title: "Error", description, variant: "destructive" });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(message.message);
+    } catch {
+      showError("Couldn't copy the message.");
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || text === message.message) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await onEdit(message.id, text);
+    setSaving(false);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    setEditing(false);
+  };
+
+  const handleDelete = async () => {
+    const { error } = await onDelete(message);
+    if (error) showError(error);
+  };
+
+  const handleShowHistory = async () => {
+    const { data, error } = await fetchMessageEdits(message.id);
+    if (error) {
+      showError(error);
+      return;
+    }
+    setHistory(data);
+  };
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+        <ContextMenuContent>
+          {onReact && (
+            <>
+              <div className="flex items-center gap-1 px-1 py-1">
+                {QUICK_REACTIONS.map((emoji) => (
+                  <ContextMenuItem
+                    key={emoji}
+                    onSelect={() => onReact(emoji)}
+                    className="text-lg px-2"
+                    aria-label={`React with ${emoji}`}
+                  >
+                    {emoji}
+                  </ContextMenuItem>
+                ))}
+                <ContextMenuItem
+                  onSelect={() => setPickingReaction(true)}
+                  className="px-2"
+                  aria-label="More reactions"
+                >
+                  <SmilePlus className="h-4 w-4" />
+                </ContextMenuItem>
+              </div>
+              <ContextMenuSeparator />
+            </>
+          )}
+          {onReply && (
+            <ContextMenuItem onSelect={onReply}>
+              <Reply className="h-4 w-4 mr-2" />
+              Reply
+            </ContextMenuItem>
+          )}
+          {message.message && (
+            <ContextMenuItem onSelect={handleCopy}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy text
+            </ContextMenuItem>
+          )}
+          {canEdit && (
+            <ContextMenuItem
+              onSelect={() => {
+                setDraft(message.message);
+                setEditing(true);
+              }}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </ContextMenuItem>
+          )}
+          {message.edited_at && (
+            <ContextMenuItem onSelect={handleShowHistory}>
+              <History className="h-4 w-4 mr-2" />
+              Edit history
+            </ContextMenuItem>
+          )}
+          {canDelete && (
+            <>
+              <ContextMenuSeparator />
+              <ContextMenuItem
+                onSelect={() => setConfirmingDelete(true)}
+                className="text-red-600"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {isModerating ? "Remove message" : "Delete"}
+              </ContextMenuItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+
+      {onReact && (
+        <ReactionPicker
+          open={pickingReaction}
+          onOpenChange={setPickingReaction}
+          onSelect={onReact}
+        />
+      )}
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit message</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="resize-none"
+              maxLength={maxLength}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !draft.trim()}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={history !== null}
+        onOpenChange={(open) => !open && setHistory(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit history</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            <div>
+              <p className="text-xs text-gray-500">
+                Current • {formatChatTime(message.edited_at || message.created_at)}
+              </p>
+              <p className="text-sm">{message.message}</p>
+            </div>
+            {history?.map((edit) => (
+              <div key={edit.id}>
+                <p className="text-xs text-gray-500">
+                  Before {formatChatTime(edit.edited_at)}
+                </p>
+                <p className="text-sm text-gray-600">{edit.previous_message}</p>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {isModerating ? "Remove this message?" : "Delete this message?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in the chat will see that a message was{" "}
+              {isModerating ? "removed" : "deleted"}. Its text, attachments and
+              edit history are gone for good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep it</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {isModerating ? "Remove" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default MessageActionsMenu;
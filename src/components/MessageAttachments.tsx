@@ -0,0 +1,85 @@
+import React from "react";
+import { FileText } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  formatFileSize,
+  getAttachmentUrl,
+  getMessageAttachments,
+  isImageType,
+} from "@/utils/attachments";
+
+interface MessageAttachmentsProps {
+  attachments: Json | undefined;
+  uploading?: number;
+}
+
+// Images show their thumbnail and open full size in a new tab; other files are a download chip
+const MessageAttachments = ({
+  attachments,
+  uploading,
+}: MessageAttachmentsProps) => {
+  const items = getMessageAttachments(attachments);
+
+  if (uploading) {
+    return (
+      <p className="text-xs italic text-white/80 mb-1">
+        Uploading {uploading} attachment{uploading === 1 ? "" : "s"}...
+      </p>
+    );
+  }
+
+  if (items.length === 0) return null;
+
+  return (
+    <div
+      className={`grid gap-1 mb-1 ${
+        items.length > 1 ? "grid-cols-2" : "grid-cols-1"
+      }`}
+    >
+      {items.map((attachment) => {
+        const url = getAttachmentUrl(attachment.path);
+
+        return isImageType(attachment.mime_type) ? (
+          <a
+            key={attachment.path}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block overflow-hidden rounded-lg border border-blue-200"
+          >
+            <img
+              src={getAttachmentUrl(
+                attachment.thumbnail_path || attachment.path
+              )}
+              alt={attachment.name}
+              width={attachment.width || undefined}
+              height={attachment.height || undefined}
+              loading="lazy"
+              className="w-full max-h-60 object-cover"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.path}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-2 rounded-lg border border-blue-200 bg-white/10 px-3 py-2 hover:bg-white/20"
+          >
+            <FileText className="h-5 w-5 shrink-0 text-white" />
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-white truncate">
+                {attachment.name}
+              </p>
+              <p className="text-[10px] text-white/70">
+                {formatFileSize(attachment.size)}
+              </p>
+            </div>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,78 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ReactionSummary } from "@/hooks/useMessageReactions";
+import { REACTION_EMOJIS } from "@/utils/emojis";
+
+interface MessageReactionsProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+  // Line up with the bubble: right for your own messages
+  alignEnd?: boolean;
+}
+
+// Reaction chips under a bubble; tapping one adds or takes back your own
+export const MessageReactions = ({
+  reactions,
+  onToggle,
+  alignEnd,
+}: MessageReactionsProps) => {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${alignEnd ? "justify-end" : ""}`}>
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          onClick={() => onToggle(reaction.emoji)}
+          aria-pressed={reaction.reactedByMe}
+          className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+            reaction.reactedByMe
+              ? "border-sky-300 bg-sky-500/30 text-white"
+              : "border-blue-200 bg-white/10 text-white hover:bg-white/20"
+          }`}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface ReactionPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (emoji: string) => void;
+}
+
+// Full reaction set: the quick acknowledgements followed by the profile emoji set
+export const ReactionPicker = ({ open, onOpenChange, onSelect }: ReactionPickerProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>React to message</DialogTitle>
+      </DialogHeader>
+      <div className="flex flex-wrap gap-1">
+        {REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => {
+              onSelect(emoji);
+              onOpenChange(false);
+            }}
+            className="text-2xl p-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 transition-all"
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,210 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Reply, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  fetchAuthor,
+  fetchQuotedMessage,
+  getCachedAuthor,
+  getMessageSnippet,
+  onQuotedMessageChange,
+  type ChatMessage,
+  type MessageAuthor,
+  type MessageRow,
+} from "@/utils/chatMessages";
+
+// How far a bubble has to be dragged before letting go starts a reply
+const SWIPE_REPLY_PX = 60;
+const MAX_SWIPE_PX = 80;
+
+const getAuthorName = (
+  message: Pick<MessageRow, "user_id">,
+  author: MessageAuthor | null,
+  currentUserId: string | undefined
+) =>
+  message.user_id === currentUserId
+    ? "You"
+    : author?.full_name || author?.username || "Anonymous";
+
+// Resolves a quoted message from what's loaded, falling back to a one-off fetch
+const useQuotedMessage = (messageId: string, messages: ChatMessage[]) => {
+  const loaded = messages.find((m) => m.id === messageId) ?? null;
+  const [fetched, setFetched] = useState<MessageRow | null>(null);
+  const [author, setAuthor] = useState<MessageAuthor | null>(null);
+  const quoted: MessageRow | null = loaded ?? fetched;
+  const userId = quoted?.user_id;
+
+  useEffect(() => {
+    if (loaded) return;
+
+    let cancelled = false;
+    fetchQuotedMessage(messageId).then((row) => {
+      if (!cancelled) setFetched(row);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, loaded]);
+
+  useEffect(
+    () =>
+      onQuotedMessageChange((changedId, row) => {
+        if (changedId === messageId) setFetched(row);
+      }),
+    [messageId]
+  );
+
+  useEffect(() => {
+    if (!userId || loaded?.profiles) return;
+
+    let cancelled = false;
+    const cached = getCachedAuthor(userId);
+    if (cached) {
+      setAuthor(cached);
+      return;
+    }
+    fetchAuthor(userId).then((profile) => {
+      if (!cancelled) setAuthor(profile);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, loaded?.profiles]);
+
+  return { quoted, author: loaded?.profiles ?? author };
+};
+
+interface QuotedMessageProps {
+  messageId: string;
+  messages: ChatMessage[];
+  currentUserId: string | undefined;
+  onJump: (messageId: string) => void;
+}
+
+// Quote of the replied-to message inside a bubble; tapping it scrolls to the original
+export const QuotedMessage = ({
+  messageId,
+  messages,
+  currentUserId,
+  onJump,
+}: QuotedMessageProps) => {
+  const { quoted, author } = useQuotedMessage(messageId, messages);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onJump(messageId)}
+      className="block w-full text-left mb-1 rounded-md border-l-2 border-sky-300 bg-black/20 px-2 py-1 hover:bg-black/30 transition-colors"
+    >
+      {quoted ? (
+        <>
+          <p className="text-[11px] font-medium text-sky-200 capitalize">
+            {getAuthorName(quoted, author, currentUserId)}
+          </p>
+          <p className="text-xs text-white/80 line-clamp-2">
+            {getMessageSnippet(quoted)}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs italic text-white/70">Original message unavailable</p>
+      )}
+    </button>
+  );
+};
+
+interface ReplyingToProps {
+  message: ChatMessage;
+  currentUserId: string | undefined;
+  onCancel: () => void;
+}
+
+// Shown above the chat input while composing a reply
+export const ReplyingTo = ({ message, currentUserId, onCancel }: ReplyingToProps) => (
+  <div className="flex items-center gap-2 mb-2 rounded-lg border-l-2 border-sky-300 bg-black/20 px-3 py-2">
+    <Reply className="h-4 w-4 shrink-0 text-sky-200" />
+    <div className="flex-1 min-w-0">
+      <p className="text-[11px] font-medium text-sky-200 capitalize">
+        Replying to {getAuthorName(message, message.profiles, currentUserId)}
+      </p>
+      <p className="text-xs text-white/80 truncate">{getMessageSnippet(message)}</p>
+    </div>
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={onCancel}
+      className="h-7 w-7 p-0 text-white"
+      aria-label="Cancel reply"
+    >
+      <X className="h-4 w-4" />
+    </Button>
+  </div>
+);
+
+interface SwipeToReplyProps {
+  onReply: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+// Drag a bubble to the right on touch screens to reply to it
+export const SwipeToReply = ({ onReply, disabled, children }: SwipeToReplyProps) => {
+  const [offset, setOffset] = useState(0);
+  const start = useRef<{ x: number; y: number } | null>(null);
+  const horizontal = useRef(false);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (disabled) return;
+    const touch = e.touches[0];
+    start.current = { x: touch.clientX, y: touch.clientY };
+    horizontal.current = false;
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    if (!start.current) return;
+    const touch = e.touches[0];
+    const dx = touch.clientX - start.current.x;
+    const dy = touch.clientY - start.current.y;
+
+    // Leave vertical scrolling alone
+    if (!horizontal.current) {
+      if (Math.abs(dy) > Math.abs(dx)) {
+        start.current = null;
+        return;
+      }
+      horizontal.current = Math.abs(dx) > 8;
+    }
+    if (horizontal.current) setOffset(Math.min(MAX_SWIPE_PX, Math.max(0, dx)));
+  };
+
+  const handleTouchEnd = () => {
+    if (offset >= SWIPE_REPLY_PX) onReply();
+    start.current = null;
+    horizontal.current = false;
+    setOffset(0);
+  };
+
+  return (
+    <div
+      className="relative max-w-[80%]"
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      {offset > 0 && (
+        <Reply
+          className="absolute left-0 top-1/2 -translate-y-1/2 h-4 w-4 text-white"
+          style={{ opacity: offset / SWIPE_REPLY_PX }}
+        />
+      )}
+      <div
+        style={{
+          transform: `translateX(${offset}px)`,
+          transition: offset === 0 ? "transform 150ms ease-out" : undefined,
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
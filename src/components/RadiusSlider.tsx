@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from "react";
+import { Radar } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import {
+  formatRadius,
+  MAX_SEARCH_RADIUS_KM,
+  MIN_SEARCH_RADIUS_KM,
+} from "@/utils/searchRadius";
+
+interface RadiusSliderProps {
+  className?: string;
+}
+
+const RadiusSlider = ({ className }: RadiusSliderProps) => {
+  const { searchRadiusKm, updateSearchRadius } = useAuth();
+  const [value, setValue] = useState(searchRadiusKm);
+
+  // Follow the saved preference once it loads from the profile
+  useEffect(() => {
+    setValue(searchRadiusKm);
+  }, [searchRadiusKm]);
+
+  // Only persist when the user lets go, not on every drag step
+  const handleCommit = async ([radius]: number[]) => {
+    const { error } = await updateSearchRadius(radius);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your search radius",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center text-sm font-medium">
+          <Radar className="mr-2 h-4 w-4 text-blue-600" />
+          Search radius
+        </div>
+        <span className="text-sm font-semibold text-blue-600">
+          {formatRadius(value)}
+        </span>
+      </div>
+      <Slider
+        min={MIN_SEARCH_RADIUS_KM}
+        max={MAX_SEARCH_RADIUS_KM}
+        step={1}
+        value={[value]}
+        onValueChange={([radius]) => setValue(radius)}
+        onValueCommit={handleCommit}
+      />
+      <div className="flex justify-between mt-2 text-xs opacity-70">
+        <span>{formatRadius(MIN_SEARCH_RADIUS_KM)}</span>
+        <span>{formatRadius(MAX_SEARCH_RADIUS_KM)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default RadiusSlider;
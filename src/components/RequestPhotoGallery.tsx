@@ -0,0 +1,94 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { getRequestMediaUrl, type RequestMedia } from "@/utils/requestMedia";
+
+interface RequestPhotoGalleryProps {
+  media: RequestMedia[];
+}
+
+// Thumbnail strip; tapping one opens the full-size photos in a lightbox
+const RequestPhotoGallery = ({ media }: RequestPhotoGalleryProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (media.length === 0) return null;
+
+  const current = openIndex !== null ? media[openIndex] : null;
+
+  const step = (delta: number) =>
+    setOpenIndex((index) =>
+      index === null ? null : (index + delta + media.length) % media.length
+    );
+
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto mt-3">
+        {media.map((photo, index) => (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="h-20 w-20 shrink-0 overflow-hidden rounded-lg border border-blue-200"
+          >
+            <img
+              src={getRequestMediaUrl(photo.thumbnail_path || photo.storage_path)}
+              alt={`Request photo ${index + 1}`}
+              loading="lazy"
+              className="h-full w-full object-cover"
+            />
+          </button>
+        ))}
+      </div>
+
+      <Dialog
+        open={current !== null}
+        onOpenChange={(open) => !open && setOpenIndex(null)}
+      >
+        <DialogContent className="max-w-3xl p-2 bg-black/90 border-blue-200">
+          <DialogTitle className="sr-only">Request photos</DialogTitle>
+          {current && (
+            <div className="relative flex items-center justify-center">
+              <img
+                src={getRequestMediaUrl(current.storage_path)}
+                alt={`Request photo ${openIndex + 1}`}
+                width={current.width || undefined}
+                height={current.height || undefined}
+                className="max-h-[80vh] w-auto object-contain rounded"
+              />
+              {media.length > 1 && (
+                <>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => step(-1)}
+                    className="absolute left-1 rounded-full bg-black/50 text-white hover:bg-black/70"
+                    aria-label="Previous photo"
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => step(1)}
+                    className="absolute right-1 rounded-full bg-black/50 text-white hover:bg-black/70"
+                    aria-label="Next photo"
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </Button>
+                  <span className="absolute bottom-2 text-xs text-white bg-black/50 rounded-full px-2 py-0.5">
+                    {openIndex + 1} / {media.length}
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RequestPhotoGallery;
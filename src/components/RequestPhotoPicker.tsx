@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { ImagePlus, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  ALLOWED_REQUEST_PHOTO_TYPES,
+  MAX_REQUEST_PHOTOS,
+  validateRequestPhoto,
+} from "@/utils/requestMedia";
+
+interface RequestPhotoPickerProps {
+  photos: File[];
+  onChange: (photos: File[]) => void;
+  disabled?: boolean;
+}
+
+// Photos are only uploaded once the request is created
+const RequestPhotoPicker = ({
+  photos,
+  onChange,
+  disabled,
+}: RequestPhotoPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previews = useMemo(
+    () => photos.map((photo) => URL.createObjectURL(photo)),
+    [photos]
+  );
+
+  useEffect(
+    () => () => previews.forEach((url) => URL.revokeObjectURL(url)),
+    [previews]
+  );
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const accepted: File[] = [];
+    selected.forEach((file) => {
+      const error = validateRequestPhoto(file);
+      if (error) {
+        toast({ title: "Can't add photo", description: error, variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    const next = [...photos, ...accepted];
+    if (next.length > MAX_REQUEST_PHOTOS) {
+      toast({
+        title: "Too many photos",
+        description: `You can add up to ${MAX_REQUEST_PHOTOS} photos to a request`,
+        variant: "destructive",
+      });
+    }
+    onChange(next.slice(0, MAX_REQUEST_PHOTOS));
+  };
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      {photos.map((photo, index) => (
+        <div
+          key={`${photo.name}-${index}`}
+          className="relative h-20 w-20 shrink-0 rounded-lg border border-blue-200 overflow-hidden"
+        >
+          <img
+            src={previews[index]}
+            alt={photo.name}
+            className="h-full w-full object-cover"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(photos.filter((_, i) => i !== index))}
+            className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5"
+            aria-label={`Remove ${photo.name}`}
+          >
+            <X className="h-3 w-3 text-white" />
+          </button>
+        </div>
+      ))}
+      {photos.length < MAX_REQUEST_PHOTOS && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ALLOWED_REQUEST_PHOTO_TYPES.join(",")}
+            className="hidden"
+            onChange={handleSelect}
+          />
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => inputRef.current?.click()}
+            className="h-20 w-20 shrink-0 rounded-lg border border-dashed border-blue-200 bg-white/10 flex flex-col items-center justify-center text-white hover:bg-white/20 disabled:opacity-50"
+          >
+            <ImagePlus className="h-5 w-5" />
+            <span className="text-[10px] mt-1">
+              {photos.length}/{MAX_REQUEST_PHOTOS}
+            </span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RequestPhotoPicker;
@@ -0,0 +1,106 @@
+import React from "react";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { usePresence } from "@/hooks/usePresence";
+import { toast } from "@/hooks/use-toast";
+import {
+  getUserStatusDotColor,
+  getUserStatusLabel,
+  IDLE_TIMEOUT_MINUTES,
+  type StatusOverride,
+} from "@/utils/userStatus";
+
+const STATUS_CHOICES: {
+  value: StatusOverride;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: null,
+    label: "Automatic",
+    description: `Online, or away after ${IDLE_TIMEOUT_MINUTES} min idle`,
+  },
+  {
+    value: "away",
+    label: "Away",
+    description: "Shown as away until you change it",
+  },
+  {
+    value: "do_not_disturb",
+    label: "Do not disturb",
+    description: "Not available to help right now",
+  },
+];
+
+interface StatusSelectorProps {
+  className?: string;
+}
+
+const StatusSelector = ({ className }: StatusSelectorProps) => {
+  const { myStatus, statusOverride, setStatusOverride } = usePresence();
+
+  const handleSelect = async (status: StatusOverride) => {
+    const { error } = await setStatusOverride(status);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update your status",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`p-2 space-x-1 ${className || ""}`}
+          title={getUserStatusLabel(myStatus)}
+        >
+          <span
+            className={`w-2.5 h-2.5 rounded-full ${getUserStatusDotColor(
+              myStatus
+            )}`}
+          />
+          <span className="text-xs">{getUserStatusLabel(myStatus)}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Your status</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {STATUS_CHOICES.map((choice) => (
+          <DropdownMenuItem
+            key={choice.label}
+            onSelect={() => handleSelect(choice.value)}
+            className="flex items-start space-x-2"
+          >
+            <span
+              className={`mt-1.5 w-2.5 h-2.5 shrink-0 rounded-full ${getUserStatusDotColor(
+                choice.value ?? "online"
+              )}`}
+            />
+            <div className="flex-1">
+              <p className="text-sm font-medium">{choice.label}</p>
+              <p className="text-xs text-gray-500">{choice.description}</p>
+            </div>
+            {statusOverride === choice.value && (
+              <Check className="h-4 w-4 mt-1" />
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default StatusSelector;
@@ -12,6 +12,7 @@ import {
   Linkedin,
   Twitter,
   ExternalLink,
+  MessageSquare,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,7 +24,15 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import {
+  getUserStatusDotColor,
+  getUserStatusLabel,
+  type UserStatus,
+} from "@/utils/userStatus";
 
 interface UserProfile {
   id: string;
@@ -45,6 +54,8 @@ interface UserProfileModalProps {
   userId: string;
   userName: string;
   isOnline: boolean;
+  // Away / do-not-disturb detail from presence; falls back to isOnline
+  status?: UserStatus;
   distance?: number;
   children: React.ReactNode;
 }
@@ -53,12 +64,17 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
   userId,
   userName,
   isOnline,
+  status,
   distance,
   children,
 }) => {
+  const userStatus: UserStatus = status ?? (isOnline ? "online" : "offline");
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
+  const [startingConversation, setStartingConversation] = useState(false);
+  const navigate = useNavigate();
+  const { user } = useAuth();
 
   const fetchProfile = async () => {
     if (!userId || !open) return;
@@ -67,7 +83,9 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
     try {
       const { data, error } = await supabase
         .from("profiles")
-        .select("*")
+        .select(
+          "id, full_name, username, age, gender, status, last_seen, social_links, avatar_emoji"
+        )
         .eq("id", userId)
         .single();
 
@@ -76,7 +94,29 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
         return;
       }
 
-      setProfile(data);
+      // Only shared when they show their exact location
+      const { data: locationName, error: locationError } = await supabase.rpc(
+        "get_profile_location_name",
+        { profile_id: userId }
+      );
+
+      if (locationError) {
+        console.error("Error fetching profile location:", locationError);
+      }
+
+      // Phone and addresses are private; the owner sees their own
+      let contact = { phone: null, home_address: null, current_address: null };
+      if (userId === user?.id) {
+        const { data: own, error: contactError } = await supabase
+          .rpc("get_own_contact_details")
+          .maybeSingle();
+        if (contactError) {
+          console.error("Error fetching contact details:", contactError);
+        }
+        if (own) contact = own;
+      }
+
+      setProfile({ ...data, ...contact, location_name: locationName ?? null });
     } catch (error) {
       console.error("Error fetching profile:", error);
     } finally {
@@ -90,6 +130,31 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
     }
   }, [open, userId]);
 
+  const handleMessage = async () => {
+    setStartingConversation(true);
+    try {
+      const { data, error } = await supabase.rpc(
+        "get_or_create_direct_conversation",
+        { other_user_id: userId }
+      );
+
+      if (error) {
+        console.error("Error starting conversation:", error);
+        toast({
+          title: "Error",
+          description: error.message || "Failed to start a conversation",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setOpen(false);
+      navigate(`/messages/${data}`);
+    } finally {
+      setStartingConversation(false);
+    }
+  };
+
   const formatLastSeen = (lastSeen: string | null) => {
     if (!lastSeen) return "Unknown";
     const date = new Date(lastSeen);
@@ -136,7 +201,7 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
                     ) : (
                       <div
                         className={`w-4 h-4 rounded-full ${
-                          isOnline ? "bg-green-500" : "bg-gray-400"
+                          getUserStatusDotColor(userStatus)
                         }`}
                       ></div>
                     )}
@@ -150,10 +215,10 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
 
                   <div className="flex justify-center space-x-2 mb-4">
                     <Badge
-                      className={`${isOnline ? "bg-green-600" : "bg-gray-400"}`}
+                      className={getUserStatusDotColor(userStatus)}
                       variant={isOnline ? "default" : "secondary"}
                     >
-                      {isOnline ? "Online" : "Offline"}
+                      {getUserStatusLabel(userStatus)}
                     </Badge>
                     {distance !== undefined && (
                       <Badge variant="outline">
@@ -170,6 +235,18 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({
                       Last seen: {formatLastSeen(profile?.last_seen)}
                     </p>
                   )}
+
+                  {user && user.id !== userId && (
+                    <Button
+                      size="sm"
+                      className="mt-4 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+                      disabled={startingConversation}
+                      onClick={handleMessage}
+                    >
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      {startingConversation ? "Opening..." : "Message"}
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -1,15 +1,19 @@
 
 import { createContext, useContext, useEffect, useState } from "react";
-import { User, Session } from "@supabase/supabase-js";
+import { User, Session, PostgrestError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { reverseGeocode } from "@/utils/geocoding";
+import { clampRadius, DEFAULT_SEARCH_RADIUS_KM } from "@/utils/searchRadius";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   userLocation: { lat: number; lng: number; name: string } | null;
-  nearbyUsersCount: number;
+  searchRadiusKm: number;
+  updateSearchRadius: (
+    radiusKm: number
+  ) => Promise<{ error: PostgrestError | null }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (
     email: string,
@@ -19,17 +23,6 @@ interface AuthContextType {
   signOut: () => Promise<void>;
 }
 
-interface NearbyUser {
-  user_id: string;
-  full_name: string;
-  username: string;
-  location_name: string;
-  lat: number;
-  lng: number;
-  distance_km: number;
-  is_online: boolean;
-}
-
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -41,7 +34,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     lng: number;
     name: string;
   } | null>(null);
-  const [nearbyUsersCount, setNearbyUsersCount] = useState(0);
+  const [searchRadiusKm, setSearchRadiusKm] = useState(
+    DEFAULT_SEARCH_RADIUS_KM
+  );
 
   // Get user's current location with Google geocoding
   const getCurrentLocation = (): Promise<{
@@ -100,34 +95,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
   };
 
-  // Set user online status
-  const setUserOnline = async () => {
-    if (!user || !userLocation) {
-      console.log("Cannot set user online: missing user or location");
-      return;
-    }
-
-    console.log("Setting user online:", user.id);
-
-    try {
-      const { error } = await supabase
-        .from("profiles")
-        .update({
-          status: "online",
-          last_seen: new Date().toISOString(),
-        })
-        .eq("id", user.id);
-
-      if (error) {
-        console.error("Error setting user online:", error);
-      } else {
-        console.log("User set to online successfully");
-      }
-    } catch (error) {
-      console.error("Error in setUserOnline:", error);
-    }
-  };
-
   // Update user location and status in database
   const updateUserLocationAndStatus = async (
     lat: number,
@@ -184,48 +151,42 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  // Get nearby users count
-  const fetchNearbyUsers = async () => {
-    if (!userLocation || !user) {
-      console.log(
-        "Missing requirements for nearby users - userLocation:",
-        !!userLocation,
-        "user:",
-        !!user
-      );
+  // Load the user's saved search radius preference
+  const fetchSearchRadius = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("search_radius_km")
+      .eq("id", user.id)
+      .single();
+
+    if (error) {
+      console.error("Error fetching search radius:", error);
       return;
     }
 
-    try {
-      console.log("Fetching nearby users at:", userLocation);
-
-      const { data, error } = await supabase.rpc("get_nearby_users" as any, {
-        user_lat: userLocation.lat,
-        user_lng: userLocation.lng,
-        radius_km: 10.0,
-      });
+    if (data?.search_radius_km) {
+      setSearchRadiusKm(clampRadius(data.search_radius_km));
+    }
+  };
 
-      if (error) {
-        console.error("Error getting nearby users:", error);
-        return;
-      }
+  // Persist a new search radius; every get_nearby_* call picks it up
+  const updateSearchRadius = async (radiusKm: number) => {
+    const radius = clampRadius(radiusKm);
+    setSearchRadiusKm(radius);
 
-      const nearbyUsers = (data as NearbyUser[]) || [];
-      console.log("Fetched nearby users:", nearbyUsers);
+    if (!user) return { error: null };
 
-      const onlineCount = nearbyUsers.filter((u) => u.is_online).length;
-      console.log(
-        "Online users count:",
-        onlineCount,
-        "out of",
-        nearbyUsers.length,
-        "total"
-      );
+    const { error } = await supabase
+      .from("profiles")
+      .update({ search_radius_km: radius })
+      .eq("id", user.id);
 
-      setNearbyUsersCount(onlineCount);
-    } catch (error) {
-      console.error("Error in fetchNearbyUsers:", error);
+    if (error) {
+      console.error("Error saving search radius:", error);
     }
+    return { error };
   };
 
   // Initialize user location when user is authenticated
@@ -245,12 +206,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Set location immediately
       setUserLocation(location);
 
-      // Update location in database and set status to online
+      // Status (online/away/do-not-disturb) is written by PresenceProvider
       await updateUserLocationAndStatus(
         location.lat,
         location.lng,
-        location.name,
-        true
+        location.name
       );
     } catch (error) {
       console.error("Error initializing location:", error);
@@ -279,7 +239,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       if (!session?.user) {
         setUserLocation(null);
-        setNearbyUsersCount(0);
+        setSearchRadiusKm(DEFAULT_SEARCH_RADIUS_KM);
       }
     });
 
@@ -300,35 +260,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log("User available, initializing location");
       initializeUserLocation();
     }
+    if (user) {
+      fetchSearchRadius();
+    }
   }, [user]);
 
-  // Keep user online and fetch nearby users periodically
-  useEffect(() => {
-    if (!user || !userLocation) return;
-
-    console.log("Starting periodic updates for user:", user.email);
-
-    const updateInterval = setInterval(async () => {
-      console.log(
-        "Periodic update - keeping user online and fetching nearby users"
-      );
-
-      // Keep user online
-      await setUserOnline();
-
-      // Fetch nearby users
-      await fetchNearbyUsers();
-    }, 10000); // Every 10 seconds
-
-    // Also fetch nearby users immediately when location is available
-    fetchNearbyUsers();
-
-    return () => {
-      console.log("Clearing periodic updates");
-      clearInterval(updateInterval);
-    };
-  }, [user, userLocation]);
-
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -384,7 +320,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         session,
         loading,
         userLocation,
-        nearbyUsersCount,
+        searchRadiusKm,
+        updateSearchRadius,
         signIn,
         signUp,
         signOut,
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+
+export type ConversationSummary =
+  Database['public']['Functions']['get_my_conversations']['Returns'][number];
+
+export function useConversations() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchConversations = useCallback(async () => {
+    if (!user) {
+      setConversations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_my_conversations');
+
+      if (error) {
+        console.error('Error fetching conversations:', error);
+        return;
+      }
+
+      setConversations(data || []);
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Find or create the thread with another user and return its id
+  const startConversation = async (otherUserId: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const { data, error } = await supabase.rpc('get_or_create_direct_conversation', {
+      other_user_id: otherUserId,
+    });
+
+    if (error) {
+      console.error('Error starting conversation:', error);
+      return { error: error.message };
+    }
+
+    return { data };
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchConversations();
+
+    // RLS limits these events to threads the user is part of
+    const channel = supabase
+      .channel(`direct_messages_inbox_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'direct_messages',
+        },
+        () => {
+          fetchConversations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchConversations]);
+
+  const totalUnread = conversations.reduce((sum, c) => sum + (c.unread_count || 0), 0);
+
+  return {
+    conversations,
+    loading,
+    totalUnread,
+    startConversation,
+    refetch: fetchConversations,
+  };
+}
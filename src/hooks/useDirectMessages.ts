@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+
+type DirectMessage = Database['public']['Tables']['direct_messages']['Row'];
+
+interface ConversationPartner {
+  user_id: string;
+  full_name: string | null;
+  username: string | null;
+  avatar_emoji: string | null;
+}
+
+export function useDirectMessages(conversationId: string | null) {
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [partner, setPartner] = useState<ConversationPartner | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchMessages = useCallback(async () => {
+    if (!conversationId) {
+      setMessages([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('direct_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) {
+        console.error('Error fetching direct messages:', error);
+        return;
+      }
+
+      // The newest 100, shown oldest first
+      setMessages((data || []).reverse());
+    } catch (error) {
+      console.error('Error fetching direct messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  const fetchPartner = useCallback(async () => {
+    if (!conversationId || !user) return;
+
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select(`
+        user_id,
+        profiles (
+          full_name,
+          username,
+          avatar_emoji
+        )
+      `)
+      .eq('conversation_id', conversationId)
+      .neq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching conversation partner:', error);
+      return;
+    }
+
+    setPartner(
+      data
+        ? {
+            user_id: data.user_id,
+            full_name: data.profiles?.full_name ?? null,
+            username: data.profiles?.username ?? null,
+            avatar_emoji: data.profiles?.avatar_emoji ?? null,
+          }
+        : null
+    );
+  }, [conversationId, user]);
+
+  // Everything up to now counts as read for the inbox's unread badge
+  const markAsRead = useCallback(async () => {
+    if (!conversationId || !user) return;
+
+    const { error } = await supabase.rpc('mark_conversation_read', {
+      target_conversation_id: conversationId,
+    });
+
+    if (error) {
+      console.error('Error marking conversation as read:', error);
+    }
+  }, [conversationId, user]);
+
+  const sendMessage = async (message: string) => {
+    if (!user || !conversationId) return { error: 'User not authenticated or no conversation selected' };
+
+    try {
+      const { data, error } = await supabase
+        .from('direct_messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_id: user.id,
+          message,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error sending direct message:', error);
+        return { error: error.message };
+      }
+
+      return { data };
+    } catch (error) {
+      console.error('Error sending direct message:', error);
+      return { error: 'Failed to send message' };
+    }
+  };
+
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    setLoading(true);
+    fetchMessages();
+    fetchPartner();
+    markAsRead();
+
+    const channel = supabase
+      .channel(`direct_messages_${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'direct_messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        () => {
+          fetchMessages();
+          markAsRead();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, user, fetchMessages, fetchPartner, markAsRead]);
+
+  return {
+    messages,
+    partner,
+    loading,
+    sendMessage,
+    refetch: fetchMessages,
+  };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { forwardGeocode, supportsAutocomplete, type GeocodeResult } from '@/utils/geocoding';
+
+const SEARCH_DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 3;
+
+// Debounced address autocomplete for location inputs. Providers that don't allow
+// autocomplete (the public Nominatim instance) only search when search() is called.
+export function useGeocodeSearch(query: string, near?: { lat: number; lng: number } | null) {
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [live] = useState(supportsAutocomplete);
+  const requestRef = useRef(0);
+
+  const nearLat = near?.lat;
+  const nearLng = near?.lng;
+
+  const runSearch = useCallback(async (text: string) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+
+    const found = await forwardGeocode(text, {
+      near: nearLat != null && nearLng != null ? { lat: nearLat, lng: nearLng } : null,
+    });
+    if (request === requestRef.current) {
+      setResults(found);
+      setLoading(false);
+    }
+  }, [nearLat, nearLng]);
+
+  useEffect(() => {
+    requestRef.current++;
+    if (!live || query.trim().length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timeout = setTimeout(() => runSearch(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, live, runSearch]);
+
+  const search = useCallback(() => {
+    if (query.trim().length >= MIN_QUERY_LENGTH) runSearch(query);
+  }, [query, runSearch]);
+
+  return { results, loading, live, search };
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+import { HELP_REQUEST_COLUMNS } from '@/utils/locationPrivacy';
+
+type Group = Database['public']['Tables']['groups']['Row'];
+export type GroupRole = Database['public']['Enums']['group_role'];
+
+type GroupMember = Database['public']['Tables']['group_members']['Row'] & {
+  profiles: {
+    full_name: string | null;
+    username: string | null;
+    avatar_emoji: string | null;
+  } | null;
+};
+
+type GroupRequest = Omit<Database['public']['Tables']['help_requests']['Row'], 'location_point' | 'location_name'> & {
+  profiles: {
+    username: string | null;
+    full_name: string | null;
+  } | null;
+};
+
+// One group with its members and request feed. Members and requests only load for members.
+export function useGroup(groupId: string | null) {
+  const [group, setGroup] = useState<Group | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [requests, setRequests] = useState<GroupRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchGroup = useCallback(async () => {
+    if (!groupId) {
+      setGroup(null);
+      setMembers([]);
+      setRequests([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('groups')
+        .select('*')
+        .eq('id', groupId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching group:', error);
+        return;
+      }
+
+      setGroup(data);
+
+      // RLS returns no rows here for non-members
+      const { data: memberRows, error: membersError } = await supabase
+        .from('group_members')
+        .select(`
+          *,
+          profiles (
+            full_name,
+            username,
+            avatar_emoji
+          )
+        `)
+        .eq('group_id', groupId)
+        .order('joined_at', { ascending: true });
+
+      if (membersError) {
+        console.error('Error fetching group members:', membersError);
+        return;
+      }
+
+      setMembers(memberRows || []);
+
+      const { data: requestRows, error: requestsError } = await supabase
+        .from('help_requests')
+        .select(`
+          ${HELP_REQUEST_COLUMNS},
+          profiles (
+            username,
+            full_name
+          )
+        `)
+        .eq('group_id', groupId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (requestsError) {
+        console.error('Error fetching group requests:', requestsError);
+        return;
+      }
+
+      setRequests(requestRows || []);
+    } catch (error) {
+      console.error('Error fetching group:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  const myRole: GroupRole | null = members.find((m) => m.user_id === user?.id)?.role ?? null;
+
+  const join = async () => {
+    if (!user || !groupId) return { error: 'User not authenticated or no group selected' };
+
+    const { data, error } = await supabase.rpc('join_group', { target_group_id: groupId });
+
+    if (error) {
+      console.error('Error joining group:', error);
+      return { error: error.message };
+    }
+
+    fetchGroup();
+    return { data };
+  };
+
+  const leave = async () => {
+    if (!user || !groupId) return { error: 'User not authenticated or no group selected' };
+
+    const { error } = await supabase.rpc('leave_group', { target_group_id: groupId });
+
+    if (error) {
+      console.error('Error leaving group:', error);
+      return { error: error.message };
+    }
+
+    fetchGroup();
+    return {};
+  };
+
+  // Admins only; the database keeps at least one admin
+  const setMemberRole = async (memberId: string, role: GroupRole) => {
+    if (!user || !groupId) return { error: 'User not authenticated or no group selected' };
+
+    const { data, error } = await supabase.rpc('set_group_member_role', {
+      target_group_id: groupId,
+      member_id: memberId,
+      new_role: role,
+    });
+
+    if (error) {
+      console.error('Error changing member role:', error);
+      return { error: error.message };
+    }
+
+    fetchGroup();
+    return { data };
+  };
+
+  const removeMember = async (memberId: string) => {
+    if (!user || !groupId) return { error: 'User not authenticated or no group selected' };
+
+    const { error } = await supabase.rpc('remove_group_member', {
+      target_group_id: groupId,
+      member_id: memberId,
+    });
+
+    if (error) {
+      console.error('Error removing member:', error);
+      return { error: error.message };
+    }
+
+    fetchGroup();
+    return {};
+  };
+
+  useEffect(() => {
+    if (!groupId || !user) return;
+
+    setLoading(true);
+    fetchGroup();
+
+    const channel = supabase
+      .channel(`group_${groupId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'group_members',
+          filter: `group_id=eq.${groupId}`
+        },
+        () => {
+          fetchGroup();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'help_requests',
+          filter: `group_id=eq.${groupId}`
+        },
+        () => {
+          fetchGroup();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, user, fetchGroup]);
+
+  return {
+    group,
+    members,
+    requests,
+    loading,
+    myRole,
+    isMember: myRole !== null,
+    isAdmin: myRole === 'admin',
+    join,
+    leave,
+    setMemberRole,
+    removeMember,
+    refetch: fetchGroup,
+  };
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+import { removeMessage, upsertMessage } from '@/utils/chatMessages';
+
+type GroupMessageRow = Database['public']['Tables']['group_messages']['Row'];
+
+interface GroupMessageAuthor {
+  full_name: string | null;
+  username: string | null;
+  avatar_emoji: string | null;
+}
+
+type GroupMessage = GroupMessageRow & {
+  profiles: GroupMessageAuthor | null;
+};
+
+// Members-only group chat; RLS returns nothing to non-members
+export function useGroupMessages(groupId: string | null, enabled = true) {
+  const [messages, setMessages] = useState<GroupMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  // Authors seen in this group, so most new messages don't need a lookup
+  const authorsRef = useRef(new Map<string, GroupMessageAuthor>());
+
+  const fetchMessages = useCallback(async () => {
+    if (!groupId) {
+      setMessages([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('group_messages')
+        .select(`
+          *,
+          profiles (
+            full_name,
+            username,
+            avatar_emoji
+          )
+        `)
+        .eq('group_id', groupId)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) {
+        console.error('Error fetching group messages:', error);
+        return;
+      }
+
+      (data || []).forEach((m) => {
+        if (m.profiles) authorsRef.current.set(m.user_id, m.profiles);
+      });
+      setMessages((data || []).reverse());
+    } catch (error) {
+      console.error('Error fetching group messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  const fetchAuthor = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('full_name, username, avatar_emoji')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error fetching message author:', error);
+      return;
+    }
+
+    authorsRef.current.set(userId, data);
+    setMessages((current) =>
+      current.map((m) => (m.user_id === userId && !m.profiles ? { ...m, profiles: data } : m))
+    );
+  }, []);
+
+  // Realtime rows are applied one by one instead of reloading the whole page
+  const applyChange = useCallback((payload: RealtimePostgresChangesPayload<GroupMessageRow>) => {
+    if (payload.eventType === 'DELETE') {
+      // Deletes can't be filtered server-side, so this sees every group's deletes
+      if (payload.old.id) setMessages((current) => removeMessage(current, payload.old.id));
+      return;
+    }
+
+    if (payload.eventType !== 'INSERT') return;
+    const row = payload.new;
+    const author = authorsRef.current.get(row.user_id) ?? null;
+    setMessages((current) => upsertMessage(current, { ...row, profiles: author }));
+
+    if (!author) fetchAuthor(row.user_id);
+  }, [fetchAuthor]);
+
+  const sendMessage = async (message: string) => {
+    if (!user || !groupId) return { error: 'User not authenticated or no group selected' };
+
+    try {
+      const { data, error } = await supabase
+        .from('group_messages')
+        .insert({
+          group_id: groupId,
+          user_id: user.id,
+          message,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error sending group message:', error);
+        return { error: error.message };
+      }
+
+      return { data };
+    } catch (error) {
+      console.error('Error sending group message:', error);
+      return { error: 'Failed to send message' };
+    }
+  };
+
+  useEffect(() => {
+    if (!groupId || !user || !enabled) return;
+
+    setLoading(true);
+    fetchMessages();
+
+    const channel = supabase
+      .channel(`group_messages_${groupId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'group_messages',
+          filter: `group_id=eq.${groupId}`
+        },
+        applyChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'group_messages'
+        },
+        applyChange
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, user, enabled, fetchMessages, applyChange]);
+
+  return {
+    messages,
+    loading,
+    sendMessage,
+    refetch: fetchMessages,
+  };
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+
+export type GroupSummary = Database['public']['Functions']['get_groups']['Returns'][number];
+
+// Groups to browse: the user's own first, then the closest ones
+export function useGroups(search = '') {
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, userLocation } = useAuth();
+
+  const lat = userLocation?.lat;
+  const lng = userLocation?.lng;
+  const query = search.trim();
+
+  const fetchGroups = useCallback(async () => {
+    if (!user) {
+      setGroups([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_groups', {
+        user_lat: lat,
+        user_lng: lng,
+        search: query || undefined,
+      });
+
+      if (error) {
+        console.error('Error fetching groups:', error);
+        return;
+      }
+
+      setGroups(data || []);
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, lat, lng, query]);
+
+  const createGroup = async (group: {
+    name: string;
+    description?: string;
+    avatar_emoji?: string;
+    // Opt-in: pin the group to the area around the creator so it shows up nearby
+    useCurrentLocation?: boolean;
+  }) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const location = group.useCurrentLocation ? userLocation : null;
+    const { data, error } = await supabase.rpc('create_group', {
+      group_name: group.name,
+      group_description: group.description || undefined,
+      group_emoji: group.avatar_emoji || undefined,
+      lat: location?.lat,
+      lng: location?.lng,
+      group_location_name: location?.name || undefined,
+    });
+
+    if (error) {
+      console.error('Error creating group:', error);
+      return { error: error.message };
+    }
+
+    fetchGroups();
+    return { data };
+  };
+
+  const joinGroup = async (groupId: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const { data, error } = await supabase.rpc('join_group', { target_group_id: groupId });
+
+    if (error) {
+      console.error('Error joining group:', error);
+      return { error: error.message };
+    }
+
+    fetchGroups();
+    return { data };
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchGroups();
+
+    // Our own memberships changing (joined elsewhere, removed by an admin) reorders the list
+    const channel = supabase
+      .channel(`group_memberships_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'group_members',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchGroups();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchGroups]);
+
+  return {
+    groups,
+    myGroups: groups.filter((g) => g.my_role !== null),
+    otherGroups: groups.filter((g) => g.my_role === null),
+    loading,
+    createGroup,
+    joinGroup,
+    refetch: fetchGroups,
+  };
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getPaletteBadgeClasses,
+  getPaletteHex,
+  type HelpCategory,
+} from '@/utils/categories';
+
+// Categories rarely change, so every screen shares one fetch per session
+let categoriesPromise: Promise<HelpCategory[]> | null = null;
+
+const loadCategories = () => {
+  if (!categoriesPromise) {
+    categoriesPromise = (async () => {
+      const { data, error } = await supabase
+        .from('help_categories')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching help categories:', error);
+        categoriesPromise = null;
+        return [];
+      }
+
+      return data || [];
+    })();
+  }
+  return categoriesPromise;
+};
+
+export function useHelpCategories() {
+  const [categories, setCategories] = useState<HelpCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadCategories().then((data) => {
+      if (!cancelled) {
+        setCategories(data);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getCategory = (id: string | null | undefined) => {
+    return categories.find((category) => category.id === id) || null;
+  };
+
+  const getSubcategories = (parentId: string) => {
+    return categories.filter((category) => category.parent_id === parentId);
+  };
+
+  // Top-level category for any category id (itself if it has no parent)
+  const getRootCategory = (id: string | null | undefined) => {
+    const category = getCategory(id);
+    return category?.parent_id ? getCategory(category.parent_id) : category;
+  };
+
+  const getCategoryLabel = (id: string | null | undefined) => {
+    const category = getCategory(id);
+    return category ? category.name : id || 'Other';
+  };
+
+  const getCategoryIcon = (id: string | null | undefined) => {
+    return getCategory(id)?.icon || '🤝';
+  };
+
+  const getCategoryColor = (id: string | null | undefined) => {
+    return getPaletteBadgeClasses(getCategory(id)?.color);
+  };
+
+  const getCategoryHex = (id: string | null | undefined) => {
+    return getPaletteHex(getCategory(id)?.color);
+  };
+
+  return {
+    categories,
+    topLevelCategories: categories.filter((category) => !category.parent_id),
+    loading,
+    getCategory,
+    getSubcategories,
+    getRootCategory,
+    getCategoryLabel,
+    getCategoryIcon,
+    getCategoryColor,
+    getCategoryHex,
+  };
+}
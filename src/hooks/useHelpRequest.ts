@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  deleteOwnHelpRequest,
+  renewHelpRequest,
+  setHelpRequestStatus,
+  type HelpRequestStatus,
+} from '@/utils/helpRequestStatus';
+import {
+  offerHelpOnRequest,
+  respondToHelpOffer,
+  withdrawHelpOffer,
+} from '@/utils/helpOffers';
+import type { RequestMedia } from '@/utils/requestMedia';
+import { HELP_REQUEST_COLUMNS } from '@/utils/locationPrivacy';
+
+// The location comes separately, from get_help_request_location
+type HelpRequestDetails = Omit<Database['public']['Tables']['help_requests']['Row'], 'location_point' | 'location_name'> & {
+  profiles: {
+    username: string | null;
+    full_name: string | null;
+  };
+};
+
+type StatusHistoryEntry = Database['public']['Tables']['help_request_status_history']['Row'] & {
+  profiles: {
+    username: string | null;
+    full_name: string | null;
+  } | null;
+};
+
+type HelperOffer = Database['public']['Tables']['help_request_helpers']['Row'] & {
+  profiles: {
+    username: string | null;
+    full_name: string | null;
+    avatar_emoji: string | null;
+  };
+};
+
+type RequestLocation = Database['public']['Functions']['get_help_request_location']['Returns'][number];
+
+type EditHistoryEntry = Database['public']['Tables']['help_request_edits']['Row'] & {
+  profiles: {
+    username: string | null;
+    full_name: string | null;
+  } | null;
+};
+
+export function useHelpRequest(helpRequestId: string | null) {
+  const [helpRequest, setHelpRequest] = useState<HelpRequestDetails | null>(null);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [helpers, setHelpers] = useState<HelperOffer[]>([]);
+  const [editHistory, setEditHistory] = useState<EditHistoryEntry[]>([]);
+  const [location, setLocation] = useState<RequestLocation | null>(null);
+  const [media, setMedia] = useState<RequestMedia[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchHelpRequest = async () => {
+    if (!helpRequestId) {
+      setHelpRequest(null);
+      setStatusHistory([]);
+      setHelpers([]);
+      setEditHistory([]);
+      setLocation(null);
+      setMedia([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('help_requests')
+        .select(`
+          ${HELP_REQUEST_COLUMNS},
+          profiles (
+            username,
+            full_name
+          )
+        `)
+        .eq('id', helpRequestId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching help request:', error);
+        return;
+      }
+
+      setHelpRequest(data);
+
+      const { data: history, error: historyError } = await supabase
+        .from('help_request_status_history')
+        .select(`
+          *,
+          profiles (
+            username,
+            full_name
+          )
+        `)
+        .eq('help_request_id', helpRequestId)
+        .order('created_at', { ascending: true });
+
+      if (historyError) {
+        console.error('Error fetching status history:', historyError);
+        return;
+      }
+
+      setStatusHistory(history || []);
+
+      const { data: offers, error: offersError } = await supabase
+        .from('help_request_helpers')
+        .select(`
+          *,
+          profiles (
+            username,
+            full_name,
+            avatar_emoji
+          )
+        `)
+        .eq('help_request_id', helpRequestId)
+        .order('offered_at', { ascending: true });
+
+      if (offersError) {
+        console.error('Error fetching helpers:', offersError);
+        return;
+      }
+
+      setHelpers(offers || []);
+
+      const { data: edits, error: editsError } = await supabase
+        .from('help_request_edits')
+        .select(`
+          *,
+          profiles (
+            username,
+            full_name
+          )
+        `)
+        .eq('help_request_id', helpRequestId)
+        .order('created_at', { ascending: false });
+
+      if (editsError) {
+        console.error('Error fetching edit history:', editsError);
+        return;
+      }
+
+      setEditHistory(edits || []);
+
+      const { data: photos, error: photosError } = await supabase
+        .from('request_media')
+        .select('*')
+        .eq('help_request_id', helpRequestId)
+        .order('position', { ascending: true });
+
+      if (photosError) {
+        console.error('Error fetching request photos:', photosError);
+        return;
+      }
+
+      setMedia(photos || []);
+
+      // Blurred unless the caller owns the request or is an accepted helper it was shared with
+      const { data: visibleLocation, error: locationError } = await supabase.rpc('get_help_request_location', {
+        request_id: helpRequestId,
+      });
+
+      if (locationError) {
+        console.error('Error fetching request location:', locationError);
+        return;
+      }
+
+      setLocation(visibleLocation?.[0] || null);
+    } catch (error) {
+      console.error('Error fetching help request:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStatus = async (status: HelpRequestStatus, note?: string) => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const result = await setHelpRequestStatus(helpRequestId, status, note);
+    if (!result.error) fetchHelpRequest();
+    return result;
+  };
+
+  const renew = async () => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const result = await renewHelpRequest(helpRequestId);
+    if (!result.error) fetchHelpRequest();
+    return result;
+  };
+
+  // "I can help" - volunteer on this request
+  const offerHelp = async (message?: string) => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const result = await offerHelpOnRequest(helpRequestId, message);
+    if (!result.error) fetchHelpRequest();
+    return result;
+  };
+
+  // Requester accepts or declines a pending offer
+  const respondToOffer = async (offerId: string, accept: boolean) => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const result = await respondToHelpOffer(offerId, accept);
+    if (!result.error) fetchHelpRequest();
+    return result;
+  };
+
+  const acceptHelper = (offerId: string) => respondToOffer(offerId, true);
+
+  const declineHelper = (offerId: string) => respondToOffer(offerId, false);
+
+  const withdrawHelp = async () => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const result = await withdrawHelpOffer(helpRequestId);
+    if (!result.error) fetchHelpRequest();
+    return result;
+  };
+
+  // Owner decides whether accepted helpers get the precise location
+  const shareLocation = async (share: boolean) => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const { data, error } = await supabase
+      .from('help_requests')
+      .update({ precise_location_shared: share })
+      .eq('id', helpRequestId)
+      .eq('user_id', user.id)
+      .select(HELP_REQUEST_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating location sharing:', error);
+      return { error: error.message };
+    }
+
+    fetchHelpRequest();
+    return { data };
+  };
+
+  const deleteRequest = async () => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    const result = await deleteOwnHelpRequest(helpRequestId, user.id);
+    if (!result.error) setHelpRequest(null);
+    return result;
+  };
+
+  useEffect(() => {
+    if (helpRequestId && user) {
+      fetchHelpRequest();
+
+      // Keep status and history in sync for everyone viewing the request
+      const channel = supabase
+        .channel(`help_request_${helpRequestId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'help_requests',
+            filter: `id=eq.${helpRequestId}`
+          },
+          () => {
+            fetchHelpRequest();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'help_request_status_history',
+            filter: `help_request_id=eq.${helpRequestId}`
+          },
+          () => {
+            fetchHelpRequest();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'help_request_edits',
+            filter: `help_request_id=eq.${helpRequestId}`
+          },
+          () => {
+            fetchHelpRequest();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'help_request_helpers',
+            filter: `help_request_id=eq.${helpRequestId}`
+          },
+          () => {
+            fetchHelpRequest();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'request_media',
+            filter: `help_request_id=eq.${helpRequestId}`
+          },
+          () => {
+            fetchHelpRequest();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [helpRequestId, user]);
+
+  const myOffer = helpers.find((h) => h.helper_id === user?.id) || null;
+
+  return {
+    helpRequest,
+    statusHistory,
+    editHistory,
+    location,
+    media,
+    helpers,
+    acceptedHelpers: helpers.filter((h) => h.status === 'accepted'),
+    pendingHelpers: helpers.filter((h) => h.status === 'pending'),
+    myOffer,
+    loading,
+    isOwner: !!user && helpRequest?.user_id === user.id,
+    updateStatus,
+    renew,
+    deleteRequest,
+    offerHelp,
+    acceptHelper,
+    declineHelper,
+    withdrawHelp,
+    shareLocation,
+    refetch: fetchHelpRequest,
+  };
+}
@@ -1,87 +1,175 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import type { Database } from '@/integrations/supabase/types';
+import {
+  ACTIVE_STATUSES,
+  deleteOwnHelpRequest,
+  type HelpRequestStatus,
+} from '@/utils/helpRequestStatus';
+import {
+  cursorOf,
+  HELP_REQUESTS_PAGE_SIZE,
+  olderThanFilter,
+} from '@/utils/pagination';
+import {
+  offerHelpOnRequest,
+  respondToHelpOffer,
+  withdrawHelpOffer,
+} from '@/utils/helpOffers';
+import { reverseGeocode } from '@/utils/geocoding';
+import { attachRequestPhotos } from '@/utils/requestMedia';
+import { HELP_REQUEST_COLUMNS } from '@/utils/locationPrivacy';
 
-type HelpRequest = Database['public']['Tables']['help_requests']['Row'] & {
+// Only nearby results carry a (blurred) location; direct reads can't select it
+type HelpRequest = Omit<Database['public']['Tables']['help_requests']['Row'], 'location_point' | 'location_name'> & {
+  location_name?: string | null;
+  location_point?: unknown;
   profiles: {
     username: string | null;
     full_name: string | null;
   };
   distance_km?: number;
+  accepted_helpers_count?: number;
+  // Thumbnail of the first photo, if the request has any
+  cover_photo_path?: string | null;
+};
+
+// One query for the whole page rather than one per card
+const withCoverPhotos = async (requests: HelpRequest[]): Promise<HelpRequest[]> => {
+  if (requests.length === 0) return requests;
+
+  const { data, error } = await supabase
+    .from('request_media')
+    .select('help_request_id, storage_path, thumbnail_path, position')
+    .in('help_request_id', requests.map((r) => r.id))
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching request photos:', error);
+    return requests;
+  }
+
+  const covers = new Map<string, string>();
+  (data || []).forEach((media) => {
+    if (!covers.has(media.help_request_id)) {
+      covers.set(media.help_request_id, media.thumbnail_path || media.storage_path);
+    }
+  });
+
+  return requests.map((request) => ({
+    ...request,
+    cover_photo_path: covers.get(request.id) ?? null,
+  }));
 };
 
 export function useHelpRequests() {
   const [helpRequests, setHelpRequests] = useState<HelpRequest[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [showAllLocations, setShowAllLocations] = useState(false);
-  const { user, userLocation } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<HelpRequestStatus[]>(ACTIVE_STATUSES);
+  const { user, userLocation, searchRadiusKm } = useAuth();
+  const loadedCount = useRef(0);
+  loadedCount.current = helpRequests.length;
 
-  const fetchHelpRequests = async () => {
-    try {
-      if (!showAllLocations && userLocation) {
-        // Fetch nearby requests using the geographical function
-        const { data, error } = await supabase.rpc('get_nearby_help_requests', {
-          user_lat: userLocation.lat,
-          user_lng: userLocation.lng,
-          radius_km: 10.0
-        });
+  // One page starting after `after`: closest first nearby, otherwise newest first; null on error
+  const fetchPage = async (limit: number, after: HelpRequest | null = null): Promise<HelpRequest[] | null> => {
+    const cursor = cursorOf(after);
+    if (!showAllLocations && userLocation) {
+      // Fetch nearby requests using the geographical function
+      const { data, error } = await supabase.rpc('get_nearby_help_requests', {
+        user_lat: userLocation.lat,
+        user_lng: userLocation.lng,
+        radius_km: searchRadiusKm,
+        statuses: statusFilter,
+        page_size: limit,
+        before_distance_km: after?.distance_km,
+        before_created_at: cursor?.created_at,
+        before_id: cursor?.id,
+      });
 
-        if (error) {
-          console.error('Error fetching nearby help requests:', error);
-          return;
-        }
+      if (error) {
+        console.error('Error fetching nearby help requests:', error);
+        return null;
+      }
 
-        // Transform the data to match our expected format
-        const transformedData = data?.map((request: any) => ({
-          ...request,
-          profiles: {
-            username: null,
-            full_name: null
-          },
-          distance_km: request.distance_km
-        })) || [];
-
-        // Get profile information for each request
-        const requestsWithProfiles = await Promise.all(
-          transformedData.map(async (request) => {
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('username, full_name')
-              .eq('id', request.user_id)
-              .single();
-
-            return {
-              ...request,
-              profiles: profile || { username: null, full_name: null }
-            };
-          })
-        );
-
-        setHelpRequests(requestsWithProfiles);
-      } else {
-        // Fetch all requests (original functionality)
-        const { data, error } = await supabase
-          .from('help_requests')
-          .select(`
-            *,
-            profiles (
-              username,
-              full_name
-            )
-          `)
-          .eq('is_resolved', false)
-          .order('created_at', { ascending: false })
-          .limit(20);
-
-        if (error) {
-          console.error('Error fetching help requests:', error);
-          return;
-        }
+      // Transform the data to match our expected format
+      const transformedData = data?.map((request: any) => ({
+        ...request,
+        profiles: {
+          username: null,
+          full_name: null
+        },
+        distance_km: request.distance_km
+      })) || [];
+
+      // Get profile information for each request
+      const requestsWithProfiles = await Promise.all(
+        transformedData.map(async (request) => {
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('username, full_name')
+            .eq('id', request.user_id)
+            .single();
+
+          return {
+            ...request,
+            profiles: profile || { username: null, full_name: null }
+          };
+        })
+      );
+
+      return requestsWithProfiles;
+    } else {
+      // Fetch all requests (original functionality)
+      let query = supabase
+        .from('help_requests')
+        .select(`
+          ${HELP_REQUEST_COLUMNS},
+          profiles (
+            username,
+            full_name
+          ),
+          help_request_helpers (
+            status
+          )
+        `)
+        .in('status', statusFilter)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (cursor) query = query.or(olderThanFilter(cursor));
+
+      const { data, error } = await query;
 
-        setHelpRequests(data || []);
+      if (error) {
+        console.error('Error fetching help requests:', error);
+        return null;
       }
+
+      return (data || []).map(({ help_request_helpers, ...request }) => ({
+        ...request,
+        accepted_helpers_count: help_request_helpers.filter((h) => h.status === 'accepted').length,
+      }));
+    }
+  };
+
+  // Reload from the top; realtime refreshes keep as many rows as are already shown
+  const fetchHelpRequests = async (reset = false) => {
+    const limit = reset
+      ? HELP_REQUESTS_PAGE_SIZE
+      : Math.max(HELP_REQUESTS_PAGE_SIZE, loadedCount.current);
+
+    try {
+      const page = await fetchPage(limit).then((p) => p && withCoverPhotos(p));
+      if (!page) return;
+
+      setHelpRequests(page);
+      setHasMore(page.length === limit);
     } catch (error) {
       console.error('Error fetching help requests:', error);
     } finally {
@@ -89,11 +177,39 @@ export function useHelpRequests() {
     }
   };
 
+  const loadMore = async () => {
+    if (loadingMore || !hasMore) return;
+
+    const last = helpRequests[helpRequests.length - 1];
+    if (!cursorOf(last)) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(HELP_REQUESTS_PAGE_SIZE, last).then((p) => p && withCoverPhotos(p));
+      if (!page) return;
+
+      setHelpRequests((current) => [
+        ...current,
+        ...page.filter((request) => !current.some((r) => r.id === request.id)),
+      ]);
+      setHasMore(page.length === HELP_REQUESTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more help requests:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const createHelpRequest = async (request: {
-    category: Database['public']['Enums']['help_category'];
+    category: string;
     message: string;
     is_urgent: boolean;
     location_name?: string;
+    // Defaults to the device's current location
+    location?: { lat: number; lng: number };
+    photos?: File[];
+    // Also shows the request in this group's feed; the poster must be a member
+    group_id?: string;
   }) => {
     console.log('Creating help request with data:', request);
     console.log('Current user:', user);
@@ -119,13 +235,23 @@ export function useHelpRequests() {
 
       console.log('User profile found:', profileData);
 
+      const requestPoint = request.location || userLocation;
+      // The device's place name only describes the device's own location
+      const locationName = request.location_name
+        || (request.location
+          ? await reverseGeocode(request.location.lat, request.location.lng)
+          : userLocation?.name)
+        || null;
       const insertData = {
         user_id: user.id,
         category: request.category,
         message: request.message,
         is_urgent: request.is_urgent,
-        location_name: request.location_name || userLocation?.name || null,
-        location_point: userLocation ? `POINT(${userLocation.lng} ${userLocation.lat})` : null,
+        location_name: locationName,
+        location_point: requestPoint ? `POINT(${requestPoint.lng} ${requestPoint.lat})` : null,
+        // Requests reach as far as the requester is currently looking
+        broadcast_radius_km: searchRadiusKm,
+        group_id: request.group_id || null,
       };
 
       console.log('Inserting data:', insertData);
@@ -133,7 +259,7 @@ export function useHelpRequests() {
       const { data, error } = await supabase
         .from('help_requests')
         .insert(insertData)
-        .select()
+        .select(HELP_REQUEST_COLUMNS)
         .single();
 
       if (error) {
@@ -149,22 +275,114 @@ export function useHelpRequests() {
 
       console.log('Help request created successfully:', data);
 
+      // The request stands even if its photos fail; the caller is told separately
+      let mediaError: string | undefined;
+      if (request.photos?.length) {
+        const { error: photosError } = await attachRequestPhotos(request.photos, user.id, data.id);
+        if (photosError) {
+          console.error('Error attaching request photos:', photosError);
+          mediaError = 'Your request was posted, but its photos could not be uploaded.';
+        }
+      }
+
       // Refresh the list
       fetchHelpRequests();
-      return { data };
+      return { data, mediaError };
     } catch (error) {
       console.error('Unexpected error creating help request:', error);
       return { error: 'Failed to create help request. Please try again.' };
     }
   };
 
+  // Owner edits; the database records a diff in help_request_edits
+  const updateHelpRequest = async (helpRequestId: string, changes: {
+    category?: string;
+    message?: string;
+    is_urgent?: boolean;
+    location_name?: string;
+    location?: { lat: number; lng: number };
+  }) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const { location, ...fields } = changes;
+    const updateData: Database['public']['Tables']['help_requests']['Update'] = { ...fields };
+    if (location) {
+      updateData.location_point = `POINT(${location.lng} ${location.lat})`;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('help_requests')
+        .update(updateData)
+        .eq('id', helpRequestId)
+        .eq('user_id', user.id)
+        .select(HELP_REQUEST_COLUMNS)
+        .single();
+
+      if (error) {
+        console.error('Error updating help request:', error);
+        return { error: `Database error: ${error.message}` };
+      }
+
+      fetchHelpRequests();
+      return { data };
+    } catch (error) {
+      console.error('Unexpected error updating help request:', error);
+      return { error: 'Failed to update help request. Please try again.' };
+    }
+  };
+
+  const deleteHelpRequest = async (helpRequestId: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await deleteOwnHelpRequest(helpRequestId, user.id);
+    if (!result.error) {
+      setHelpRequests((prev) => prev.filter((request) => request.id !== helpRequestId));
+      fetchHelpRequests();
+    }
+    return result;
+  };
+
+  // Offer actions from the list; the shown counts refresh with the list
+  const offerHelp = async (helpRequestId: string, message?: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await offerHelpOnRequest(helpRequestId, message);
+    if (!result.error) fetchHelpRequests();
+    return result;
+  };
+
+  const acceptHelper = async (offerId: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await respondToHelpOffer(offerId, true);
+    if (!result.error) fetchHelpRequests();
+    return result;
+  };
+
+  const declineHelper = async (offerId: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await respondToHelpOffer(offerId, false);
+    if (!result.error) fetchHelpRequests();
+    return result;
+  };
+
+  const withdrawHelp = async (helpRequestId: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await withdrawHelpOffer(helpRequestId);
+    if (!result.error) fetchHelpRequests();
+    return result;
+  };
+
   const toggleLocationFilter = () => {
     setShowAllLocations(!showAllLocations);
   };
 
   useEffect(() => {
     if (user) {
-      fetchHelpRequests();
+      fetchHelpRequests(true);
 
       // Set up real-time subscription
       const channel = supabase
@@ -186,14 +404,25 @@ export function useHelpRequests() {
         supabase.removeChannel(channel);
       };
     }
-  }, [user, showAllLocations, userLocation]);
+  }, [user, showAllLocations, userLocation, statusFilter, searchRadiusKm]);
 
   return {
     helpRequests,
     loading,
+    loadingMore,
+    hasMore,
+    loadMore,
     showAllLocations,
+    statusFilter,
+    setStatusFilter,
     createHelpRequest,
+    updateHelpRequest,
+    deleteHelpRequest,
+    offerHelp,
+    acceptHelper,
+    declineHelper,
+    withdrawHelp,
     toggleLocationFilter,
-    refetch: fetchHelpRequests,
+    refetch: () => fetchHelpRequests(),
   };
 }
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+// True while the tab is hidden or there has been no input for `timeoutMinutes`
+export function useIdle(timeoutMinutes: number) {
+  const [isIdle, setIsIdle] = useState(
+    typeof document !== 'undefined' && document.visibilityState === 'hidden'
+  );
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const startTimer = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => setIsIdle(true), timeoutMinutes * 60 * 1000);
+    };
+
+    const handleActivity = () => {
+      if (document.visibilityState === 'hidden') return;
+      setIsIdle(false);
+      startTimer();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        clearTimeout(timeout);
+        setIsIdle(true);
+      } else {
+        handleActivity();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    startTimer();
+
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [timeoutMinutes]);
+
+  return isIdle;
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const HIGHLIGHT_MS = 1500;
+
+export const getMessageElementId = (messageId: string) => `message-${messageId}`;
+
+// Scrolls a chat to a message and briefly highlights it, e.g. when a quote is tapped.
+// Returns false when the message isn't on screen yet (still on an older page).
+export function useJumpToMessage() {
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const jumpToMessage = useCallback((messageId: string) => {
+    const element = document.getElementById(getMessageElementId(messageId));
+    if (!element) return false;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(messageId);
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return true;
+  }, []);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return { highlightedId, jumpToMessage };
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { distanceKm } from '@/utils/distance';
+import {
+  LIVE_LOCATION_MIN_DISTANCE_KM,
+  LIVE_LOCATION_MIN_INTERVAL_MS,
+  type LiveLocation,
+  type LiveLocationDuration,
+} from '@/utils/liveLocation';
+
+const getPosition = () =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location is not available on this device'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: 15000,
+    });
+  });
+
+// Time-limited live location on a request, shared between the requester and accepted helpers.
+// Positions live in user_locations; the database ends shares when they expire or the request closes.
+export function useLiveLocation(helpRequestId: string | null) {
+  const [locations, setLocations] = useState<LiveLocation[]>([]);
+  const [starting, setStarting] = useState(false);
+  const { user } = useAuth();
+  const lastSent = useRef<{ lat: number; lng: number; at: number } | null>(null);
+
+  const fetchLocations = useCallback(async () => {
+    if (!helpRequestId) {
+      setLocations([]);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_live_locations', {
+      request_id: helpRequestId,
+    });
+
+    if (error) {
+      console.error('Error fetching live locations:', error);
+      return;
+    }
+
+    setLocations(data || []);
+  }, [helpRequestId]);
+
+  useEffect(() => {
+    if (!helpRequestId || !user) return;
+
+    fetchLocations();
+
+    const channel = supabase
+      .channel(`live_locations_${helpRequestId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'user_locations',
+          filter: `help_request_id=eq.${helpRequestId}`
+        },
+        () => {
+          fetchLocations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [helpRequestId, user, fetchLocations]);
+
+  // Drop shares as they run out, without waiting for a database change
+  const nextExpiry = locations.reduce<number | null>((earliest, location) => {
+    const until = new Date(location.shared_until).getTime();
+    return earliest === null || until < earliest ? until : earliest;
+  }, null);
+
+  useEffect(() => {
+    if (nextExpiry === null) return;
+    const timeout = setTimeout(fetchLocations, Math.max(0, nextExpiry - Date.now()) + 1000);
+    return () => clearTimeout(timeout);
+  }, [nextExpiry, fetchLocations]);
+
+  const myLocation = locations.find((l) => l.user_id === user?.id) || null;
+  const isSharing = !!myLocation;
+
+  // Stream positions while our share is active; stop watching as soon as the database says it ended
+  useEffect(() => {
+    if (!isSharing || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        const point = { lat: position.coords.latitude, lng: position.coords.longitude };
+        const previous = lastSent.current;
+        if (
+          previous &&
+          Date.now() - previous.at < LIVE_LOCATION_MIN_INTERVAL_MS &&
+          distanceKm(previous, point) < LIVE_LOCATION_MIN_DISTANCE_KM
+        ) {
+          return;
+        }
+
+        lastSent.current = { ...point, at: Date.now() };
+        const { data: stillSharing, error } = await supabase.rpc('update_live_location', {
+          ...point,
+          accuracy: position.coords.accuracy,
+        });
+
+        if (error) {
+          console.error('Error updating live location:', error);
+        } else if (!stillSharing) {
+          fetchLocations();
+        }
+      },
+      (error) => console.error('Error watching location:', error),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      lastSent.current = null;
+    };
+  }, [isSharing, fetchLocations]);
+
+  const startSharing = async (durationMinutes: LiveLocationDuration) => {
+    if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
+
+    setStarting(true);
+    try {
+      const position = await getPosition();
+      const { error } = await supabase.rpc('start_live_location', {
+        request_id: helpRequestId,
+        duration_minutes: durationMinutes,
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      });
+
+      if (error) {
+        console.error('Error starting live location:', error);
+        return { error: error.message };
+      }
+
+      await fetchLocations();
+      return {};
+    } catch (error) {
+      console.error('Error getting current position:', error);
+      return { error: 'Could not get your current location. Check location permissions.' };
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const stopSharing = async () => {
+    const { error } = await supabase.rpc('stop_live_location');
+
+    if (error) {
+      console.error('Error stopping live location:', error);
+      return { error: error.message };
+    }
+
+    await fetchLocations();
+    return {};
+  };
+
+  return {
+    locations,
+    myLocation,
+    otherLocations: locations.filter((l) => l.user_id !== user?.id),
+    isSharing,
+    starting,
+    startSharing,
+    stopSharing,
+  };
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Database } from '@/integrations/supabase/types';
+import type { ChatMessage } from '@/utils/chatMessages';
+
+export type MessageReaction = Database['public']['Tables']['message_reactions']['Row'];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+const isSameReaction = (
+  a: Pick<MessageReaction, 'message_id' | 'user_id' | 'emoji'>,
+  b: Pick<MessageReaction, 'message_id' | 'user_id' | 'emoji'>
+) => a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+// Reactions for the loaded messages of one chat: a request thread, or community chat when
+// helpRequestId is null. Only messages we haven't fetched reactions for yet are queried.
+export function useMessageReactions(messages: ChatMessage[], helpRequestId: string | null) {
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const { user } = useAuth();
+  const fetchedRef = useRef(new Set<string>());
+  const loadedIdsRef = useRef(new Set<string>());
+
+  const messageIds = messages.filter((m) => !m.pending).map((m) => m.id);
+  loadedIdsRef.current = new Set(messageIds);
+  const messageIdsKey = messageIds.join(',');
+
+  // Switching chats starts over
+  useEffect(() => {
+    fetchedRef.current = new Set();
+    setReactions([]);
+  }, [helpRequestId]);
+
+  useEffect(() => {
+    const ids = messageIdsKey ? messageIdsKey.split(',') : [];
+    const missing = ids.filter((id) => !fetchedRef.current.has(id));
+    if (missing.length === 0) return;
+
+    missing.forEach((id) => fetchedRef.current.add(id));
+
+    const fetchReactions = async () => {
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .select('*')
+        .in('message_id', missing);
+
+      if (error) {
+        console.error('Error fetching message reactions:', error);
+        missing.forEach((id) => fetchedRef.current.delete(id));
+        return;
+      }
+
+      setReactions((current) => [
+        ...current.filter((r) => !missing.includes(r.message_id)),
+        ...(data || []),
+      ]);
+    };
+
+    fetchReactions();
+  }, [messageIdsKey]);
+
+  const applyChange = useCallback((payload: RealtimePostgresChangesPayload<MessageReaction>) => {
+    if (payload.eventType === 'DELETE') {
+      const old = payload.old as MessageReaction;
+      if (old.message_id) setReactions((current) => current.filter((r) => !isSameReaction(r, old)));
+      return;
+    }
+
+    if (payload.eventType !== 'INSERT') return;
+    const row = payload.new;
+    if (!loadedIdsRef.current.has(row.message_id)) return;
+
+    setReactions((current) =>
+      current.some((r) => isSameReaction(r, row)) ? current : [...current, row]
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Community reactions can't be filtered server-side, so those arrive for every message.
+    // Neither can deletes: a filtered DELETE subscription never fires, so it listens to all.
+    const channel = supabase
+      .channel(`message_reactions_${helpRequestId ?? 'community'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          ...(helpRequestId ? { filter: `help_request_id=eq.${helpRequestId}` } : {}),
+        },
+        applyChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        applyChange
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [helpRequestId, user, applyChange]);
+
+  // Counts per emoji in the order they were first used
+  const getReactions = useCallback(
+    (messageId: string): ReactionSummary[] => {
+      const summaries = new Map<string, ReactionSummary>();
+      reactions
+        .filter((r) => r.message_id === messageId)
+        .forEach((r) => {
+          const summary = summaries.get(r.emoji) ?? { emoji: r.emoji, count: 0, reactedByMe: false };
+          summary.count += 1;
+          summary.reactedByMe = summary.reactedByMe || r.user_id === user?.id;
+          summaries.set(r.emoji, summary);
+        });
+      return Array.from(summaries.values());
+    },
+    [reactions, user]
+  );
+
+  // Adds the reaction, or takes it back if it's already ours
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const reaction: MessageReaction = {
+      message_id: messageId,
+      user_id: user.id,
+      emoji,
+      help_request_id: helpRequestId,
+      created_at: new Date().toISOString(),
+    };
+    const existing = reactions.some((r) => isSameReaction(r, reaction));
+
+    if (existing) {
+      setReactions((current) => current.filter((r) => !isSameReaction(r, reaction)));
+
+      const { error } = await supabase
+        .from('message_reactions')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('user_id', user.id)
+        .eq('emoji', emoji);
+
+      if (error) {
+        console.error('Error removing reaction:', error);
+        setReactions((current) => [...current, reaction]);
+        return { error: error.message };
+      }
+      return {};
+    }
+
+    setReactions((current) => [...current, reaction]);
+
+    const { error } = await supabase
+      .from('message_reactions')
+      .insert({ message_id: messageId, user_id: user.id, emoji });
+
+    if (error) {
+      console.error('Error adding reaction:', error);
+      setReactions((current) => current.filter((r) => !isSameReaction(r, reaction)));
+      return { error: error.message };
+    }
+    return {};
+  };
+
+  return {
+    reactions,
+    getReactions,
+    toggleReaction,
+  };
+}
@@ -1,104 +1,319 @@
-
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
-import type { Database } from '@/integrations/supabase/types';
+import {
+  deleteChatMessage,
+  editMessageText,
+  fetchAuthor,
+  getCachedAuthor,
+  latestCreatedAt,
+  mergeMessages,
+  removeMessage,
+  setAuthor,
+  updateQuotedMessage,
+  upsertMessage,
+  type ChatMessage,
+  type MessageRow,
+} from '@/utils/chatMessages';
+import { removeAttachments, uploadAttachments, type MessageAttachment } from '@/utils/attachments';
+import { cursorOf, MESSAGES_PAGE_SIZE, type KeysetCursor } from '@/utils/pagination';
+import { parsePoint, type CommunityScope } from '@/utils/communityChat';
+import { distanceKm } from '@/utils/distance';
 
-type Message = Database['public']['Tables']['messages']['Row'] & {
-  profiles: {
-    username: string | null;
-    full_name: string | null;
-  };
-};
+type Message = ChatMessage;
 
-export function useMessages() {
+// RPC rows come without authors; use the cache and look up whoever is missing
+const withCachedAuthors = (rows: MessageRow[]): Message[] =>
+  rows.map((row) => ({ ...row, profiles: getCachedAuthor(row.user_id) }));
+
+export function useMessages(scope: CommunityScope = 'nearby') {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
-  const { user } = useAuth();
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const { user, userLocation, searchRadiusKm } = useAuth();
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+
+  const lat = userLocation?.lat;
+  const lng = userLocation?.lng;
+  const [room, setRoom] = useState<string | null>(null);
+  // Neighborhood reads wait for the room rather than falling back to the radius
+  const ready = lat != null && lng != null && (scope === 'nearby' || !!room);
+
+  useEffect(() => {
+    if (scope !== 'neighborhood' || lat == null || lng == null) {
+      setRoom(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabase.rpc('get_community_room', { user_lat: lat, user_lng: lng }).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching community room:', error);
+        return;
+      }
+      setRoom(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, lat, lng]);
+
+  const resolveAuthors = useCallback((rows: MessageRow[]) => {
+    new Set(rows.filter((row) => !getCachedAuthor(row.user_id)).map((row) => row.user_id)).forEach((userId) =>
+      fetchAuthor(userId).then((profile) =>
+        setMessages((current) => setAuthor(current, userId, profile))
+      )
+    );
+  }, []);
+
+  // One page of community messages around the reader, newest first
+  const fetchPage = useCallback(async (cursor: { before?: KeysetCursor | null; since?: string | null } = {}) => {
+    if (lat == null || lng == null) return { data: [] as MessageRow[], error: null };
+
+    return supabase.rpc('get_community_messages', {
+      user_lat: lat,
+      user_lng: lng,
+      radius_km: searchRadiusKm,
+      room_id: room ?? undefined,
+      page_size: MESSAGES_PAGE_SIZE,
+      before_created_at: cursor.before?.created_at,
+      before_id: cursor.before?.id,
+      since: cursor.since ?? undefined,
+    });
+  }, [lat, lng, searchRadiusKm, room]);
 
-  const fetchMessages = async () => {
+  const fetchMessages = useCallback(async (since?: string | null) => {
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          profiles (
-            username,
-            full_name
-          )
-        `)
-        .order('created_at', { ascending: true })
-        .limit(50);
+      // Reconnect gap-fill takes what arrived since the newest message we have
+      const { data, error } = await fetchPage({ since });
 
       if (error) {
         console.error('Error fetching messages:', error);
         return;
       }
 
-      setMessages(data || []);
+      const rows = withCachedAuthors(data || []);
+      if (since && rows.length < MESSAGES_PAGE_SIZE) {
+        setMessages((current) => mergeMessages(current, rows));
+      } else if (since) {
+        // A full page means the gap may be longer than one page: start over from these newest
+        // messages and leave the rest to loadOlder, keeping anything still sending
+        setMessages((current) => mergeMessages(current.filter((m) => m.pending), rows));
+        setHasOlder(true);
+      } else {
+        setMessages(rows.reverse());
+        setHasOlder(rows.length === MESSAGES_PAGE_SIZE);
+      }
+      resolveAuthors(data || []);
     } catch (error) {
       console.error('Error fetching messages:', error);
     } finally {
       setLoading(false);
     }
+  }, [fetchPage, resolveAuthors]);
+
+  // Keyset page of messages older than the oldest one loaded
+  const loadOlder = async () => {
+    const cursor = cursorOf(messages.find((m) => !m.pending));
+    if (loadingOlder || !hasOlder || !cursor) return;
+
+    setLoadingOlder(true);
+    try {
+      const { data, error } = await fetchPage({ before: cursor });
+
+      if (error) {
+        console.error('Error loading older messages:', error);
+        return;
+      }
+
+      setMessages((current) => mergeMessages(current, withCachedAuthors(data || [])));
+      setHasOlder((data || []).length === MESSAGES_PAGE_SIZE);
+      resolveAuthors(data || []);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
   };
 
-  const sendMessage = async (message: string) => {
+  const applyChange = useCallback((payload: RealtimePostgresChangesPayload<MessageRow>) => {
+    if (payload.eventType === 'DELETE') {
+      if (payload.old.id) {
+        setMessages((current) => removeMessage(current, payload.old.id));
+        updateQuotedMessage(payload.old.id, null);
+      }
+      return;
+    }
+
+    const row = payload.new;
+    // Request threads share the table but never show up here
+    if (row.help_request_id) return;
+
+    if (payload.eventType === 'UPDATE') {
+      updateQuotedMessage(row.id, row);
+      setMessages((current) =>
+        current.some((m) => m.id === row.id)
+          ? upsertMessage(current, { ...row, profiles: null })
+          : current
+      );
+      return;
+    }
+
+    // The stored point is already blurred, so the radius view can check it as it arrives
+    if (!room && row.user_id !== user?.id) {
+      const point = parsePoint(row.location_point);
+      if (!point || lat == null || lng == null || distanceKm({ lat, lng }, point) > searchRadiusKm) return;
+    }
+
+    const author = getCachedAuthor(row.user_id);
+    setMessages((current) => upsertMessage(current, { ...row, profiles: author, pending: false, uploading: 0 }));
+
+    if (!author) {
+      fetchAuthor(row.user_id).then((profile) =>
+        setMessages((current) => setAuthor(current, row.user_id, profile))
+      );
+    }
+  }, [room, user?.id, lat, lng, searchRadiusKm]);
+
+  const sendMessage = async (message: string, files: File[] = [], replyToMessageId: string | null = null) => {
     if (!user) return { error: 'User not authenticated' };
+    if (!userLocation) return { error: 'Your location is needed to post in community chat' };
+
+    // The id is chosen here so the realtime echo and the insert response land on the same row
+    const optimistic: Message = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      help_request_id: null,
+      message,
+      location_name: userLocation.name || null,
+      location_point: `POINT(${userLocation.lng} ${userLocation.lat})`,
+      room,
+      attachments: [],
+      edited_at: null,
+      deleted_at: null,
+      deleted_by: null,
+      reply_to_message_id: replyToMessageId,
+      created_at: new Date().toISOString(),
+      profiles: getCachedAuthor(user.id) ?? {
+        username: user.user_metadata?.username ?? null,
+        full_name: user.user_metadata?.full_name ?? null,
+      },
+      pending: true,
+      uploading: files.length,
+    };
+    setMessages((current) => upsertMessage(current, optimistic));
+
+    let attachments: MessageAttachment[] = [];
+    try {
+      attachments = await uploadAttachments(files, user.id, optimistic.id);
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      setMessages((current) => removeMessage(current, optimistic.id));
+      return { error: 'Failed to upload attachments' };
+    }
 
     try {
       const { data, error } = await supabase
         .from('messages')
         .insert({
+          id: optimistic.id,
           user_id: user.id,
+          attachments,
+          reply_to_message_id: replyToMessageId,
           message,
-          location_name: 'Noida Sector 135', // This would come from user's location in a real app
+          location_name: optimistic.location_name,
+          location_point: optimistic.location_point,
         })
         .select()
         .single();
 
       if (error) {
         console.error('Error sending message:', error);
+        setMessages((current) => removeMessage(current, optimistic.id));
+        removeAttachments(attachments);
         return { error: error.message };
       }
 
+      setMessages((current) =>
+        upsertMessage(current, { ...data, profiles: null, pending: false, uploading: 0 })
+      );
       return { data };
     } catch (error) {
       console.error('Error sending message:', error);
+      setMessages((current) => removeMessage(current, optimistic.id));
+      removeAttachments(attachments);
       return { error: 'Failed to send message' };
     }
   };
 
+  // Authors only; the edit history is kept server-side
+  const editMessage = async (messageId: string, message: string) => {
+    const result = await editMessageText(messageId, message);
+    if (result.data) {
+      setMessages((current) => upsertMessage(current, { ...result.data, profiles: null }));
+    }
+    return result;
+  };
+
+  // Leaves a tombstone in place for everyone
+  const deleteMessage = async (message: Message) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await deleteChatMessage(message);
+    if (result.data) {
+      setMessages((current) => upsertMessage(current, { ...result.data, profiles: null }));
+    }
+    return result;
+  };
+
   useEffect(() => {
-    if (user) {
+    if (user && ready) {
+      setLoading(true);
       fetchMessages();
 
-      // Set up real-time subscription
+      let subscribedBefore = false;
+
+      // A neighborhood room can be filtered server-side; the radius view filters on arrival
       const channel = supabase
-        .channel('messages_changes')
+        .channel(`community_messages_${room ?? 'nearby'}`)
         .on(
           'postgres_changes',
           {
-            event: 'INSERT',
+            event: '*',
             schema: 'public',
-            table: 'messages'
+            table: 'messages',
+            ...(room ? { filter: `room=eq.${room}` } : {})
           },
-          () => {
-            fetchMessages();
-          }
+          applyChange
         )
-        .subscribe();
+        .subscribe((status) => {
+          if (status !== 'SUBSCRIBED') return;
+          if (subscribedBefore) {
+            fetchMessages(latestCreatedAt(messagesRef.current));
+          }
+          subscribedBefore = true;
+        });
 
       return () => {
         supabase.removeChannel(channel);
       };
     }
-  }, [user]);
+  }, [user, ready, room, fetchMessages, applyChange]);
 
   return {
     messages,
     loading,
+    loadingOlder,
+    hasOlder,
+    loadOlder,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    room,
     refetch: fetchMessages,
   };
 }
@@ -0,0 +1,333 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { PostgrestError, RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+import { useIdle } from "./useIdle";
+import { encodeGeohash, geohashesCovering } from "@/utils/geohash";
+import type { LocationPrivacy } from "@/utils/locationPrivacy";
+import {
+  IDLE_TIMEOUT_MINUTES,
+  type StatusOverride,
+  type UserStatus,
+} from "@/utils/userStatus";
+
+export type NearbyUser =
+  Database["public"]["Functions"]["get_nearby_users"]["Returns"][number];
+
+interface PresenceContextType {
+  // Users nearby according to get_nearby_users, with status taken from presence
+  nearbyUsers: NearbyUser[];
+  // Only counts users who are online and available, not away or do-not-disturb
+  nearbyOnlineCount: number;
+  onlineUserIds: Set<string>;
+  isOnline: (userId: string) => boolean;
+  getUserStatus: (userId: string) => UserStatus;
+  myStatus: UserStatus;
+  statusOverride: StatusOverride;
+  setStatusOverride: (
+    status: StatusOverride
+  ) => Promise<{ error: PostgrestError | null }>;
+  refreshNearbyUsers: () => Promise<void>;
+  // Re-read the status override and location privacy, e.g. after the profile is saved
+  refreshPresenceSettings: () => Promise<void>;
+}
+
+interface PresencePayload {
+  user_id: string;
+  online_at: string;
+  status: UserStatus;
+}
+
+// ~20 x 39 km cells: a 10 km radius needs a handful of channels, 50 km a couple dozen
+const PRESENCE_PRECISION = 4;
+// Wait for bursts of joins to settle before asking who they are
+const NEARBY_REFRESH_DEBOUNCE_MS = 2000;
+
+const PresenceContext = createContext<PresenceContextType | undefined>(
+  undefined
+);
+
+export function PresenceProvider({ children }: { children: React.ReactNode }) {
+  const { user, session, userLocation, searchRadiusKm } = useAuth();
+  const [userStatuses, setUserStatuses] = useState<Map<string, UserStatus>>(
+    new Map()
+  );
+  const [statusOverride, setStatusOverrideState] =
+    useState<StatusOverride>(null);
+  const [locationPrivacy, setLocationPrivacy] =
+    useState<LocationPrivacy | null>(null);
+  const isIdle = useIdle(IDLE_TIMEOUT_MINUTES);
+  const [users, setUsers] = useState<NearbyUser[]>([]);
+  const knownUserIds = useRef<Set<string>>(new Set());
+  const refreshTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const ownChannel = useRef<RealtimeChannel | null>(null);
+
+  const userId = user?.id;
+  const accessToken = session?.access_token;
+  const lat = userLocation?.lat;
+  const lng = userLocation?.lng;
+
+  // A manual choice wins; otherwise we're online unless idle or the tab is hidden
+  const myStatus: UserStatus = statusOverride ?? (isIdle ? "away" : "online");
+  const myStatusRef = useRef(myStatus);
+  myStatusRef.current = myStatus;
+
+  // Presence is tracked in our own cell and watched in every cell the search radius touches.
+  // Hidden users only watch: announcing themselves would give away their cell.
+  const ownCell =
+    lat != null && lng != null && locationPrivacy && locationPrivacy !== "hidden"
+      ? encodeGeohash(lat, lng, PRESENCE_PRECISION)
+      : null;
+  const cellsKey =
+    lat != null && lng != null
+      ? geohashesCovering(lat, lng, searchRadiusKm, PRESENCE_PRECISION)
+          .sort()
+          .join(",")
+      : "";
+
+  const refreshNearbyUsers = useCallback(async () => {
+    if (!userId || lat == null || lng == null) return;
+
+    const { data, error } = await supabase.rpc("get_nearby_users", {
+      user_lat: lat,
+      user_lng: lng,
+      radius_km: searchRadiusKm,
+    });
+
+    if (error) {
+      console.error("Error getting nearby users:", error);
+      return;
+    }
+
+    knownUserIds.current = new Set((data || []).map((u) => u.user_id));
+    setUsers(data || []);
+  }, [userId, lat, lng, searchRadiusKm]);
+
+  const scheduleRefresh = useCallback(() => {
+    if (refreshTimeout.current) clearTimeout(refreshTimeout.current);
+    refreshTimeout.current = setTimeout(
+      refreshNearbyUsers,
+      NEARBY_REFRESH_DEBOUNCE_MS
+    );
+  }, [refreshNearbyUsers]);
+
+  useEffect(() => {
+    refreshNearbyUsers();
+    return () => {
+      if (refreshTimeout.current) clearTimeout(refreshTimeout.current);
+    };
+  }, [refreshNearbyUsers]);
+
+  const refreshPresenceSettings = useCallback(async () => {
+    if (!userId) {
+      setStatusOverrideState(null);
+      setLocationPrivacy(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("status_override, location_privacy")
+      .eq("id", userId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching presence settings:", error);
+      return;
+    }
+
+    setStatusOverrideState((data?.status_override as StatusOverride) ?? null);
+    setLocationPrivacy(data?.location_privacy ?? null);
+  }, [userId]);
+
+  useEffect(() => {
+    refreshPresenceSettings();
+  }, [refreshPresenceSettings]);
+
+  useEffect(() => {
+    if (!userId || !cellsKey) {
+      setUserStatuses(new Map());
+      return;
+    }
+
+    const channels: RealtimeChannel[] = [];
+
+    const syncOnline = () => {
+      const statuses = new Map<string, UserStatus>();
+      channels.forEach((channel) =>
+        Object.entries(channel.presenceState<PresencePayload>()).forEach(
+          ([id, metas]) => statuses.set(id, metas[0]?.status ?? "online")
+        )
+      );
+      setUserStatuses(statuses);
+    };
+
+    cellsKey.split(",").forEach((cell) => {
+      const channel = supabase.channel(`presence:geo:${cell}`, {
+        config: { presence: { key: userId } },
+      });
+      channels.push(channel);
+      if (cell === ownCell) ownChannel.current = channel;
+
+      channel
+        .on("presence", { event: "sync" }, syncOnline)
+        .on("presence", { event: "join" }, ({ key }) => {
+          // Someone we haven't loaded yet came online nearby
+          if (key !== userId && !knownUserIds.current.has(key)) {
+            scheduleRefresh();
+          }
+        })
+        .subscribe(async (status) => {
+          if (status === "SUBSCRIBED" && cell === ownCell) {
+            await channel.track({
+              user_id: userId,
+              online_at: new Date().toISOString(),
+              status: myStatusRef.current,
+            } satisfies PresencePayload);
+          }
+        });
+    });
+
+    return () => {
+      ownChannel.current = null;
+      channels.forEach((channel) => supabase.removeChannel(channel));
+    };
+  }, [userId, cellsKey, ownCell, scheduleRefresh]);
+
+  // Re-announce on status changes and persist them for users outside our presence cells
+  useEffect(() => {
+    if (!userId) return;
+
+    ownChannel.current
+      ?.track({
+        user_id: userId,
+        online_at: new Date().toISOString(),
+        status: myStatus,
+      } satisfies PresencePayload)
+      .catch((error) => console.error("Error updating presence:", error));
+
+    supabase
+      .from("profiles")
+      .update({ status: myStatus })
+      .eq("id", userId)
+      .then(({ error }) => {
+        if (error) console.error("Error persisting status:", error);
+      });
+  }, [userId, myStatus]);
+
+  const setStatusOverride = useCallback(
+    async (status: StatusOverride) => {
+      if (!userId) return { error: null };
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ status_override: status })
+        .eq("id", userId);
+
+      if (!error) setStatusOverrideState(status);
+      return { error };
+    },
+    [userId]
+  );
+
+  // Write offline on the way out. The client's own requests wait on the auth session and get
+  // cancelled with the page, so this is a keepalive request with the token captured beforehand.
+  useEffect(() => {
+    if (!userId || !accessToken) return;
+
+    const handlePageHide = () => {
+      fetch(`${supabase["supabaseUrl"]}/rest/v1/rpc/mark_offline`, {
+        method: "POST",
+        keepalive: true,
+        headers: {
+          apikey: supabase["supabaseKey"],
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: "{}",
+      }).catch(() => undefined);
+    };
+
+    // Coming back from the back/forward cache reuses the page without remounting
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (!event.persisted) return;
+      supabase
+        .from("profiles")
+        .update({ status: myStatusRef.current })
+        .eq("id", userId)
+        .then(({ error }) => {
+          if (error) console.error("Error persisting status:", error);
+        });
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    window.addEventListener("pageshow", handlePageShow);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("pageshow", handlePageShow);
+    };
+  }, [userId, accessToken]);
+
+  const onlineUserIds = useMemo(
+    () => new Set(userStatuses.keys()),
+    [userStatuses]
+  );
+
+  const getUserStatus = useCallback(
+    (id: string): UserStatus => userStatuses.get(id) ?? "offline",
+    [userStatuses]
+  );
+
+  // Connected at all, whatever the status; use getUserStatus to tell availability
+  const isOnline = useCallback(
+    (id: string) => userStatuses.has(id),
+    [userStatuses]
+  );
+
+  const nearbyUsers = useMemo(
+    () =>
+      users.map((u) => {
+        const status = userStatuses.get(u.user_id) ?? "offline";
+        return { ...u, status, is_online: status === "online" };
+      }),
+    [users, userStatuses]
+  );
+
+  const nearbyOnlineCount = nearbyUsers.filter((u) => u.is_online).length;
+
+  return (
+    <PresenceContext.Provider
+      value={{
+        nearbyUsers,
+        nearbyOnlineCount,
+        onlineUserIds,
+        isOnline,
+        getUserStatus,
+        myStatus,
+        statusOverride,
+        setStatusOverride,
+        refreshNearbyUsers,
+        refreshPresenceSettings,
+      }}
+    >
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error("usePresence must be used within a PresenceProvider");
+  }
+  return context;
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface ChatViewer {
+  user_id: string;
+  name: string;
+  avatar_emoji: string | null;
+}
+
+interface TypingPayload {
+  user_id: string;
+  name: string;
+  is_typing: boolean;
+}
+
+// Resend "typing" at most this often while keys keep coming
+const TYPING_THROTTLE_MS = 2000;
+// Drop a typist we haven't heard from in this long (covers lost "stopped" events)
+const TYPING_TIMEOUT_MS = 5000;
+
+// Who has a request chat open right now and who is typing, over one Realtime channel.
+// Nothing here is stored; it disappears when people leave.
+export function useRequestChatPresence(helpRequestId: string | null) {
+  const [viewers, setViewers] = useState<ChatViewer[]>([]);
+  const [typingUsers, setTypingUsers] = useState<ChatViewer[]>([]);
+  const { user } = useAuth();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const selfRef = useRef<ChatViewer | null>(null);
+  const lastTypingSent = useRef(0);
+  const typingTimeouts = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const removeTypist = useCallback((userId: string) => {
+    clearTimeout(typingTimeouts.current[userId]);
+    delete typingTimeouts.current[userId];
+    setTypingUsers((current) => current.filter((u) => u.user_id !== userId));
+  }, []);
+
+  useEffect(() => {
+    if (!helpRequestId || !user) return;
+
+    let cancelled = false;
+    const timeouts = typingTimeouts.current;
+
+    const channel = supabase.channel(`request_chat:${helpRequestId}`, {
+      config: { presence: { key: user.id }, broadcast: { self: false } },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ChatViewer>();
+        setViewers(
+          Object.entries(state)
+            .filter(([id]) => id !== user.id)
+            .map(([, metas]) => metas[0])
+            .filter(Boolean)
+        );
+      })
+      .on('presence', { event: 'leave' }, ({ key }) => removeTypist(key))
+      .on('broadcast', { event: 'typing' }, ({ payload }: { payload: TypingPayload }) => {
+        if (!payload?.user_id || payload.user_id === user.id) return;
+
+        if (!payload.is_typing) {
+          removeTypist(payload.user_id);
+          return;
+        }
+
+        setTypingUsers((current) =>
+          current.some((u) => u.user_id === payload.user_id)
+            ? current
+            : [...current, { user_id: payload.user_id, name: payload.name, avatar_emoji: null }]
+        );
+        clearTimeout(timeouts[payload.user_id]);
+        timeouts[payload.user_id] = setTimeout(
+          () => removeTypist(payload.user_id),
+          TYPING_TIMEOUT_MS
+        );
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('full_name, username, avatar_emoji')
+          .eq('id', user.id)
+          .single();
+
+        if (cancelled) return;
+
+        selfRef.current = {
+          user_id: user.id,
+          name:
+            profile?.full_name ||
+            profile?.username ||
+            user.user_metadata?.full_name ||
+            'Someone',
+          avatar_emoji: profile?.avatar_emoji ?? null,
+        };
+        await channel.track(selfRef.current);
+      });
+
+    return () => {
+      cancelled = true;
+      Object.values(timeouts).forEach(clearTimeout);
+      typingTimeouts.current = {};
+      channelRef.current = null;
+      setViewers([]);
+      setTypingUsers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [helpRequestId, user, removeTypist]);
+
+  const sendTyping = useCallback((isTyping: boolean) => {
+    const channel = channelRef.current;
+    const self = selfRef.current;
+    if (!channel || !self) return;
+
+    channel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: self.user_id, name: self.name, is_typing: isTyping } satisfies TypingPayload,
+    });
+  }, []);
+
+  // Call on every keystroke; only a throttled stream of events goes out
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingSent.current < TYPING_THROTTLE_MS) return;
+    lastTypingSent.current = now;
+    sendTyping(true);
+  }, [sendTyping]);
+
+  const stopTyping = useCallback(() => {
+    if (lastTypingSent.current === 0) return;
+    lastTypingSent.current = 0;
+    sendTyping(false);
+  }, [sendTyping]);
+
+  return {
+    viewers,
+    typingUsers,
+    notifyTyping,
+    stopTyping,
+  };
+}
@@ -1,30 +1,55 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import type { Database } from '@/integrations/supabase/types';
+import {
+  deleteChatMessage,
+  editMessageText,
+  fetchAuthor,
+  getCachedAuthor,
+  latestCreatedAt,
+  mergeMessages,
+  rememberAuthors,
+  removeMessage,
+  setAuthor,
+  updateQuotedMessage,
+  upsertMessage,
+  type ChatMessage,
+  type MessageRow,
+} from '@/utils/chatMessages';
+import { removeAttachments, uploadAttachments, type MessageAttachment } from '@/utils/attachments';
+import { cursorOf, MESSAGES_PAGE_SIZE, olderThanFilter } from '@/utils/pagination';
 
-type RequestMessage = Database['public']['Tables']['messages']['Row'] & {
+type RequestMessage = ChatMessage;
+
+export type RequestRead = Database['public']['Tables']['help_request_reads']['Row'] & {
   profiles: {
     username: string | null;
     full_name: string | null;
-  };
+  } | null;
 };
 
 export function useRequestMessages(helpRequestId: string | null) {
   const [messages, setMessages] = useState<RequestMessage[]>([]);
+  const [reads, setReads] = useState<RequestRead[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
   const { user } = useAuth();
+  const messagesRef = useRef<RequestMessage[]>([]);
+  messagesRef.current = messages;
 
-  const fetchMessages = async () => {
+  const fetchMessages = useCallback(async (since?: string | null) => {
     if (!helpRequestId) {
       setMessages([]);
       setLoading(false);
       return;
     }
 
-    try {
-      const { data, error } = await supabase
+    const selectPage = () =>
+      supabase
         .from('messages')
         .select(`
           *,
@@ -34,30 +59,209 @@ export function useRequestMessages(helpRequestId: string | null) {
           )
         `)
         .eq('help_request_id', helpRequestId)
-        .order('created_at', { ascending: true })
-        .limit(100);
+        .limit(MESSAGES_PAGE_SIZE);
+    const fetchNewest = () =>
+      selectPage().order('created_at', { ascending: false }).order('id', { ascending: false });
+
+    try {
+      // Reconnect gap-fill walks forward from what we have; otherwise take the newest page
+      const { data, error } = await (since
+        ? selectPage().gte('created_at', since).order('created_at', { ascending: true }).order('id', { ascending: true })
+        : fetchNewest());
 
       if (error) {
         console.error('Error fetching request messages:', error);
         return;
       }
 
-      setMessages(data || []);
+      rememberAuthors(data || []);
+      if (since && (data || []).length < MESSAGES_PAGE_SIZE) {
+        setMessages((current) => mergeMessages(current, data || []));
+      } else if (since) {
+        // The gap may be longer than one page: reload the newest page instead and leave the
+        // rest to loadOlder, keeping anything still sending
+        const { data: newest, error: newestError } = await fetchNewest();
+        if (newestError) {
+          console.error('Error fetching request messages:', newestError);
+          return;
+        }
+
+        rememberAuthors(newest || []);
+        setMessages((current) => mergeMessages(current.filter((m) => m.pending), newest || []));
+        setHasOlder(true);
+      } else {
+        setMessages((data || []).reverse());
+        setHasOlder((data || []).length === MESSAGES_PAGE_SIZE);
+      }
     } catch (error) {
       console.error('Error fetching request messages:', error);
     } finally {
       setLoading(false);
     }
+  }, [helpRequestId]);
+
+  // Keyset page of messages older than the oldest one loaded
+  const loadOlder = async () => {
+    const cursor = cursorOf(messages.find((m) => !m.pending));
+    if (loadingOlder || !hasOlder || !cursor) return;
+
+    setLoadingOlder(true);
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select(`
+          *,
+          profiles (
+            username,
+            full_name
+          )
+        `)
+        .eq('help_request_id', helpRequestId)
+        .or(olderThanFilter(cursor))
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(MESSAGES_PAGE_SIZE);
+
+      if (error) {
+        console.error('Error loading older request messages:', error);
+        return;
+      }
+
+      rememberAuthors(data || []);
+      setMessages((current) => mergeMessages(current, data || []));
+      setHasOlder((data || []).length === MESSAGES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading older request messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
   };
 
-  const sendMessage = async (message: string) => {
+  const applyChange = useCallback((payload: RealtimePostgresChangesPayload<MessageRow>) => {
+    if (payload.eventType === 'DELETE') {
+      // Deletes can't be filtered server-side, so this sees every chat's deletes
+      if (payload.old.id) {
+        setMessages((current) => removeMessage(current, payload.old.id));
+        updateQuotedMessage(payload.old.id, null);
+      }
+      return;
+    }
+
+    const row = payload.new;
+
+    if (payload.eventType === 'UPDATE') {
+      updateQuotedMessage(row.id, row);
+      setMessages((current) =>
+        current.some((m) => m.id === row.id)
+          ? upsertMessage(current, { ...row, profiles: null })
+          : current
+      );
+      return;
+    }
+
+    const author = getCachedAuthor(row.user_id);
+    setMessages((current) => upsertMessage(current, { ...row, profiles: author, pending: false, uploading: 0 }));
+
+    if (!author) {
+      fetchAuthor(row.user_id).then((profile) =>
+        setMessages((current) => setAuthor(current, row.user_id, profile))
+      );
+    }
+  }, []);
+
+  const fetchReads = useCallback(async () => {
+    if (!helpRequestId) {
+      setReads([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('help_request_reads')
+      .select(`
+        *,
+        profiles (
+          username,
+          full_name
+        )
+      `)
+      .eq('help_request_id', helpRequestId);
+
+    if (error) {
+      console.error('Error fetching read receipts:', error);
+      return;
+    }
+
+    setReads(data || []);
+  }, [helpRequestId]);
+
+  // Only counts as read while the chat is actually on screen
+  const markAsRead = useCallback(async () => {
+    if (!helpRequestId || !user || document.visibilityState !== 'visible') return;
+
+    const { error } = await supabase.rpc('mark_help_request_read', {
+      request_id: helpRequestId,
+    });
+
+    if (error) {
+      console.error('Error marking request chat as read:', error);
+    }
+  }, [helpRequestId, user]);
+
+  // Other participants who have read up to (or past) a message
+  const getSeenBy = useCallback(
+    (message: Pick<RequestMessage, 'user_id' | 'created_at'>) =>
+      reads.filter(
+        (read) =>
+          read.user_id !== message.user_id &&
+          new Date(read.last_read_at).getTime() >= new Date(message.created_at).getTime()
+      ),
+    [reads]
+  );
+
+  const sendMessage = async (message: string, files: File[] = [], replyToMessageId: string | null = null) => {
     if (!user || !helpRequestId) return { error: 'User not authenticated or no request selected' };
 
+    // The id is chosen here so the realtime echo and the insert response land on the same row
+    const optimistic: RequestMessage = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      help_request_id: helpRequestId,
+      message,
+      location_name: null,
+      location_point: null,
+      room: null,
+      attachments: [],
+      edited_at: null,
+      deleted_at: null,
+      deleted_by: null,
+      reply_to_message_id: replyToMessageId,
+      created_at: new Date().toISOString(),
+      profiles: getCachedAuthor(user.id) ?? {
+        username: user.user_metadata?.username ?? null,
+        full_name: user.user_metadata?.full_name ?? null,
+      },
+      pending: true,
+      uploading: files.length,
+    };
+    setMessages((current) => upsertMessage(current, optimistic));
+
+    let attachments: MessageAttachment[] = [];
+    try {
+      attachments = await uploadAttachments(files, user.id, optimistic.id);
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      setMessages((current) => removeMessage(current, optimistic.id));
+      return { error: 'Failed to upload attachments' };
+    }
+
     try {
       const { data, error } = await supabase
         .from('messages')
         .insert({
+          id: optimistic.id,
           user_id: user.id,
+          attachments,
+          reply_to_message_id: replyToMessageId,
           help_request_id: helpRequestId,
           message,
           location_name: null, // Not needed for request-specific messages
@@ -67,19 +271,49 @@ export function useRequestMessages(helpRequestId: string | null) {
 
       if (error) {
         console.error('Error sending message:', error);
+        setMessages((current) => removeMessage(current, optimistic.id));
+        removeAttachments(attachments);
         return { error: error.message };
       }
 
+      setMessages((current) =>
+        upsertMessage(current, { ...data, profiles: null, pending: false, uploading: 0 })
+      );
       return { data };
     } catch (error) {
       console.error('Error sending message:', error);
+      setMessages((current) => removeMessage(current, optimistic.id));
+      removeAttachments(attachments);
       return { error: 'Failed to send message' };
     }
   };
 
+  // Authors only; the edit history is kept server-side
+  const editMessage = async (messageId: string, message: string) => {
+    const result = await editMessageText(messageId, message);
+    if (result.data) {
+      setMessages((current) => upsertMessage(current, { ...result.data, profiles: null }));
+    }
+    return result;
+  };
+
+  // Leaves a tombstone in place for everyone
+  const deleteMessage = async (message: RequestMessage) => {
+    if (!user) return { error: 'User not authenticated' };
+
+    const result = await deleteChatMessage(message);
+    if (result.data) {
+      setMessages((current) => upsertMessage(current, { ...result.data, profiles: null }));
+    }
+    return result;
+  };
+
   useEffect(() => {
     if (helpRequestId && user) {
       fetchMessages();
+      fetchReads();
+
+      let subscribedBefore = false;
 
       // Set up real-time subscription for this specific request
       const channel = supabase
@@ -92,22 +326,74 @@ export function useRequestMessages(helpRequestId: string | null) {
             table: 'messages',
             filter: `help_request_id=eq.${helpRequestId}`
           },
+          applyChange
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'messages',
+            filter: `help_request_id=eq.${helpRequestId}`
+          },
+          applyChange
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'messages'
+          },
+          applyChange
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'help_request_reads',
+            filter: `help_request_id=eq.${helpRequestId}`
+          },
           () => {
-            fetchMessages();
+            fetchReads();
           }
         )
-        .subscribe();
+        .subscribe((status) => {
+          if (status !== 'SUBSCRIBED') return;
+          if (subscribedBefore) {
+            fetchMessages(latestCreatedAt(messagesRef.current));
+            fetchReads();
+          }
+          subscribedBefore = true;
+        });
 
       return () => {
         supabase.removeChannel(channel);
       };
     }
-  }, [helpRequestId, user]);
+  }, [helpRequestId, user, fetchMessages, fetchReads, applyChange]);
+
+  // Catch up the read position whenever new messages arrive or the tab comes back
+  useEffect(() => {
+    if (messages.length === 0) return;
+
+    markAsRead();
+    document.addEventListener('visibilitychange', markAsRead);
+    return () => document.removeEventListener('visibilitychange', markAsRead);
+  }, [messages, markAsRead]);
 
   return {
     messages,
+    reads,
+    getSeenBy,
     loading,
+    loadingOlder,
+    hasOlder,
+    loadOlder,
     sendMessage,
+    editMessage,
+    deleteMessage,
     refetch: fetchMessages,
   };
 }
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+// Unread request-chat messages, keyed by help request id
+export function useRequestUnreadCounts() {
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const { user } = useAuth();
+
+  const fetchUnreadCounts = useCallback(async () => {
+    if (!user) {
+      setUnreadCounts({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_help_request_unread_counts');
+
+    if (error) {
+      console.error('Error fetching unread counts:', error);
+      return;
+    }
+
+    setUnreadCounts(
+      Object.fromEntries((data || []).map((row) => [row.help_request_id, row.unread_count]))
+    );
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchUnreadCounts();
+
+    const channel = supabase
+      .channel(`request_unread_counts_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          if (payload.new.help_request_id && payload.new.user_id !== user.id) {
+            fetchUnreadCounts();
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'help_request_reads',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchUnreadCounts();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchUnreadCounts]);
+
+  const totalUnread = Object.values(unreadCounts).reduce((sum, count) => sum + count, 0);
+
+  return {
+    unreadCounts,
+    totalUnread,
+    refetch: fetchUnreadCounts,
+  };
+}
@@ -14,44 +14,549 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversation_participants: {
+        Row: {
+          conversation_id: string
+          joined_at: string | null
+          last_read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string | null
+          last_read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string | null
+          last_read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string | null
+          direct_key: string
+          id: string
+          last_message_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          direct_key: string
+          id?: string
+          last_message_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          direct_key?: string
+          id?: string
+          last_message_at?: string | null
+        }
+        Relationships: []
+      }
+      direct_messages: {
+        Row: {
+          conversation_id: string
+          created_at: string | null
+          id: string
+          message: string
+          sender_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          message: string
+          sender_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          message?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "direct_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "direct_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_members: {
+        Row: {
+          group_id: string
+          joined_at: string | null
+          role: Database["public"]["Enums"]["group_role"]
+          user_id: string
+        }
+        Insert: {
+          group_id: string
+          joined_at?: string | null
+          role?: Database["public"]["Enums"]["group_role"]
+          user_id: string
+        }
+        Update: {
+          group_id?: string
+          joined_at?: string | null
+          role?: Database["public"]["Enums"]["group_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_messages: {
+        Row: {
+          created_at: string | null
+          group_id: string
+          id: string
+          message: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          group_id: string
+          id?: string
+          message: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          group_id?: string
+          id?: string
+          message?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_messages_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      groups: {
+        Row: {
+          avatar_emoji: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          location_name: string | null
+          location_point: unknown | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_emoji?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          location_name?: string | null
+          location_point?: unknown | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_emoji?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          location_name?: string | null
+          location_point?: unknown | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "groups_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      help_categories: {
+        Row: {
+          color: string
+          created_at: string | null
+          default_ttl: unknown | null
+          default_urgent: boolean
+          escalate_after: unknown | null
+          icon: string
+          id: string
+          is_active: boolean
+          max_escalation_level: number | null
+          name: string
+          parent_id: string | null
+          sort_order: number
+          urgent_ttl: unknown | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          default_ttl?: unknown | null
+          default_urgent?: boolean
+          escalate_after?: unknown | null
+          icon?: string
+          id: string
+          is_active?: boolean
+          max_escalation_level?: number | null
+          name: string
+          parent_id?: string | null
+          sort_order?: number
+          urgent_ttl?: unknown | null
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          default_ttl?: unknown | null
+          default_urgent?: boolean
+          escalate_after?: unknown | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          max_escalation_level?: number | null
+          name?: string
+          parent_id?: string | null
+          sort_order?: number
+          urgent_ttl?: unknown | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "help_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      help_request_edits: {
+        Row: {
+          changes: Json
+          created_at: string | null
+          edited_by: string | null
+          help_request_id: string
+          id: string
+        }
+        Insert: {
+          changes: Json
+          created_at?: string | null
+          edited_by?: string | null
+          help_request_id: string
+          id?: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string | null
+          edited_by?: string | null
+          help_request_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_request_edits_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_request_edits_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      help_request_helpers: {
+        Row: {
+          accepted_at: string | null
+          help_request_id: string
+          helper_id: string
+          id: string
+          message: string | null
+          offered_at: string | null
+          responded_at: string | null
+          status: Database["public"]["Enums"]["help_offer_status"]
+          updated_at: string | null
+          withdrawn_at: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          help_request_id: string
+          helper_id: string
+          id?: string
+          message?: string | null
+          offered_at?: string | null
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["help_offer_status"]
+          updated_at?: string | null
+          withdrawn_at?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          help_request_id?: string
+          helper_id?: string
+          id?: string
+          message?: string | null
+          offered_at?: string | null
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["help_offer_status"]
+          updated_at?: string | null
+          withdrawn_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_request_helpers_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_request_helpers_helper_id_fkey"
+            columns: ["helper_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      help_request_reads: {
+        Row: {
+          help_request_id: string
+          last_read_at: string
+          last_read_message_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          help_request_id: string
+          last_read_at: string
+          last_read_message_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          help_request_id?: string
+          last_read_at?: string
+          last_read_message_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_request_reads_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_request_reads_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_request_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      help_request_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          from_status:
+            | Database["public"]["Enums"]["help_request_status"]
+            | null
+          help_request_id: string
+          id: string
+          note: string | null
+          to_status: Database["public"]["Enums"]["help_request_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?:
+            | Database["public"]["Enums"]["help_request_status"]
+            | null
+          help_request_id: string
+          id?: string
+          note?: string | null
+          to_status: Database["public"]["Enums"]["help_request_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?:
+            | Database["public"]["Enums"]["help_request_status"]
+            | null
+          help_request_id?: string
+          id?: string
+          note?: string | null
+          to_status?: Database["public"]["Enums"]["help_request_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_request_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_request_status_history_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       help_requests: {
         Row: {
-          category: Database["public"]["Enums"]["help_category"]
+          broadcast_radius_km: number
+          category: string
           created_at: string | null
+          edited_at: string | null
+          escalated_at: string | null
+          escalation_level: number
+          expires_at: string | null
+          group_id: string | null
           id: string
           is_resolved: boolean | null
           is_urgent: boolean | null
           location_name: string | null
           location_point: unknown | null
           message: string
+          precise_location_shared: boolean
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["help_request_status"]
+          status_changed_at: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
-          category: Database["public"]["Enums"]["help_category"]
+          broadcast_radius_km?: number
+          category: string
           created_at?: string | null
+          edited_at?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
+          expires_at?: string | null
+          group_id?: string | null
           id?: string
           is_resolved?: boolean | null
           is_urgent?: boolean | null
           location_name?: string | null
           location_point?: unknown | null
           message: string
+          precise_location_shared?: boolean
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["help_request_status"]
+          status_changed_at?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
-          category?: Database["public"]["Enums"]["help_category"]
+          broadcast_radius_km?: number
+          category?: string
           created_at?: string | null
+          edited_at?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
+          expires_at?: string | null
+          group_id?: string | null
           id?: string
           is_resolved?: boolean | null
           is_urgent?: boolean | null
           location_name?: string | null
           location_point?: unknown | null
           message?: string
+          precise_location_shared?: boolean
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["help_request_status"]
+          status_changed_at?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "help_requests_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "help_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_requests_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "help_requests_user_id_fkey"
             columns: ["user_id"]
@@ -61,32 +566,125 @@ export type Database = {
           },
         ]
       }
+      message_edits: {
+        Row: {
+          edited_at: string
+          id: string
+          message_id: string
+          previous_message: string
+        }
+        Insert: {
+          edited_at?: string
+          id?: string
+          message_id: string
+          previous_message: string
+        }
+        Update: {
+          edited_at?: string
+          id?: string
+          message_id?: string
+          previous_message?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          help_request_id: string | null
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          help_request_id?: string | null
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          help_request_id?: string | null
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          attachments: Json
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          edited_at: string | null
           help_request_id: string | null
           id: string
           location_name: string | null
           location_point: unknown | null
           message: string
+          reply_to_message_id: string | null
+          room: string | null
           user_id: string
         }
         Insert: {
+          attachments?: Json
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
           help_request_id?: string | null
           id?: string
           location_name?: string | null
           location_point?: unknown | null
           message: string
+          reply_to_message_id?: string | null
+          room?: string | null
           user_id: string
         }
         Update: {
+          attachments?: Json
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
           help_request_id?: string | null
           id?: string
           location_name?: string | null
           location_point?: unknown | null
           message?: string
+          reply_to_message_id?: string | null
+          room?: string | null
           user_id?: string
         }
         Relationships: [
@@ -97,6 +695,13 @@ export type Database = {
             referencedRelation: "help_requests"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_message_id_fkey"
+            columns: ["reply_to_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_user_id_fkey"
             columns: ["user_id"]
@@ -120,9 +725,12 @@ export type Database = {
           last_seen: string | null
           location_name: string | null
           location_point: unknown | null
+          location_privacy: Database["public"]["Enums"]["location_privacy"]
           phone: string | null
+          search_radius_km: number
           social_links: Json | null
           status: Database["public"]["Enums"]["user_status"] | null
+          status_override: Database["public"]["Enums"]["user_status"] | null
           updated_at: string | null
           username: string | null
         }
@@ -139,9 +747,12 @@ export type Database = {
           last_seen?: string | null
           location_name?: string | null
           location_point?: unknown | null
+          location_privacy?: Database["public"]["Enums"]["location_privacy"]
           phone?: string | null
+          search_radius_km?: number
           social_links?: Json | null
           status?: Database["public"]["Enums"]["user_status"] | null
+          status_override?: Database["public"]["Enums"]["user_status"] | null
           updated_at?: string | null
           username?: string | null
         }
@@ -158,14 +769,71 @@ export type Database = {
           last_seen?: string | null
           location_name?: string | null
           location_point?: unknown | null
+          location_privacy?: Database["public"]["Enums"]["location_privacy"]
           phone?: string | null
+          search_radius_km?: number
           social_links?: Json | null
           status?: Database["public"]["Enums"]["user_status"] | null
+          status_override?: Database["public"]["Enums"]["user_status"] | null
           updated_at?: string | null
           username?: string | null
         }
         Relationships: []
       }
+      request_media: {
+        Row: {
+          created_at: string | null
+          height: number | null
+          help_request_id: string
+          id: string
+          mime_type: string
+          position: number
+          storage_path: string
+          thumbnail_path: string | null
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          height?: number | null
+          help_request_id: string
+          id?: string
+          mime_type: string
+          position?: number
+          storage_path: string
+          thumbnail_path?: string | null
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          height?: number | null
+          help_request_id?: string
+          id?: string
+          mime_type?: string
+          position?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_media_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_media_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spatial_ref_sys: {
         Row: {
           auth_name: string | null
@@ -192,33 +860,49 @@ export type Database = {
       }
       user_locations: {
         Row: {
+          accuracy_m: number | null
           created_at: string | null
+          help_request_id: string | null
           id: string
           is_active: boolean | null
           location_name: string | null
           location_point: unknown
+          shared_until: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          accuracy_m?: number | null
           created_at?: string | null
+          help_request_id?: string | null
           id?: string
           is_active?: boolean | null
           location_name?: string | null
           location_point: unknown
+          shared_until?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          accuracy_m?: number | null
           created_at?: string | null
+          help_request_id?: string | null
           id?: string
           is_active?: boolean | null
           location_name?: string | null
           location_point?: unknown
+          shared_until?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "user_locations_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "user_locations_user_id_fkey"
             columns: ["user_id"]
@@ -272,6 +956,25 @@ export type Database = {
         }
         Relationships: []
       }
+      help_categories_resolved: {
+        Row: {
+          default_ttl: unknown | null
+          escalate_after: unknown | null
+          id: string | null
+          max_escalation_level: number | null
+          parent_id: string | null
+          urgent_ttl: unknown | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "help_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
       _postgis_deprecate: {
@@ -467,6 +1170,28 @@ export type Database = {
         Args: { "": unknown } | { "": unknown }
         Returns: string
       }
+      can_see_precise_request_location: {
+        Args: {
+          request: Database["public"]["Tables"]["help_requests"]["Row"]
+          owner_privacy: Database["public"]["Enums"]["location_privacy"]
+        }
+        Returns: boolean
+      }
+      create_group: {
+        Args: {
+          group_name: string
+          group_description?: string
+          group_emoji?: string
+          lat?: number
+          lng?: number
+          group_location_name?: string
+        }
+        Returns: Database["public"]["Tables"]["groups"]["Row"]
+      }
+      delete_message: {
+        Args: { target_message_id: string }
+        Returns: Database["public"]["Tables"]["messages"]["Row"]
+      }
       disablelongtransactions: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -498,6 +1223,22 @@ export type Database = {
         Args: { geom1: unknown; geom2: unknown }
         Returns: boolean
       }
+      escalate_unanswered_help_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      expire_stale_help_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      fuzz_location: {
+        Args: {
+          point: unknown
+          privacy: Database["public"]["Enums"]["location_privacy"]
+          seed: string
+        }
+        Returns: unknown
+      }
       geography: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
@@ -722,6 +1463,60 @@ export type Database = {
         Args: { "": string }
         Returns: unknown
       }
+      get_community_messages: {
+        Args: {
+          user_lat: number
+          user_lng: number
+          radius_km?: number
+          room_id?: string
+          page_size?: number
+          before_created_at?: string
+          before_id?: string
+          since?: string
+        }
+        Returns: Database["public"]["Tables"]["messages"]["Row"][]
+      }
+      get_community_room: {
+        Args: { user_lat: number; user_lng: number }
+        Returns: string
+      }
+      get_groups: {
+        Args: { user_lat?: number; user_lng?: number; search?: string }
+        Returns: {
+          id: string
+          name: string
+          description: string | null
+          avatar_emoji: string
+          location_name: string | null
+          created_at: string
+          member_count: number
+          my_role: Database["public"]["Enums"]["group_role"] | null
+          distance_km: number | null
+        }[]
+      }
+      get_help_request_location: {
+        Args: { request_id: string }
+        Returns: {
+          lat: number
+          lng: number
+          location_name: string
+          is_precise: boolean
+        }[]
+      }
+      get_help_request_ttl: {
+        Args: {
+          request_category: string
+          request_is_urgent: boolean
+        }
+        Returns: unknown
+      }
+      get_help_request_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          help_request_id: string
+          unread_count: number
+        }[]
+      }
       get_help_request_user_distance: {
         Args: {
           request_user_id: string
@@ -730,19 +1525,67 @@ export type Database = {
         }
         Returns: number
       }
+      get_live_locations: {
+        Args: { request_id: string }
+        Returns: {
+          user_id: string
+          lat: number
+          lng: number
+          accuracy_m: number | null
+          shared_until: string
+          updated_at: string
+          full_name: string | null
+          username: string | null
+          avatar_emoji: string | null
+        }[]
+      }
+      get_my_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          conversation_id: string
+          other_user_id: string
+          other_full_name: string
+          other_username: string
+          other_avatar_emoji: string
+          last_message: string
+          last_message_sender_id: string
+          last_message_at: string
+          unread_count: number
+        }[]
+      }
       get_nearby_help_requests: {
-        Args: { user_lat: number; user_lng: number; radius_km?: number }
+        Args: {
+          user_lat: number
+          user_lng: number
+          radius_km?: number
+          statuses?: Database["public"]["Enums"]["help_request_status"][]
+          page_size?: number
+          before_distance_km?: number
+          before_created_at?: string
+          before_id?: string
+        }
         Returns: {
           id: string
           user_id: string
-          username: string
-          category: Database["public"]["Enums"]["help_category"]
+          category: string
           message: string
           is_urgent: boolean
           is_resolved: boolean
+          status: Database["public"]["Enums"]["help_request_status"]
+          status_changed_at: string
+          resolved_at: string
+          expires_at: string
+          escalation_level: number
+          edited_at: string
+          broadcast_radius_km: number
           location_name: string
-          distance_km: number
+          location_point: unknown
+          lat: number
+          lng: number
           created_at: string
+          updated_at: string
+          distance_km: number
+          accepted_helpers_count: number
         }[]
       }
       get_nearby_users: {
@@ -757,12 +1600,30 @@ export type Database = {
           distance_km: number
           is_online: boolean
           avatar_emoji: string
+          location_precision: Database["public"]["Enums"]["location_privacy"]
+          status: Database["public"]["Enums"]["user_status"]
         }[]
       }
       get_nearby_users_count: {
         Args: { user_lat: number; user_lng: number; radius_km?: number }
         Returns: number
       }
+      get_or_create_direct_conversation: {
+        Args: { other_user_id: string }
+        Returns: string
+      }
+      get_own_contact_details: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          current_address: string
+          home_address: string
+          phone: string
+        }[]
+      }
+      get_profile_location_name: {
+        Args: { profile_id: string }
+        Returns: string
+      }
       get_proj4_from_srid: {
         Args: { "": number }
         Returns: string
@@ -779,6 +1640,33 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      is_conversation_participant: {
+        Args: { target_conversation_id: string }
+        Returns: boolean
+      }
+      is_group_admin: {
+        Args: { target_group_id: string }
+        Returns: boolean
+      }
+      is_group_member: {
+        Args: { target_group_id: string }
+        Returns: boolean
+      }
+      is_help_request_participant: {
+        Args: { request_id: string }
+        Returns: boolean
+      }
+      is_valid_help_request_transition: {
+        Args: {
+          from_status: Database["public"]["Enums"]["help_request_status"]
+          to_status: Database["public"]["Enums"]["help_request_status"]
+        }
+        Returns: boolean
+      }
+      join_group: {
+        Args: { target_group_id: string }
+        Returns: Database["public"]["Tables"]["group_members"]["Row"]
+      }
       json: {
         Args: { "": unknown }
         Returns: Json
@@ -787,10 +1675,30 @@ export type Database = {
         Args: { "": unknown }
         Returns: Json
       }
+      leave_group: {
+        Args: { target_group_id: string }
+        Returns: undefined
+      }
       longtransactionsenabled: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      mark_conversation_read: {
+        Args: { target_conversation_id: string }
+        Returns: undefined
+      }
+      mark_help_request_read: {
+        Args: { request_id: string }
+        Returns: Database["public"]["Tables"]["help_request_reads"]["Row"]
+      }
+      mark_offline: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      offer_help: {
+        Args: { request_id: string; offer_message?: string }
+        Returns: Database["public"]["Tables"]["help_request_helpers"]["Row"]
+      }
       path: {
         Args: { "": unknown }
         Returns: unknown
@@ -981,6 +1889,40 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      remove_group_member: {
+        Args: { target_group_id: string; member_id: string }
+        Returns: undefined
+      }
+      renew_help_request: {
+        Args: { request_id: string }
+        Returns: Database["public"]["Tables"]["help_requests"]["Row"]
+      }
+      request_location_privacy: {
+        Args: {
+          owner_privacy: Database["public"]["Enums"]["location_privacy"]
+        }
+        Returns: Database["public"]["Enums"]["location_privacy"]
+      }
+      respond_to_help_offer: {
+        Args: { offer_id: string; accept: boolean }
+        Returns: Database["public"]["Tables"]["help_request_helpers"]["Row"]
+      }
+      set_group_member_role: {
+        Args: {
+          target_group_id: string
+          member_id: string
+          new_role: Database["public"]["Enums"]["group_role"]
+        }
+        Returns: Database["public"]["Tables"]["group_members"]["Row"]
+      }
+      set_help_request_status: {
+        Args: {
+          request_id: string
+          new_status: Database["public"]["Enums"]["help_request_status"]
+          note?: string
+        }
+        Returns: Database["public"]["Tables"]["help_requests"]["Row"]
+      }
       spheroid_in: {
         Args: { "": unknown }
         Returns: unknown
@@ -2050,6 +2992,24 @@ export type Database = {
         Args: { "": unknown }
         Returns: number
       }
+      start_live_location: {
+        Args: {
+          request_id: string
+          duration_minutes: number
+          lat: number
+          lng: number
+          accuracy?: number
+        }
+        Returns: Database["public"]["Tables"]["user_locations"]["Row"]
+      }
+      stop_live_location: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      sync_help_request_claim: {
+        Args: { request_id: string }
+        Returns: undefined
+      }
       text: {
         Args: { "": unknown }
         Returns: string
@@ -2058,6 +3018,10 @@ export type Database = {
         Args: { "": string }
         Returns: number
       }
+      update_live_location: {
+        Args: { lat: number; lng: number; accuracy?: number }
+        Returns: boolean
+      }
       updategeometrysrid: {
         Args: {
           catalogn_name: string
@@ -2068,10 +3032,27 @@ export type Database = {
         }
         Returns: string
       }
+      withdraw_help_offer: {
+        Args: { request_id: string }
+        Returns: Database["public"]["Tables"]["help_request_helpers"]["Row"]
+      }
     }
     Enums: {
-      help_category: "Medical" | "Food" | "Vehicle" | "Other"
-      user_status: "online" | "offline" | "away"
+      group_role: "admin" | "member"
+      help_offer_status: "pending" | "accepted" | "declined" | "withdrawn"
+      help_request_status:
+        | "open"
+        | "claimed"
+        | "in_progress"
+        | "resolved"
+        | "cancelled"
+        | "expired"
+      location_privacy:
+        | "exact"
+        | "approximate"
+        | "neighborhood"
+        | "hidden"
+      user_status: "online" | "offline" | "away" | "do_not_disturb"
     }
     CompositeTypes: {
       geometry_dump: {
@@ -2207,8 +3188,18 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      help_category: ["Medical", "Food", "Vehicle", "Other"],
-      user_status: ["online", "offline", "away"],
+      group_role: ["admin", "member"],
+      help_offer_status: ["pending", "accepted", "declined", "withdrawn"],
+      help_request_status: [
+        "open",
+        "claimed",
+        "in_progress",
+        "resolved",
+        "cancelled",
+        "expired",
+      ],
+      location_privacy: ["exact", "approximate", "neighborhood", "hidden"],
+      user_status: ["online", "offline", "away", "do_not_disturb"],
     },
   },
 } as const
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { ArrowLeft, Send, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,29 +11,108 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { toast } from "@/hooks/use-toast";
 import { useHelpRequests } from "@/hooks/useHelpRequests";
+import { useHelpRequest } from "@/hooks/useHelpRequest";
+import { useHelpCategories } from "@/hooks/useHelpCategories";
 import { useAuth } from "@/hooks/useAuth";
-import type { Database } from "@/integrations/supabase/types";
+import { useGroups } from "@/hooks/useGroups";
+import { formatRadius } from "@/utils/searchRadius";
+import LocationPicker, { type PickedLocation } from "@/components/LocationPicker";
+import RequestPhotoPicker from "@/components/RequestPhotoPicker";
 
 const AskHelp = () => {
   const navigate = useNavigate();
-  const { createHelpRequest } = useHelpRequests();
-  const { userLocation } = useAuth();
-  const [category, setCategory] = useState<
-    Database["public"]["Enums"]["help_category"] | ""
-  >("");
+  const { requestId } = useParams<{ requestId: string }>();
+  const isEditing = !!requestId;
+  const [searchParams] = useSearchParams();
+  const { createHelpRequest, updateHelpRequest } = useHelpRequests();
+  const {
+    helpRequest: existingRequest,
+    location: existingLocation,
+    isOwner,
+  } = useHelpRequest(
+    requestId || null
+  );
+  const { userLocation, searchRadiusKm } = useAuth();
+  const {
+    categories,
+    topLevelCategories,
+    getCategory,
+    getSubcategories,
+    getCategoryColor,
+    getCategoryLabel,
+    getCategoryIcon,
+  } = useHelpCategories();
+  const [parentCategory, setParentCategory] = useState("");
+  const [subcategory, setSubcategory] = useState("");
   const [message, setMessage] = useState("");
   const [isUrgent, setIsUrgent] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const { myGroups } = useGroups();
+  // Opened from a group's "Ask this group" button
+  const [groupId, setGroupId] = useState(searchParams.get("group") || "");
+  // null means the GPS fix for new requests, or the original location when editing
+  const [pickedLocation, setPickedLocation] = useState<PickedLocation | null>(
+    null
+  );
+
+  // A subcategory, when picked, is what gets stored on the request
+  const category = subcategory || parentCategory;
+  const subcategories = parentCategory ? getSubcategories(parentCategory) : [];
+  // New requests are broadcast as far as the requester is currently searching
+  const broadcastRadiusKm =
+    existingRequest?.broadcast_radius_km ?? searchRadiusKm;
+  const requestLocation =
+    pickedLocation ||
+    (!isEditing && userLocation
+      ? { ...userLocation, source: "current" as const }
+      : null);
+  const locationLabel = requestLocation
+    ? requestLocation.name
+    : isEditing
+    ? existingLocation?.location_name || "Unknown location"
+    : "Getting location...";
+
+  // Prefill the form when editing an existing request
+  useEffect(() => {
+    if (existingRequest) {
+      const existingCategory = categories.find(
+        (c) => c.id === existingRequest.category
+      );
+      if (existingCategory?.parent_id) {
+        setParentCategory(existingCategory.parent_id);
+        setSubcategory(existingCategory.id);
+      } else {
+        setParentCategory(existingRequest.category);
+        setSubcategory("");
+      }
+      setMessage(existingRequest.message);
+      setIsUrgent(!!existingRequest.is_urgent);
+    }
+  }, [existingRequest, categories]);
+
+  // New requests pick up the category's default urgency
+  const applyCategoryDefaults = (categoryId: string) => {
+    const selected = getCategory(categoryId);
+    if (!isEditing && selected) {
+      setIsUrgent(selected.default_urgent);
+    }
+  };
 
-  const categories = [
-    { value: "Medical" as const, label: "Medical", icon: "🏥" },
-    { value: "Food" as const, label: "Food & Groceries", icon: "🍽️" },
-    { value: "Vehicle" as const, label: "Vehicle & Transport", icon: "🚗" },
-    { value: "Other" as const, label: "Other", icon: "🤝" },
-  ];
+  const handleParentCategoryChange = (value: string) => {
+    setParentCategory(value);
+    setSubcategory("");
+    applyCategoryDefaults(value);
+  };
+
+  const handleSubcategoryChange = (value: string) => {
+    const next = value === "none" ? "" : value;
+    setSubcategory(next);
+    applyCategoryDefaults(next || parentCategory);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,10 +125,16 @@ const AskHelp = () => {
       return;
     }
 
-    if (!userLocation) {
+    if (isEditing) {
+      await handleUpdate();
+      return;
+    }
+
+    if (!requestLocation) {
       toast({
         title: "Location Required",
-        description: "Please allow location access to send help requests.",
+        description:
+          "Please allow location access or pick a location for your request.",
         variant: "destructive",
       });
       return;
@@ -58,11 +143,14 @@ const AskHelp = () => {
     setIsSubmitting(true);
 
     try {
-      const { error } = await createHelpRequest({
+      const { error, mediaError } = await createHelpRequest({
         category,
         message: message.trim(),
         is_urgent: isUrgent,
-        location_name: userLocation.name,
+        location_name: requestLocation.name,
+        location: { lat: requestLocation.lat, lng: requestLocation.lng },
+        photos,
+        group_id: groupId || undefined,
       });
 
       if (error) {
@@ -71,6 +159,13 @@ const AskHelp = () => {
           description: error,
           variant: "destructive",
         });
+      } else if (mediaError) {
+        toast({
+          title: "Help Request Sent",
+          description: mediaError,
+          variant: "destructive",
+        });
+        navigate("/");
       } else {
         toast({
           title: "Help Request Sent!",
@@ -89,6 +184,49 @@ const AskHelp = () => {
     }
   };
 
+  const handleUpdate = async () => {
+    if (!existingRequest || !isOwner) {
+      toast({
+        title: "Error",
+        description: "You can only edit your own help requests.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await updateHelpRequest(existingRequest.id, {
+        category: category || undefined,
+        message: message.trim(),
+        is_urgent: isUrgent,
+        ...(pickedLocation
+          ? {
+              location_name: pickedLocation.name,
+              location: { lat: pickedLocation.lat, lng: pickedLocation.lng },
+            }
+          : {}),
+      });
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: error,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Help Request Updated",
+          description: "Everyone in the chat can see what changed.",
+        });
+        navigate(`/chat/${existingRequest.id}`);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="min-h-screen ">
       {/* Header */}
@@ -98,16 +236,20 @@ const AskHelp = () => {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => navigate("/")}
+              onClick={() =>
+                navigate(isEditing ? `/chat/${requestId}` : "/")
+              }
               className="p-2"
             >
               <ArrowLeft className="h-5 w-5" />
             </Button>
             <div>
-              <h1 className="text-lg font-semibold">Ask for Help</h1>
+              <h1 className="text-lg font-semibold">
+                {isEditing ? "Edit Help Request" : "Ask for Help"}
+              </h1>
               <p className="text-sm flex items-center">
                 <MapPin className="h-3 w-3 mr-1" />
-                {userLocation ? userLocation.name : "Getting location..."}
+                {locationLabel}
               </p>
             </div>
           </div>
@@ -118,10 +260,14 @@ const AskHelp = () => {
         <Card className="rounded-3xl  border-[0.5px] border-blue-200 backdrop-blur-md  bg-white/10 ">
           <CardHeader>
             <CardTitle className="text-center text-xl  text-white ">
-              What do you need help with?
+              {isEditing
+                ? "Update your request"
+                : "What do you need help with?"}
             </CardTitle>
             <p className="text-center text-sm  text-white    ">
-              Your request will be shared with nearby community members
+              {isEditing
+                ? "People in the request chat will see what changed"
+                : "Your request will be shared with nearby community members"}
             </p>
           </CardHeader>
           <CardContent>
@@ -132,20 +278,18 @@ const AskHelp = () => {
                   Category *
                 </label>
                 <Select
-                  value={category}
-                  onValueChange={(
-                    value: Database["public"]["Enums"]["help_category"]
-                  ) => setCategory(value)}
+                  value={parentCategory}
+                  onValueChange={handleParentCategoryChange}
                 >
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="Select a category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((cat) => (
-                      <SelectItem key={cat.value} value={cat.value}>
+                    {topLevelCategories.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>
                         <div className="flex items-center space-x-2">
                           <span>{cat.icon}</span>
-                          <span className="text-white">{cat.label}</span>
+                          <span className="text-white">{cat.name}</span>
                         </div>
                       </SelectItem>
                     ))}
@@ -153,6 +297,38 @@ const AskHelp = () => {
                 </Select>
               </div>
 
+              {/* Subcategory Selection */}
+              {subcategories.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-white">
+                    More specific (optional)
+                  </label>
+                  <Select
+                    value={subcategory || "none"}
+                    onValueChange={handleSubcategoryChange}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">
+                        <span className="text-white">
+                          General {getCategoryLabel(parentCategory)}
+                        </span>
+                      </SelectItem>
+                      {subcategories.map((cat) => (
+                        <SelectItem key={cat.id} value={cat.id}>
+                          <div className="flex items-center space-x-2">
+                            <span>{cat.icon}</span>
+                            <span className="text-white">{cat.name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Message Input */}
               <div>
                 <label className="block text-sm font-medium text-white mb-2">
@@ -170,6 +346,55 @@ const AskHelp = () => {
                 </p>
               </div>
 
+              {/* Photos */}
+              {!isEditing && (
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-white">
+                    Photos (optional)
+                  </label>
+                  <RequestPhotoPicker
+                    photos={photos}
+                    onChange={setPhotos}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-white mt-1">
+                    Location data is removed from photos before they're uploaded
+                  </p>
+                </div>
+              )}
+
+              {/* Group */}
+              {!isEditing && myGroups.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-white">
+                    Also post to a group (optional)
+                  </label>
+                  <Select
+                    value={groupId || "none"}
+                    onValueChange={(value) =>
+                      setGroupId(value === "none" ? "" : value)
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">
+                        <span className="text-white">No group</span>
+                      </SelectItem>
+                      {myGroups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          <div className="flex items-center space-x-2">
+                            <span>{group.avatar_emoji}</span>
+                            <span className="text-white">{group.name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Urgent Toggle */}
               <div className="flex items-center justify-between  p-4  border-[0.5px] border-blue-200 backdrop-blur-md  bg-white/10  rounded-lg ">
                 <div>
@@ -188,6 +413,33 @@ const AskHelp = () => {
                 </Button>
               </div>
 
+              {/* Location */}
+              <div className="p-4 space-y-3 border-[0.5px] border-blue-200 backdrop-blur-md bg-white/10 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium text-white">Where is help needed?</p>
+                    <p className="text-sm text-white truncate">
+                      <MapPin className="inline h-3 w-3 mr-1" />
+                      {locationLabel}
+                    </p>
+                  </div>
+                  {isEditing && pickedLocation && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPickedLocation(null)}
+                    >
+                      Keep original
+                    </Button>
+                  )}
+                </div>
+                <LocationPicker
+                  value={requestLocation}
+                  onChange={setPickedLocation}
+                />
+              </div>
+
               {/* Preview */}
               {category && message && (
                 <div className="p-4 border-[0.5px] border-blue-200 backdrop-blur-md  bg-white/10 rounded-lg ">
@@ -195,8 +447,11 @@ const AskHelp = () => {
                     Preview:
                   </p>
                   <div className="flex items-start space-x-2 mb-2">
-                    <Badge variant="outline" className="text-xs bg-white">
-                      {category}
+                    <Badge
+                      variant="outline"
+                      className={`text-xs ${getCategoryColor(category)}`}
+                    >
+                      {getCategoryIcon(category)} {getCategoryLabel(category)}
                     </Badge>
                     {isUrgent && (
                       <Badge variant="destructive" className="text-xs">
@@ -215,7 +470,10 @@ const AskHelp = () => {
                 type="submit"
                 className="w-full h-12 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 text-white font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
                 disabled={
-                  isSubmitting || !category || !message.trim() || !userLocation
+                  isSubmitting ||
+                  !category ||
+                  !message.trim() ||
+                  (!isEditing && !requestLocation)
                 }
               >
                 {isSubmitting ? (
@@ -223,7 +481,13 @@ const AskHelp = () => {
                 ) : (
                   <Send className="mr-2 h-5 w-5" />
                 )}
-                {isSubmitting ? "Sending Help Request..." : "Send Help Request"}
+                {isEditing
+                  ? isSubmitting
+                    ? "Saving Changes..."
+                    : "Save Changes"
+                  : isSubmitting
+                  ? "Sending Help Request..."
+                  : "Send Help Request"}
               </Button>
             </form>
           </CardContent>
@@ -241,8 +505,9 @@ const AskHelp = () => {
                   Location-Based Help
                 </p>
                 <p className="text-xs text-blue-700 mt-1">
-                  Your request will only be visible to users within 10km of your
-                  location
+                  Your request will only be visible to users within{" "}
+                  {formatRadius(broadcastRadiusKm)} of the request location
+                  {!isEditing && " (your current search radius)"}
                 </p>
               </div>
             </div>
@@ -6,81 +6,87 @@ import { Badge } from "@/components/ui/badge";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useMessages } from "@/hooks/useMessages";
+import { usePresence } from "@/hooks/usePresence";
+import { getUserStatusDotColor } from "@/utils/userStatus";
 import { toast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import LoadOlderMessages from "@/components/LoadOlderMessages";
+import MessageAttachments from "@/components/MessageAttachments";
+import MessageActionsMenu from "@/components/MessageActionsMenu";
+import {
+  QuotedMessage,
+  ReplyingTo,
+  SwipeToReply,
+} from "@/components/MessageReply";
+import { MessageReactions } from "@/components/MessageReactions";
+import { useMessageReactions } from "@/hooks/useMessageReactions";
+import { getMessageElementId, useJumpToMessage } from "@/hooks/useJumpToMessage";
+import {
+  AttachmentButton,
+  AttachmentPreviews,
+} from "@/components/AttachmentPicker";
+import { formatRadius } from "@/utils/searchRadius";
+import type { CommunityScope } from "@/utils/communityChat";
+import {
+  getTombstoneLabel,
+  isDeletedMessage,
+  type ChatMessage,
+} from "@/utils/chatMessages";
 
 const Chat = () => {
   const navigate = useNavigate();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [newMessage, setNewMessage] = useState("");
-  const [onlineUsersCount, setOnlineUsersCount] = useState(0);
-  const [userOnlineStatus, setUserOnlineStatus] = useState<{
-    [key: string]: boolean;
-  }>({});
-  const { user, userLocation } = useAuth();
-  const { messages, loading, sendMessage } = useMessages();
-
-  // Get online users and their status
-  const getOnlineUsers = async () => {
-    if (!userLocation) return;
-
-    try {
-      console.log("Chat: Getting online users");
-
-      const { data, error } = await supabase.rpc("get_nearby_users" as any, {
-        user_lat: userLocation.lat,
-        user_lng: userLocation.lng,
-        radius_km: 2,
-      });
-
-      if (error) {
-        console.error("Chat: Error getting online users:", error);
-        return;
-      }
-
-      const nearbyUsers = (data as any[]) || [];
-      console.log("Chat: Nearby users:", nearbyUsers);
-
-      const onlineCount = nearbyUsers.filter((u) => u.is_online).length;
-      setOnlineUsersCount(onlineCount);
-
-      // Create status map for all users
-      const statusMap: { [key: string]: boolean } = {};
-      nearbyUsers.forEach((u) => {
-        statusMap[u.user_id] = u.is_online;
-      });
-      setUserOnlineStatus(statusMap);
-
-      console.log("Chat: Online count:", onlineCount, "Status map:", statusMap);
-    } catch (error) {
-      console.error("Chat: Error getting online users:", error);
-    }
-  };
-
-  useEffect(() => {
-    if (userLocation) {
-      getOnlineUsers();
-      const interval = setInterval(getOnlineUsers, 8000); // Every 8 seconds
-      return () => clearInterval(interval);
-    }
-  }, [userLocation]);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const { highlightedId, jumpToMessage } = useJumpToMessage();
+  const [scope, setScope] = useState<CommunityScope>("nearby");
+  const { user, userLocation, searchRadiusKm } = useAuth();
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    hasOlder,
+    loadOlder,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+  } = useMessages(scope);
+  const { getReactions, toggleReaction } = useMessageReactions(
+    messages,
+    null
+  );
+  const {
+    nearbyOnlineCount: onlineUsersCount,
+    getUserStatus,
+    myStatus,
+  } = usePresence();
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Follow new messages at the bottom, but not older pages loading in at the top
+  const latestMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [latestMessageId]);
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim()) return;
+    if (!newMessage.trim() && attachments.length === 0) return;
 
     const messageText = newMessage.trim();
+    const files = attachments;
+    const replyTo = replyingTo;
     setNewMessage("");
+    setAttachments([]);
+    setReplyingTo(null);
 
-    const { error } = await sendMessage(messageText);
+    const { error } = await sendMessage(
+      messageText,
+      files,
+      replyTo?.id ?? null
+    );
     if (error) {
       toast({
         title: "Error",
@@ -88,6 +94,28 @@ const Chat = () => {
         variant: "destructive",
       });
       setNewMessage(messageText);
+      setAttachments(files);
+      setReplyingTo(replyTo);
+    }
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    const { error } = await toggleReaction(messageId, emoji);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Couldn't update your reaction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+    if (!jumpToMessage(messageId)) {
+      toast({
+        title: "Original message not loaded",
+        description: "Load older messages to find it.",
+      });
     }
   };
 
@@ -99,10 +127,6 @@ const Chat = () => {
     });
   };
 
-  const isUserOnline = (userId: string) => {
-    return userOnlineStatus[userId] || false;
-  };
-
   return (
     <div className="min-h-screen  flex flex-col text-shadow-2xl text-white   text-shadow-blue-200">
       {/* Header */}
@@ -122,7 +146,10 @@ const Chat = () => {
                 <h1 className="text-lg font-semibold">Community Chat</h1>
                 <p className="text-sm  flex items-center">
                   <MapPin className="h-3 w-3 mr-1" />
-                  {userLocation?.name || "Getting location..."} • 2km radius
+                  {userLocation?.name || "Getting location..."} •{" "}
+                  {scope === "nearby"
+                    ? `${formatRadius(searchRadiusKm)} radius`
+                    : "Neighborhood room"}
                 </p>
               </div>
             </div>
@@ -139,6 +166,22 @@ const Chat = () => {
         </div>
       </div>
 
+      {/* Scope: everyone within the search radius, or the fixed neighborhood room */}
+      <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full px-1 sm:px-4 pt-3 flex gap-2">
+        {(["nearby", "neighborhood"] as const).map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            variant={scope === option ? "default" : "outline"}
+            onClick={() => setScope(option)}
+            className="rounded-full"
+          >
+            {option === "nearby" ? "Nearby" : "My neighborhood"}
+          </Button>
+        ))}
+      </div>
+
       {/* Messages */}
       <div className="flex-1 max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full  px-1 sm:px-4 py-4 overflow-y-auto">
         {loading ? (
@@ -147,6 +190,11 @@ const Chat = () => {
           </div>
         ) : (
           <div className="space-y-4">
+            <LoadOlderMessages
+              hasOlder={hasOlder}
+              loading={loadingOlder}
+              onLoadOlder={loadOlder}
+            />
             {messages.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-gray-500">
@@ -161,66 +209,117 @@ const Chat = () => {
                   : message.profiles?.full_name ||
                     message.profiles?.username ||
                     "Anonymous";
-                const online = isOwnMessage
-                  ? true
-                  : isUserOnline(message.user_id);
+                const status = isOwnMessage
+                  ? myStatus
+                  : getUserStatus(message.user_id);
 
                 return (
                   <div
                     key={message.id}
+                    id={getMessageElementId(message.id)}
                     className={`flex ${
                       isOwnMessage ? "justify-end" : "justify-start"
                     }`}
                   >
-                    <div
-                      className={`max-w-[80%] rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm  bg-white/10 px-4 py-3 ${
-                        isOwnMessage ? "bg-white" : ""
-                      }`}
+                    <SwipeToReply
+                      onReply={() => setReplyingTo(message)}
+                      disabled={message.pending || isDeletedMessage(message)}
                     >
-                      {!isOwnMessage && (
-                        <div className="flex items-center justify-between gap-2 mb-1">
-                          <div className="flex items-center space-x-2">
-                            <div
-                              className={`w-3 h-3 rounded-full ${
-                                online ? "bg-green-500" : "bg-gray-200"
-                              }`}
-                            ></div>
-                            <span className="text-[13px] font-medium text-blue-600 capitalize ">
-                              {userName}
-                            </span>
+                      <MessageActionsMenu
+                        message={message}
+                        canEdit={isOwnMessage}
+                        canDelete={isOwnMessage}
+                        maxLength={200}
+                        onReply={() => setReplyingTo(message)}
+                        onReact={(emoji) => handleToggleReaction(message.id, emoji)}
+                        onEdit={editMessage}
+                        onDelete={deleteMessage}
+                      >
+                        <div
+                          className={`rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm  bg-white/10 px-4 py-3 transition-shadow ${
+                            isOwnMessage ? "bg-white" : ""
+                          } ${message.pending ? "opacity-60" : ""} ${
+                            highlightedId === message.id ? "ring-2 ring-sky-300" : ""
+                          }`}
+                        >
+                          {!isOwnMessage && (
+                            <div className="flex items-center justify-between gap-2 mb-1">
+                              <div className="flex items-center space-x-2">
+                                <div
+                                  className={`w-3 h-3 rounded-full ${getUserStatusDotColor(
+                                    status
+                                  )}`}
+                                ></div>
+                                <span className="text-[13px] font-medium text-blue-600 capitalize ">
+                                  {userName}
+                                </span>
 
-                            {/* <span
-                              className={`text-xs ${
-                                online ? "text-green-600" : "text-gray-500"
-                              }`}
+                                {/* <span
+                                  className={`text-xs ${
+                                    online ? "text-green-600" : "text-gray-500"
+                                  }`}
+                                >
+                                  {online ? "Online" : "Offline"}
+                                </span> */}
+                              </div>
+                            </div>
+                          )}
+                          {isDeletedMessage(message) ? (
+                            <p className="text-sm italic text-white/70 p-2">
+                              {getTombstoneLabel(message)}
+                            </p>
+                          ) : (
+                            <>
+                              {message.reply_to_message_id && (
+                                <QuotedMessage
+                                  messageId={message.reply_to_message_id}
+                                  messages={messages}
+                                  currentUserId={user?.id}
+                                  onJump={handleJumpToMessage}
+                                />
+                              )}
+                              <MessageAttachments
+                                attachments={message.attachments}
+                                uploading={message.uploading}
+                              />
+                              {message.message && (
+                                <p
+                                  className={`text-sm leading-relaxed   text-white p-2 `}
+                                >
+                                  {message.message}
+                                </p>
+                              )}
+                            </>
+                          )}
+                          <div className="flex justify-end gap-4 pt-4">
+                            {!isOwnMessage && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs text-gray-500  bg-white"
+                              >
+                                {message.location_name || "Nearby"}
+                              </Badge>
+                            )}
+                            <p
+                              className={`text-xs mt-1
+                                 text-blue-100  `}
                             >
-                              {online ? "Online" : "Offline"}
-                            </span> */}
+                              {formatTime(message.created_at)}
+                              {message.edited_at && !isDeletedMessage(message) && (
+                                <span className="ml-1 italic">(edited)</span>
+                              )}
+                            </p>
                           </div>
                         </div>
+                      </MessageActionsMenu>
+                      {!isDeletedMessage(message) && (
+                        <MessageReactions
+                          reactions={getReactions(message.id)}
+                          onToggle={(emoji) => handleToggleReaction(message.id, emoji)}
+                          alignEnd={isOwnMessage}
+                        />
                       )}
-                      <p
-                        className={`text-sm leading-relaxed   text-white p-2 `}
-                      >
-                        {message.message}
-                      </p>
-                      <div className="flex justify-end gap-4 pt-4">
-                        {!isOwnMessage && (
-                          <Badge
-                            variant="outline"
-                            className="text-xs text-gray-500  bg-white"
-                          >
-                            {message.location_name || "No location found"}
-                          </Badge>
-                        )}
-                        <p
-                          className={`text-xs mt-1
-                             text-blue-100  `}
-                        >
-                          {formatTime(message.created_at)}
-                        </p>
-                      </div>
-                    </div>
+                    </SwipeToReply>
                   </div>
                 );
               })
@@ -233,7 +332,16 @@ const Chat = () => {
       {/* Message Input */}
       <div className=" p-4 sticky bottom-0 border-t-[0.5px] border-blue-200 backdrop-blur-2xl  bg-white/10">
         <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto sm:px-4 px-1">
+          {replyingTo && (
+            <ReplyingTo
+              message={replyingTo}
+              currentUserId={user?.id}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+          <AttachmentPreviews files={attachments} onChange={setAttachments} />
           <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <AttachmentButton files={attachments} onChange={setAttachments} />
             <Input
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
@@ -244,7 +352,10 @@ const Chat = () => {
             <Button
               type="submit"
               size="sm"
-              disabled={!newMessage.trim()}
+              disabled={
+                !userLocation ||
+                (!newMessage.trim() && attachments.length === 0)
+              }
               className="rounded-full border-[0.5px] border-blue-200 shadow-white/15 h-10 w-10 p-0 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
             >
               <Send className="h-4 w-4" />
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef } from "react";
+import { ArrowLeft, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useDirectMessages } from "@/hooks/useDirectMessages";
+import { usePresence } from "@/hooks/usePresence";
+import { toast } from "@/hooks/use-toast";
+import {
+  getUserStatusDotColor,
+  getUserStatusLabel,
+} from "@/utils/userStatus";
+
+const Conversation = () => {
+  const navigate = useNavigate();
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [newMessage, setNewMessage] = useState("");
+  const { user } = useAuth();
+  const { messages, partner, loading, sendMessage } = useDirectMessages(
+    conversationId || null
+  );
+  const { getUserStatus } = usePresence();
+
+  const partnerName =
+    partner?.full_name || partner?.username || "Anonymous";
+  const partnerStatus = partner ? getUserStatus(partner.user_id) : "offline";
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim()) return;
+
+    const messageText = newMessage.trim();
+    setNewMessage("");
+
+    const { error } = await sendMessage(messageText);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send message. Please try again.",
+        variant: "destructive",
+      });
+      setNewMessage(messageText);
+    }
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: true,
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col text-shadow-2xl text-white text-shadow-blue-200">
+      {/* Header */}
+      <div className="shadow-sm sticky top-0 border-b-[0.5px] border-blue-200 backdrop-blur-2xl bg-black/10 z-50">
+        <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/messages")}
+              className="p-2"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="h-9 w-9 flex items-center justify-center text-lg rounded-full border border-blue-200 bg-white/10">
+              {partner?.avatar_emoji || partnerName.charAt(0).toUpperCase()}
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold capitalize">
+                {partnerName}
+              </h1>
+              <p className="text-sm flex items-center">
+                <span
+                  className={`w-2 h-2 rounded-full mr-1 ${getUserStatusDotColor(
+                    partnerStatus
+                  )}`}
+                ></span>
+                {getUserStatusLabel(partnerStatus)}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full px-1 sm:px-4 py-4 overflow-y-auto">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-600 border-t-transparent"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {messages.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-300">
+                  Say hello to {partnerName}. Only the two of you can see
+                  these messages.
+                </p>
+              </div>
+            ) : (
+              messages.map((message) => {
+                const isOwnMessage = message.sender_id === user?.id;
+
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex ${
+                      isOwnMessage ? "justify-end" : "justify-start"
+                    }`}
+                  >
+                    <div className="max-w-[80%] rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm bg-white/10 px-4 py-3">
+                      <p className="text-sm leading-relaxed text-white">
+                        {message.message}
+                      </p>
+                      <p className="text-xs mt-1 text-right text-blue-100">
+                        {formatTime(message.created_at)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+        )}
+      </div>
+
+      {/* Message Input */}
+      <div className="p-4 sticky bottom-0 border-t-[0.5px] border-blue-200 backdrop-blur-2xl bg-white/10">
+        <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto sm:px-4 px-1">
+          <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <Input
+              value={newMessage}
+              onChange={(e) => setNewMessage(e.target.value)}
+              placeholder={`Message ${partnerName}...`}
+              className="flex-1 rounded-full border-gray-300 text-black focus:border-blue-500 focus:ring-blue-500"
+              maxLength={500}
+            />
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!newMessage.trim()}
+              className="rounded-full border-[0.5px] border-blue-200 shadow-white/15 h-10 w-10 p-0 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Conversation;
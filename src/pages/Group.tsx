@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useRef } from "react";
+import {
+  ArrowLeft,
+  HandHeart,
+  LogOut,
+  MapPin,
+  MoreVertical,
+  Send,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useGroup } from "@/hooks/useGroup";
+import { useGroupMessages } from "@/hooks/useGroupMessages";
+import { useHelpCategories } from "@/hooks/useHelpCategories";
+import { toast } from "@/hooks/use-toast";
+import { formatTime } from "@/utils/timeUtils";
+import { getStatusColor, getStatusLabel } from "@/utils/helpRequestStatus";
+
+const Group = () => {
+  const navigate = useNavigate();
+  const { groupId } = useParams<{ groupId: string }>();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [newMessage, setNewMessage] = useState("");
+  const [tab, setTab] = useState("chat");
+  const { user } = useAuth();
+  const {
+    group,
+    members,
+    requests,
+    loading,
+    isMember,
+    isAdmin,
+    join,
+    leave,
+    setMemberRole,
+    removeMember,
+  } = useGroup(groupId || null);
+  const { getCategoryIcon } = useHelpCategories();
+  const { messages, sendMessage } = useGroupMessages(
+    groupId || null,
+    isMember
+  );
+
+  useEffect(() => {
+    if (tab === "chat") {
+      messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [messages, tab]);
+
+  const showResult = (result: { error?: string }, success?: string) => {
+    if (result.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (success) toast({ title: success });
+    return true;
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim()) return;
+
+    const messageText = newMessage.trim();
+    setNewMessage("");
+
+    const { error } = await sendMessage(messageText);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send message. Please try again.",
+        variant: "destructive",
+      });
+      setNewMessage(messageText);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (showResult(await leave(), `You left ${group?.name}`)) {
+      navigate("/groups");
+    }
+  };
+
+  const formatMessageTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: true,
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-white space-y-4">
+        <p>This group doesn't exist anymore.</p>
+        <Button variant="outline" onClick={() => navigate("/groups")} className="text-blue-700">
+          Back to groups
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col text-shadow-2xl text-white text-shadow-blue-200">
+      {/* Header */}
+      <div className="shadow-sm sticky top-0 border-b-[0.5px] border-blue-200 backdrop-blur-2xl bg-black/10 z-50">
+        <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/groups")}
+              className="p-2"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="h-9 w-9 flex items-center justify-center text-lg rounded-full border border-blue-200 bg-white/10">
+              {group.avatar_emoji}
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-lg font-semibold truncate">{group.name}</h1>
+              <p className="text-sm truncate">
+                {isMember
+                  ? `${members.length} member${members.length === 1 ? "" : "s"}`
+                  : "Public group"}
+                {group.location_name && ` • ${group.location_name}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!isMember ? (
+        <div className="flex-1 max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full px-4 py-8 text-center space-y-4">
+          <div className="text-5xl">{group.avatar_emoji}</div>
+          {group.description && <p className="text-gray-200">{group.description}</p>}
+          {group.location_name && (
+            <p className="text-sm flex items-center justify-center text-gray-300">
+              <MapPin className="h-3 w-3 mr-1" />
+              {group.location_name}
+            </p>
+          )}
+          <p className="text-sm text-gray-300">
+            Join to chat with members and see requests posted to this group.
+          </p>
+          <Button
+            onClick={async () => showResult(await join(), `Joined ${group.name}`)}
+            className="bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+          >
+            Join group
+          </Button>
+        </div>
+      ) : (
+        <Tabs
+          value={tab}
+          onValueChange={setTab}
+          className="flex-1 flex flex-col max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full px-1 sm:px-4 py-4"
+        >
+          <TabsList className="grid grid-cols-3">
+            <TabsTrigger value="chat">Chat</TabsTrigger>
+            <TabsTrigger value="requests">Requests ({requests.length})</TabsTrigger>
+            <TabsTrigger value="members">Members</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="chat" className="flex-1 space-y-4">
+            {messages.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-300">
+                  No messages yet. Only members can see this chat.
+                </p>
+              </div>
+            ) : (
+              messages.map((message) => {
+                const isOwnMessage = message.user_id === user?.id;
+                const author =
+                  message.profiles?.full_name ||
+                  message.profiles?.username ||
+                  "Anonymous";
+
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex ${isOwnMessage ? "justify-end" : "justify-start"}`}
+                  >
+                    <div className="max-w-[80%] rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm bg-white/10 px-4 py-3">
+                      {!isOwnMessage && (
+                        <p className="text-xs font-medium text-blue-100 mb-1">
+                          {message.profiles?.avatar_emoji} {author}
+                        </p>
+                      )}
+                      <p className="text-sm leading-relaxed text-white">
+                        {message.message}
+                      </p>
+                      <p className="text-xs mt-1 text-right text-blue-100">
+                        {formatMessageTime(message.created_at)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+            <div ref={messagesEndRef} />
+          </TabsContent>
+
+          <TabsContent value="requests" className="space-y-2">
+            <Button
+              onClick={() => navigate(`/ask-help?group=${group.id}`)}
+              className="w-full bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+            >
+              <HandHeart className="h-4 w-4 mr-2" />
+              Ask this group for help
+            </Button>
+            {requests.length === 0 ? (
+              <p className="text-center py-6 text-gray-300">
+                No requests have been posted to this group yet.
+              </p>
+            ) : (
+              requests.map((request) => (
+                <button
+                  key={request.id}
+                  type="button"
+                  onClick={() => navigate(`/chat/${request.id}`)}
+                  className="w-full text-left rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm bg-white/10 px-4 py-3"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm font-medium line-clamp-2">
+                      {getCategoryIcon(request.category)} {request.message}
+                    </p>
+                    <Badge
+                      variant="outline"
+                      className={`text-xs shrink-0 ${getStatusColor(request.status)}`}
+                    >
+                      {getStatusLabel(request.status)}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-300 mt-1">
+                    {request.profiles?.full_name || request.profiles?.username || "Anonymous"}
+                    {" • "}
+                    {formatTime(request.created_at)}
+                  </p>
+                </button>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="members" className="space-y-2">
+            {members.map((member) => {
+              const isMe = member.user_id === user?.id;
+              const name =
+                member.profiles?.full_name ||
+                member.profiles?.username ||
+                "Anonymous";
+
+              return (
+                <div
+                  key={member.user_id}
+                  className="flex items-center space-x-3 rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm bg-white/10 px-4 py-3"
+                >
+                  <div className="h-9 w-9 shrink-0 flex items-center justify-center text-lg rounded-full border border-blue-200 bg-white/10">
+                    {member.profiles?.avatar_emoji || name.charAt(0).toUpperCase()}
+                  </div>
+                  <p className="flex-1 min-w-0 text-sm font-medium truncate">
+                    {isMe ? `${name} (you)` : name}
+                  </p>
+                  {member.role === "admin" && (
+                    <Badge variant="outline" className="text-[10px] bg-white text-blue-700">
+                      Admin
+                    </Badge>
+                  )}
+                  {isAdmin && !isMe && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="p-2">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {member.role === "admin" ? (
+                          <DropdownMenuItem
+                            onClick={async () =>
+                              showResult(await setMemberRole(member.user_id, "member"))
+                            }
+                          >
+                            Remove as admin
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem
+                            onClick={async () =>
+                              showResult(await setMemberRole(member.user_id, "admin"))
+                            }
+                          >
+                            Make admin
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem
+                          className="text-red-600"
+                          onClick={async () =>
+                            showResult(await removeMember(member.user_id), `Removed ${name}`)
+                          }
+                        >
+                          Remove from group
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              onClick={handleLeave}
+              className="w-full text-red-600"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave group
+            </Button>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {/* Message Input */}
+      {isMember && tab === "chat" && (
+        <div className="p-4 sticky bottom-0 border-t-[0.5px] border-blue-200 backdrop-blur-2xl bg-white/10">
+          <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto sm:px-4 px-1">
+            <form onSubmit={handleSendMessage} className="flex space-x-2">
+              <Input
+                value={newMessage}
+                onChange={(e) => setNewMessage(e.target.value)}
+                placeholder={`Message ${group.name}...`}
+                className="flex-1 rounded-full border-gray-300 text-black focus:border-blue-500 focus:ring-blue-500"
+                maxLength={500}
+              />
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!newMessage.trim()}
+                className="rounded-full border-[0.5px] border-blue-200 shadow-white/15 h-10 w-10 p-0 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Group;
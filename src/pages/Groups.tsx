@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import { ArrowLeft, MapPin, Plus, Search, UsersRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useGroups, type GroupSummary } from "@/hooks/useGroups";
+import { toast } from "@/hooks/use-toast";
+import { formatRadius } from "@/utils/searchRadius";
+
+const GROUP_EMOJIS = ["🏘️", "🏢", "🤝", "🧹", "🌳", "🐾", "🚲", "🍲", "🏥", "📚", "⚽", "🙏"];
+
+const Groups = () => {
+  const navigate = useNavigate();
+  const { userLocation } = useAuth();
+  const [search, setSearch] = useState("");
+  const { myGroups, otherGroups, loading, createGroup, joinGroup } =
+    useGroups(search);
+  const [creating, setCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [emoji, setEmoji] = useState(GROUP_EMOJIS[0]);
+  const [pinToLocation, setPinToLocation] = useState(false);
+
+  const resetForm = () => {
+    setName("");
+    setDescription("");
+    setEmoji(GROUP_EMOJIS[0]);
+    setPinToLocation(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim().length < 3) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await createGroup({
+        name: name.trim(),
+        description: description.trim(),
+        avatar_emoji: emoji,
+        useCurrentLocation: pinToLocation,
+      });
+
+      if (error) {
+        toast({ title: "Error", description: error, variant: "destructive" });
+        return;
+      }
+
+      setCreating(false);
+      resetForm();
+      navigate(`/groups/${data.id}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleJoin = async (group: GroupSummary) => {
+    const { error } = await joinGroup(group.id);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    toast({ title: `Joined ${group.name}` });
+    navigate(`/groups/${group.id}`);
+  };
+
+  const renderGroup = (group: GroupSummary) => (
+    <div
+      key={group.id}
+      className="flex items-center space-x-3 rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm bg-white/10 px-4 py-3"
+    >
+      <button
+        type="button"
+        onClick={() => navigate(`/groups/${group.id}`)}
+        className="flex flex-1 min-w-0 items-center space-x-3 text-left"
+      >
+        <div className="h-10 w-10 shrink-0 flex items-center justify-center text-lg rounded-full border border-blue-200 bg-white/10">
+          {group.avatar_emoji}
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium truncate">{group.name}</p>
+            {group.my_role === "admin" && (
+              <Badge variant="outline" className="text-[10px] bg-white text-blue-700">
+                Admin
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-gray-300 truncate">
+            {group.member_count} member{group.member_count === 1 ? "" : "s"}
+            {group.distance_km != null &&
+              ` • ${formatRadius(Math.max(1, Math.round(group.distance_km)))} away`}
+            {group.description && ` • ${group.description}`}
+          </p>
+        </div>
+      </button>
+      {group.my_role === null && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleJoin(group)}
+          className="shrink-0 text-blue-700"
+        >
+          Join
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col text-shadow-2xl text-white text-shadow-blue-200">
+      {/* Header */}
+      <div className="shadow-sm sticky top-0 border-b-[0.5px] border-blue-200 backdrop-blur-2xl bg-black/10 z-50">
+        <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/")}
+                className="p-2"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-lg font-semibold">Groups</h1>
+                <p className="text-sm">
+                  Residents' associations, buildings and volunteer teams
+                </p>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => setCreating(true)}
+              className="bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full px-1 sm:px-4 py-4 space-y-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search groups"
+            className="pl-9 rounded-full text-black"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-600 border-t-transparent"></div>
+          </div>
+        ) : (
+          <>
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold uppercase tracking-wide">
+                Your groups
+              </h2>
+              {myGroups.length === 0 ? (
+                <div className="text-center py-6">
+                  <UsersRound className="h-10 w-10 mx-auto mb-3 opacity-70" />
+                  <p className="text-gray-300">
+                    You haven't joined any groups yet.
+                  </p>
+                </div>
+              ) : (
+                myGroups.map(renderGroup)
+              )}
+            </section>
+
+            {otherGroups.length > 0 && (
+              <section className="space-y-2">
+                <h2 className="text-sm font-semibold uppercase tracking-wide">
+                  {search.trim() ? "Results" : "Nearby groups"}
+                </h2>
+                {otherGroups.map(renderGroup)}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+
+      <Dialog
+        open={creating}
+        onOpenChange={(open) => {
+          setCreating(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create a group</DialogTitle>
+            <DialogDescription>
+              You'll be its first admin. Anyone can find and join it.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="group-name">Name</Label>
+              <Input
+                id="group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Sector 135 RWA"
+                maxLength={60}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-description">Description (optional)</Label>
+              <Textarea
+                id="group-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Who is this group for?"
+                className="resize-none"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <div className="flex flex-wrap gap-1">
+                {GROUP_EMOJIS.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setEmoji(option)}
+                    className={`text-xl p-1.5 rounded-lg border-2 transition-all ${
+                      emoji === option
+                        ? "border-blue-500 bg-blue-50"
+                        : "border-gray-200 hover:border-gray-300"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {userLocation && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="group-location" className="flex items-center">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  Show to people near {userLocation.name}
+                </Label>
+                <Switch
+                  id="group-location"
+                  checked={pinToLocation}
+                  onCheckedChange={setPinToLocation}
+                />
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="submit" disabled={saving || name.trim().length < 3}>
+                {saving ? "Creating..." : "Create group"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Groups;
@@ -11,31 +11,126 @@ import {
   User2Icon,
   User2,
   CircleUserRound,
+  HandHelping,
+  Hourglass,
+  MessageSquare,
+  UsersRound,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresence } from "@/hooks/usePresence";
+import { useConversations } from "@/hooks/useConversations";
+import { useRequestUnreadCounts } from "@/hooks/useRequestUnreadCounts";
 import { useHelpRequests } from "@/hooks/useHelpRequests";
-import { formatTime } from "@/utils/timeUtils";
+import { useHelpCategories } from "@/hooks/useHelpCategories";
+import { formatTime, formatTimeUntil } from "@/utils/timeUtils";
+import { toast } from "@/hooks/use-toast";
+import {
+  ACTIVE_STATUSES,
+  CLOSED_STATUSES,
+  getStatusColor,
+  getStatusLabel,
+  formatHelpersOnTheWay,
+  isExpiringSoon,
+  msUntilExpiryChange,
+  renewHelpRequest,
+  setHelpRequestStatus,
+  type HelpRequestStatus,
+} from "@/utils/helpRequestStatus";
 import Map from "@/components/Map";
+import RadiusSlider from "@/components/RadiusSlider";
+import StatusSelector from "@/components/StatusSelector";
+import { formatRadius } from "@/utils/searchRadius";
+import { getRequestMediaUrl } from "@/utils/requestMedia";
 
 const Home = () => {
   const navigate = useNavigate();
-  const { user, signOut, userLocation, nearbyUsersCount } = useAuth();
-  const { helpRequests, loading, showAllLocations, toggleLocationFilter } =
-    useHelpRequests();
+  const { user, signOut, userLocation, searchRadiusKm } = useAuth();
+  const { nearbyOnlineCount } = usePresence();
+  const { totalUnread } = useConversations();
+  const { unreadCounts, totalUnread: totalRequestUnread } =
+    useRequestUnreadCounts();
+  const {
+    helpRequests,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    showAllLocations,
+    toggleLocationFilter,
+    setStatusFilter,
+    refetch,
+  } = useHelpRequests();
+  const { getCategoryColor, getCategoryLabel, getCategoryIcon } =
+    useHelpCategories();
   const [showMap, setShowMap] = useState(false);
+  const [statusView, setStatusView] = useState("active");
+  const [expiryTick, setExpiryTick] = useState(0);
+
+  const statusViews: Record<string, { label: string; statuses: HelpRequestStatus[] }> = {
+    active: { label: "Active", statuses: ACTIVE_STATUSES },
+    open: { label: "Open", statuses: ["open"] },
+    in_progress: { label: "Being helped", statuses: ["claimed", "in_progress"] },
+    closed: { label: "Closed", statuses: CLOSED_STATUSES },
+  };
+
+  const handleStatusViewChange = (value: string) => {
+    setStatusView(value);
+    setStatusFilter(statusViews[value].statuses);
+  };
+
+  // Own requests that are about to expire get a renew/close prompt
+  const expiringRequests = helpRequests.filter(
+    (request) =>
+      request.user_id === user?.id && isExpiringSoon(request.expires_at)
+  );
+
+  // Re-render when one of them enters or leaves the warning window, without a refetch
+  useEffect(() => {
+    const delays = helpRequests
+      .filter((request) => request.user_id === user?.id)
+      .map((request) => msUntilExpiryChange(request.expires_at))
+      .filter((delay): delay is number => delay !== null);
+    if (delays.length === 0) return;
+
+    const timer = setTimeout(
+      () => setExpiryTick((tick) => tick + 1),
+      Math.min(...delays) + 1000
+    );
+    return () => clearTimeout(timer);
+  }, [helpRequests, user, expiryTick]);
+
+  const handleRenew = async (requestId: string) => {
+    const { error } = await renewHelpRequest(requestId);
+    if (!error) refetch();
+    toast(
+      error
+        ? { title: "Error", description: error, variant: "destructive" }
+        : {
+            title: "Request renewed",
+            description: "Your request will stay visible for longer.",
+          }
+    );
+  };
 
-  const getCategoryColor = (category: string) => {
-    const colors = {
-      Medical: "bg-red-100 text-red-800 border-red-200",
-      Food: "bg-orange-100 text-orange-800 border-orange-200",
-      Vehicle: "bg-blue-100 text-blue-800 border-blue-200",
-      Other: "bg-gray-100 text-gray-800 border-gray-200",
-    };
-    return colors[category as keyof typeof colors] || colors.Other;
+  const handleClose = async (requestId: string) => {
+    // Letting a request go from here withdraws it; resolved is for requests that got help
+    const { error } = await setHelpRequestStatus(requestId, "cancelled");
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    refetch();
   };
 
   const handleSignOut = async () => {
@@ -84,11 +179,37 @@ const Home = () => {
                 <div className="flex items-center space-x-1 text-green-600">
                   <Users className="h-4 w-4 text-white" />
                   <span className="text-sm font-medium  text-white">
-                    {nearbyUsersCount}
+                    {nearbyOnlineCount}
                   </span>
                 </div>
                 <p className="text-xs ">Nearby</p>
               </div>
+              {totalRequestUnread > 0 && (
+                <div className="text-right">
+                  <div className="flex items-center space-x-1">
+                    <MessageCircle className="h-4 w-4 text-white" />
+                    <span className="text-sm font-medium text-white">
+                      {totalRequestUnread}
+                    </span>
+                  </div>
+                  <p className="text-xs ">Unread</p>
+                </div>
+              )}
+              <StatusSelector />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/messages")}
+                className="p-2 relative"
+                title="Messages"
+              >
+                <MessageSquare className="h-4 w-4" />
+                {totalUnread > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-[10px] font-bold leading-[18px] text-white text-center">
+                    {totalUnread > 9 ? "9+" : totalUnread}
+                  </span>
+                )}
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -122,6 +243,46 @@ const Home = () => {
           </Button>
         </div>
 
+        {/* Expiry prompts for own requests */}
+        {expiringRequests.map((request) => (
+          <Card
+            key={request.id}
+            className="rounded-xl border-orange-200 bg-orange-50"
+          >
+            <CardContent className="p-4">
+              <div className="flex items-start space-x-2">
+                <Hourglass className="h-4 w-4 mt-0.5 text-orange-600" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-orange-900">
+                    Your request expires {formatTimeUntil(request.expires_at)}
+                  </p>
+                  <p className="text-xs text-orange-700 truncate">
+                    {request.message}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRenew(request.id)}
+                  className="flex-1 text-orange-700 border-orange-200 hover:bg-orange-100"
+                >
+                  Renew
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleClose(request.id)}
+                  className="flex-1 text-gray-700 border-gray-200 hover:bg-gray-100"
+                >
+                  Close
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
         {/* Map Section */}
 
         <div className=" flex flex-col md:flex-row gap-4">
@@ -143,7 +304,7 @@ const Home = () => {
             ) : (
               <>
                 <MapPin className="mr-2 h-5 w-5" />
-                Show users Within 10km
+                Show users Within {formatRadius(searchRadiusKm)}
               </>
             )}
           </Button>
@@ -157,7 +318,24 @@ const Home = () => {
             <User2Icon className="mr-2 h-5 w-5" />
             {showMap ? "Hide" : "Show"} Live Users
           </Button>
+
+          {/* Groups */}
+          <Button
+            onClick={() => navigate("/groups")}
+            variant="outline"
+            className="w-full h-12 border-blue-200 text-blue-600 hover:bg-blue-50"
+          >
+            <UsersRound className="mr-2 h-5 w-5" />
+            Groups
+          </Button>
         </div>
+        {!showAllLocations && (
+          <Card className="rounded-xl">
+            <CardContent className="p-4">
+              <RadiusSlider />
+            </CardContent>
+          </Card>
+        )}
         {showMap && (
           <div className=" animate-in transition-all">
             <Map />
@@ -178,6 +356,18 @@ const Home = () => {
             >
               View All
             </Button> */}
+            <Select value={statusView} onValueChange={handleStatusViewChange}>
+              <SelectTrigger className="w-36 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(statusViews).map(([value, view]) => (
+                  <SelectItem key={value} value={value}>
+                    {view.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {loading ? (
@@ -227,18 +417,50 @@ const Home = () => {
                                 request.category
                               )}`}
                             >
-                              {request.category}
+                              {getCategoryIcon(request.category)}{" "}
+                              {getCategoryLabel(request.category)}
                             </Badge>
                             {request.is_urgent && (
                               <Badge variant="destructive" className="text-xs">
                                 Urgent
                               </Badge>
                             )}
+                            {request.escalation_level > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs bg-orange-100 text-orange-800 border-orange-200"
+                              >
+                                Wider reach
+                              </Badge>
+                            )}
+                            {request.status !== "open" && (
+                              <Badge
+                                variant="outline"
+                                className={`text-xs ${getStatusColor(
+                                  request.status
+                                )}`}
+                              >
+                                {getStatusLabel(request.status)}
+                              </Badge>
+                            )}
+                            {unreadCounts[request.id] > 0 && (
+                              <Badge className="text-xs bg-blue-600 text-white">
+                                {unreadCounts[request.id]} unread
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-md capitalize font-medium first-letter:text-xl  first-letter:font-bold text-white text-shadow-blue-200  text-shadow-2xl leading-relaxed p-2">
                             {request.message}
                           </p>
                         </div>
+                        {request.cover_photo_path && (
+                          <img
+                            src={getRequestMediaUrl(request.cover_photo_path)}
+                            alt=""
+                            loading="lazy"
+                            className="h-16 w-16 shrink-0 rounded-lg border border-blue-200 object-cover ml-2"
+                          />
+                        )}
                       </div>
                     </CardHeader>
                     <CardContent className="pt-0">
@@ -251,6 +473,15 @@ const Home = () => {
                         </span>
                       </span>
 
+                      {request.accepted_helpers_count > 0 && (
+                        <p className="flex items-center text-xs text-teal-100 mt-1">
+                          <HandHelping className="h-3 w-3 mr-1" />
+                          {formatHelpersOnTheWay(
+                            request.accepted_helpers_count
+                          )}
+                        </p>
+                      )}
+
                       <div className="flex justify-between mt-4">
                         <div className="flex items-center justify-between">
                           <div className="flex text-[10px] sm:text-xs gap-4  text-white text-shadow-blue-200  text-shadow-2xl">
@@ -282,6 +513,16 @@ const Home = () => {
                   </Card>
                 ))
               )}
+              {hasMore && (
+                <Button
+                  variant="outline"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="w-full rounded-xl border-blue-200 bg-white/10 text-white hover:bg-white/20 hover:text-white"
+                >
+                  {loadingMore ? "Loading..." : "Load more requests"}
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,124 @@
+import React from "react";
+import { ArrowLeft, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useConversations } from "@/hooks/useConversations";
+import { usePresence } from "@/hooks/usePresence";
+import { getUserStatusDotColor } from "@/utils/userStatus";
+import { formatTime } from "@/utils/timeUtils";
+
+const Messages = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { conversations, loading, totalUnread } = useConversations();
+  const { getUserStatus } = usePresence();
+
+  return (
+    <div className="min-h-screen flex flex-col text-shadow-2xl text-white text-shadow-blue-200">
+      {/* Header */}
+      <div className="shadow-sm sticky top-0 border-b-[0.5px] border-blue-200 backdrop-blur-2xl bg-black/10 z-50">
+        <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/")}
+              className="p-2"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-lg font-semibold">Messages</h1>
+              <p className="text-sm">
+                {totalUnread > 0 ? `${totalUnread} unread` : "All caught up"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Threads */}
+      <div className="flex-1 max-w-md max-md:max-w-lg md:max-w-3xl mx-auto w-full px-1 sm:px-4 py-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-600 border-t-transparent"></div>
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageSquare className="h-10 w-10 mx-auto mb-3 opacity-70" />
+            <p className="text-gray-300">
+              No messages yet. Open someone's profile to start a conversation.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {conversations.map((conversation) => {
+              const name =
+                conversation.other_full_name ||
+                conversation.other_username ||
+                "Anonymous";
+              const hasUnread = conversation.unread_count > 0;
+
+              return (
+                <button
+                  key={conversation.conversation_id}
+                  type="button"
+                  onClick={() =>
+                    navigate(`/messages/${conversation.conversation_id}`)
+                  }
+                  className="w-full text-left flex items-center space-x-3 rounded-xl border-[0.5px] border-blue-200 backdrop-blur-sm bg-white/10 px-4 py-3 hover:bg-white/20 transition-colors"
+                >
+                  <div className="relative">
+                    <div className="h-10 w-10 flex items-center justify-center text-lg rounded-full border border-blue-200 bg-white/10">
+                      {conversation.other_avatar_emoji ||
+                        name.charAt(0).toUpperCase()}
+                    </div>
+                    <div
+                      className={`absolute -top-0.5 -right-0.5 w-3 h-3 ${getUserStatusDotColor(
+                        getUserStatus(conversation.other_user_id)
+                      )} border-2 border-white rounded-full`}
+                    ></div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p
+                        className={`text-sm capitalize truncate ${
+                          hasUnread ? "font-bold" : "font-medium"
+                        }`}
+                      >
+                        {name}
+                      </p>
+                      <span className="text-xs text-blue-100 shrink-0">
+                        {formatTime(conversation.last_message_at)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p
+                        className={`text-xs truncate ${
+                          hasUnread ? "text-white" : "text-gray-300"
+                        }`}
+                      >
+                        {conversation.last_message_sender_id === user?.id &&
+                          "You: "}
+                        {conversation.last_message}
+                      </p>
+                      {hasUnread && (
+                        <Badge className="bg-blue-600 text-white shrink-0">
+                          {conversation.unread_count}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Messages;
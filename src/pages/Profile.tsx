@@ -27,12 +27,20 @@ import {
 } from "@/components/ui/select";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresence } from "@/hooks/usePresence";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import RadiusSlider from "@/components/RadiusSlider";
+import {
+  LOCATION_PRIVACY_OPTIONS,
+  type LocationPrivacy,
+} from "@/utils/locationPrivacy";
+import { EMOJIS } from "@/utils/emojis";
 
 const Profile = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { refreshPresenceSettings } = usePresence();
   const [loading, setLoading] = useState(false);
   const [profileData, setProfileData] = useState({
     full_name: "",
@@ -42,6 +50,7 @@ const Profile = () => {
     gender: "",
     home_address: "",
     current_address: "",
+    location_privacy: "approximate",
   });
   const [socialLinks, setSocialLinks] = useState({
     instagram: "",
@@ -52,29 +61,6 @@ const Profile = () => {
   });
   const [avatarEmoji, setAvatarEmoji] = useState("");
 
-  const emojis = [
-    "😊", // smiling
-    "😎", // cool
-    "🚀", // rocket
-    "💪", // strength
-    "🎯", // goal
-    "🌟", // star
-    "🔥", // fire
-    "👨‍💻", // male coder
-    "👩‍💻", // female coder
-    "🏃‍♂️", // man running
-    "🏃‍♀️", // woman running
-    "🎨", // art
-    "📚", // books
-    "🌍", // earth
-    "⚡", // lightning
-    "😀", // classic smile
-    "😄", // cheerful
-    "🥳", // party face
-    "🤓", // nerdy
-    "😌", // relaxed
-  ];
-
   // Fetch existing profile data
   useEffect(() => {
     if (user) {
@@ -86,7 +72,9 @@ const Profile = () => {
     try {
       const { data, error } = await supabase
         .from("profiles")
-        .select("*")
+        .select(
+          "full_name, username, age, gender, location_privacy, social_links, avatar_emoji"
+        )
         .eq("id", user?.id)
         .single();
 
@@ -95,15 +83,25 @@ const Profile = () => {
         return;
       }
 
+      // Phone and addresses are only readable by their owner, through this RPC
+      const { data: contact, error: contactError } = await supabase
+        .rpc("get_own_contact_details")
+        .maybeSingle();
+
+      if (contactError) {
+        console.error("Error fetching contact details:", contactError);
+      }
+
       if (data) {
         setProfileData({
           full_name: data.full_name || "",
           username: data.username || "",
-          phone: data.phone || "",
+          phone: contact?.phone || "",
           age: data.age?.toString() || "",
           gender: data.gender || "",
-          home_address: data.home_address || "",
-          current_address: data.current_address || "",
+          home_address: contact?.home_address || "",
+          current_address: contact?.current_address || "",
+          location_privacy: data.location_privacy || "approximate",
         });
         setSocialLinks({
           instagram: (data.social_links as any)?.instagram || "",
@@ -139,6 +137,7 @@ const Profile = () => {
         gender: profileData.gender || null,
         home_address: profileData.home_address.trim() || null,
         current_address: profileData.current_address.trim() || null,
+        location_privacy: profileData.location_privacy as LocationPrivacy,
         social_links: socialLinks,
         avatar_emoji: avatarEmoji || null,
         updated_at: new Date().toISOString(),
@@ -153,6 +152,9 @@ const Profile = () => {
         throw error;
       }
 
+      // Picks up a change to or from hidden location
+      refreshPresenceSettings();
+
       toast({
         title: "Profile Updated",
         description: "Your profile has been saved successfully.",
@@ -303,7 +305,7 @@ const Profile = () => {
           <CardContent>
             <Label>Choose an emoji avatar</Label>
             <div className="flex flex-wrap gap-1  mt-2">
-              {emojis.map((emoji) => (
+              {EMOJIS.map((emoji) => (
                 <button
                   key={emoji}
                   onClick={() => setAvatarEmoji(emoji)}
@@ -466,6 +468,53 @@ const Profile = () => {
           </CardContent>
         </Card>
 
+        {/* Search Radius */}
+        <Card className="border-b-[0.5px] border-blue-200 backdrop-blur-2xl  bg-white/10 text-white">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <MapPin className="h-5 w-5" />
+              <span>Nearby Search</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <RadiusSlider />
+            <p className="text-xs opacity-70">
+              Used for nearby requests, users and chat. New requests you post
+              reach people within this distance.
+            </p>
+
+            <div className="pt-4">
+              <Label htmlFor="location_privacy">Location privacy</Label>
+              <Select
+                value={profileData.location_privacy}
+                onValueChange={(value) =>
+                  handleInputChange("location_privacy", value)
+                }
+              >
+                <SelectTrigger id="location_privacy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCATION_PRIVACY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs opacity-70 mt-1">
+                {
+                  LOCATION_PRIVACY_OPTIONS.find(
+                    (option) => option.value === profileData.location_privacy
+                  )?.description
+                }
+                . You can still share your exact spot with accepted helpers on
+                each request.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Save Button */}
         <div className="flex justify-end sticky bottom-5">
           <Button
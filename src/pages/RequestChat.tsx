@@ -1,114 +1,205 @@
 import React, { useState, useEffect, useRef } from "react";
-import { ArrowLeft, Send, MessageCircle, Clock, User } from "lucide-react";
+import {
+  ArrowLeft,
+  Send,
+  MessageCircle,
+  Clock,
+  User,
+  CheckCircle2,
+  XCircle,
+  History,
+  HandHelping,
+  Check,
+  X,
+  Hourglass,
+  RefreshCw,
+  Pencil,
+  Trash2,
+  LocateFixed,
+  CheckCheck,
+  Eye,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresence } from "@/hooks/usePresence";
 import { useRequestMessages } from "@/hooks/useRequestMessages";
-import { useHelpRequests } from "@/hooks/useHelpRequests";
-import { formatTime, formatChatTime } from "@/utils/timeUtils";
+import { useRequestChatPresence } from "@/hooks/useRequestChatPresence";
+import { useHelpRequest } from "@/hooks/useHelpRequest";
+import { useHelpCategories } from "@/hooks/useHelpCategories";
+import {
+  formatTime,
+  formatChatTime,
+  formatTimeUntil,
+} from "@/utils/timeUtils";
+import {
+  canTransition,
+  getStatusColor,
+  getStatusLabel,
+  isActiveStatus,
+  formatHelpersOnTheWay,
+  isExpiringSoon,
+  type HelpRequestStatus,
+} from "@/utils/helpRequestStatus";
 import { toast } from "@/hooks/use-toast";
+import LoadOlderMessages from "@/components/LoadOlderMessages";
+import MessageAttachments from "@/components/MessageAttachments";
+import MessageActionsMenu from "@/components/MessageActionsMenu";
+import {
+  QuotedMessage,
+  ReplyingTo,
+  SwipeToReply,
+} from "@/components/MessageReply";
+import { MessageReactions } from "@/components/MessageReactions";
+import { useMessageReactions } from "@/hooks/useMessageReactions";
+import { getMessageElementId, useJumpToMessage } from "@/hooks/useJumpToMessage";
+import RequestPhotoGallery from "@/components/RequestPhotoGallery";
+import LiveLocationPanel from "@/components/LiveLocationPanel";
+import {
+  AttachmentButton,
+  AttachmentPreviews,
+} from "@/components/AttachmentPicker";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  getTombstoneLabel,
+  isDeletedMessage,
+  type ChatMessage,
+} from "@/utils/chatMessages";
 import UserProfileModal from "@/components/UserProfileModal";
+import {
+  getUserStatusDotColor,
+  getUserStatusTextColor,
+} from "@/utils/userStatus";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 
 const RequestChat = () => {
   const navigate = useNavigate();
   const { requestId } = useParams<{ requestId: string }>();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [newMessage, setNewMessage] = useState("");
-  const [userOnlineStatus, setUserOnlineStatus] = useState<{
-    [key: string]: boolean;
-  }>({});
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const { highlightedId, jumpToMessage } = useJumpToMessage();
   const [userDistances, setUserDistances] = useState<{ [key: string]: number }>(
     {}
   );
   const { user, userLocation } = useAuth();
-  const { messages, loading, sendMessage } = useRequestMessages(
+  const { isOnline, getUserStatus } = usePresence();
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    hasOlder,
+    loadOlder,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    getSeenBy,
+  } = useRequestMessages(requestId || null);
+  const { getReactions, toggleReaction } = useMessageReactions(
+    messages,
     requestId || null
   );
-  const { helpRequests, loading: requestLoading } = useHelpRequests();
+  const { viewers, typingUsers, notifyTyping, stopTyping } =
+    useRequestChatPresence(requestId || null);
+  const {
+    helpRequest: currentRequest,
+    statusHistory,
+    editHistory,
+    acceptedHelpers,
+    pendingHelpers,
+    myOffer,
+    loading: requestLoading,
+    isOwner,
+    updateStatus,
+    renew,
+    deleteRequest,
+    location: requestLocation,
+    media,
+    offerHelp,
+    acceptHelper,
+    declineHelper,
+    withdrawHelp,
+    shareLocation,
+  } = useHelpRequest(requestId || null);
+  const { getCategoryColor, getCategoryLabel, getCategoryIcon } =
+    useHelpCategories();
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showEdits, setShowEdits] = useState(false);
 
-  const currentRequest = helpRequests.find((req) => req.id === requestId);
+  // Distance to the requester (blurred by their privacy level)
+  const fetchCreatorDistance = async () => {
+    if (!currentRequest || !userLocation) return;
 
-  // Get online status and distance for users
-  const getOnlineStatusAndDistance = async () => {
-    if (!userLocation || !messages.length) return;
-
-    try {
-      // Get unique user IDs from messages
-      const userIds = [...new Set(messages.map((m) => m.user_id))];
-
-      const { data, error } = await supabase.rpc("get_nearby_users" as any, {
-        user_lat: userLocation.lat,
-        user_lng: userLocation.lng,
-        radius_km: 50, // Wider radius for request chats
-      });
-
-      if (error) {
-        console.error("Error getting user status:", error);
-        return;
+    const { data: creatorDistance, error } = await supabase.rpc(
+      "get_help_request_user_distance",
+      {
+        request_user_id: currentRequest.user_id,
+        current_user_lat: userLocation.lat,
+        current_user_lng: userLocation.lng,
       }
+    );
 
-      const nearbyUsers = (data as any[]) || [];
-
-      // Update online status
-      const statusMap: { [key: string]: boolean } = {};
-      nearbyUsers.forEach((u) => {
-        statusMap[u.user_id] = u.is_online;
-      });
-      setUserOnlineStatus(statusMap);
-
-      // Calculate distances for help request creator and participants
-      const distanceMap: { [key: string]: number } = {};
-
-      if (currentRequest && userLocation) {
-        // Get distance to request creator
-        const { data: creatorDistance } = await supabase.rpc(
-          "get_help_request_user_distance" as any,
-          {
-            request_user_id: currentRequest.user_id,
-            current_user_lat: userLocation.lat,
-            current_user_lng: userLocation.lng,
-          }
-        );
-
-        if (creatorDistance !== null) {
-          distanceMap[currentRequest.user_id] = creatorDistance;
-        }
-      }
+    if (error) {
+      console.error("Error getting requester distance:", error);
+      return;
+    }
 
-      setUserDistances(distanceMap);
-    } catch (error) {
-      console.error("Error getting user status and distance:", error);
+    if (creatorDistance !== null) {
+      setUserDistances({ [currentRequest.user_id]: creatorDistance });
     }
   };
 
+  // "Seen by" is only spelled out under the newest message we sent
+  const lastOwnMessageId = [...messages]
+    .reverse()
+    .find((message) => message.user_id === user?.id)?.id;
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Follow new messages at the bottom, but not older pages loading in at the top
+  const latestMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [latestMessageId]);
 
   useEffect(() => {
-    if (userLocation && messages.length > 0) {
-      getOnlineStatusAndDistance();
-      const interval = setInterval(getOnlineStatusAndDistance, 10000);
-      return () => clearInterval(interval);
-    }
-  }, [userLocation, messages.length, currentRequest]);
+    fetchCreatorDistance();
+  }, [userLocation, currentRequest?.user_id]);
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim()) return;
+    if (!newMessage.trim() && attachments.length === 0) return;
 
     const messageText = newMessage.trim();
+    const files = attachments;
+    const replyTo = replyingTo;
     setNewMessage("");
+    setAttachments([]);
+    setReplyingTo(null);
+    stopTyping();
 
-    const { error } = await sendMessage(messageText);
+    const { error } = await sendMessage(
+      messageText,
+      files,
+      replyTo?.id ?? null
+    );
     if (error) {
       toast({
         title: "Error",
@@ -116,19 +207,139 @@ const RequestChat = () => {
         variant: "destructive",
       });
       setNewMessage(messageText); // Restore the message
+      setAttachments(files);
+      setReplyingTo(replyTo);
+    }
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    const { error } = await toggleReaction(messageId, emoji);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Couldn't update your reaction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+    if (!jumpToMessage(messageId)) {
+      toast({
+        title: "Original message not loaded",
+        description: "Load older messages to find it.",
+      });
+    }
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (value.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
+  const formatTypingUsers = () => {
+    const names = typingUsers.map((typist) => typist.name);
+    if (names.length === 1) return `${names[0]} is typing…`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+    return `${names.length} people are typing…`;
+  };
+
+  const handleStatusChange = async (status: HelpRequestStatus) => {
+    setUpdatingStatus(true);
+    const { error } = await updateStatus(status);
+    setUpdatingStatus(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update request status. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const descriptions: Partial<Record<HelpRequestStatus, string>> = {
+      resolved: "Thanks for letting everyone know you got help.",
+      cancelled: "Your request is no longer visible to nearby users.",
+      in_progress: "The requester can see that you're on your way.",
+    };
+
+    toast({
+      title: `Request ${getStatusLabel(status).toLowerCase()}`,
+      description: descriptions[status],
+    });
+  };
+
+  const runHelperAction = async (
+    action: () => Promise<{ error?: string }>,
+    successTitle: string,
+    successDescription: string
+  ) => {
+    setUpdatingStatus(true);
+    const { error } = await action();
+    setUpdatingStatus(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+      return;
     }
+
+    toast({ title: successTitle, description: successDescription });
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors = {
-      Medical: "bg-red-100 text-red-800 border-red-200",
-      Food: "bg-orange-100 text-orange-800 border-orange-200",
-      Vehicle: "bg-blue-100 text-blue-800 border-blue-200",
-      Other: "bg-gray-100 text-gray-800 border-gray-200",
+  const handleDelete = async () => {
+    const { error } = await deleteRequest();
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete request. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Request deleted",
+      description: "Your request and its chat have been removed.",
+    });
+    navigate("/");
+  };
+
+  // Human-readable summary of one edit-history entry
+  const describeEdit = (changes: Record<string, { from: unknown; to: unknown }>) => {
+    const labels: Record<string, string> = {
+      message: "Message",
+      category: "Category",
+      is_urgent: "Urgency",
     };
-    return colors[category as keyof typeof colors] || colors.Other;
+    const formatValue = (field: string, value: unknown) => {
+      if (field === "is_urgent") return value ? "urgent" : "normal";
+      if (field === "category") return getCategoryLabel(value as string);
+      return value ? `"${value}"` : "none";
+    };
+
+    // Moves are logged without the places, which the edit history would otherwise leak
+    return Object.entries(changes).map(([field, { from, to }]) =>
+      field === "location"
+        ? "Location changed"
+        : `${labels[field] || field}: ${formatValue(
+            field,
+            from
+          )} → ${formatValue(field, to)}`
+    );
   };
 
+  const canOfferHelp =
+    !myOffer || myOffer.status === "declined" || myOffer.status === "withdrawn";
+
   if (!requestId) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-teal-50 flex items-center justify-center">
@@ -167,13 +378,22 @@ const RequestChat = () => {
                         currentRequest.category
                       )}`}
                     >
-                      {currentRequest.category}
+                      {getCategoryIcon(currentRequest.category)}{" "}
+                      {getCategoryLabel(currentRequest.category)}
                     </Badge>
                     {currentRequest.is_urgent && (
                       <Badge variant="destructive" className="text-xs">
                         Urgent
                       </Badge>
                     )}
+                    <Badge
+                      variant="outline"
+                      className={`text-xs ${getStatusColor(
+                        currentRequest.status
+                      )}`}
+                    >
+                      {getStatusLabel(currentRequest.status)}
+                    </Badge>
                   </div>
                 )}
               </div>
@@ -187,6 +407,27 @@ const RequestChat = () => {
               <User className="h-5 w-5" />
             </Button>
           </div>
+          {viewers.length > 0 && (
+            <div className="flex items-center mt-3 space-x-2">
+              <Eye className="h-3.5 w-3.5 shrink-0" />
+              <div className="flex -space-x-2">
+                {viewers.slice(0, 5).map((viewer) => (
+                  <div
+                    key={viewer.user_id}
+                    title={viewer.name}
+                    className="h-6 w-6 flex items-center justify-center rounded-full border-2 border-white bg-blue-600 text-[11px] font-semibold"
+                  >
+                    {viewer.avatar_emoji || viewer.name.charAt(0).toUpperCase()}
+                  </div>
+                ))}
+              </div>
+              <span className="text-xs truncate">
+                {viewers.length === 1
+                  ? `${viewers[0].name} is here`
+                  : `${viewers.length} others viewing`}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -198,14 +439,70 @@ const RequestChat = () => {
             <div className="h-3 bg-gray-300 rounded w-1/2 mt-2"></div>
           </CardHeader>
         </div>
+      ) : !currentRequest ? (
+        <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto px-1 sm:px-4 py-3 ">
+          <Card>
+            <CardContent className="p-6 text-center">
+              <p className="text-gray-500">This help request could not be found.</p>
+            </CardContent>
+          </Card>
+        </div>
       ) : (
         <div>
           <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto px-1 sm:px-4 py-3 ">
             <Card>
               <CardHeader className="pb-2">
-                <p className="text-sm font-medium text-gray-900">
-                  {currentRequest.message}
-                </p>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900">
+                    {currentRequest.message}
+                    {currentRequest.edited_at && (
+                      <span className="ml-1 text-xs font-normal text-gray-400">
+                        (edited)
+                      </span>
+                    )}
+                  </p>
+                  {isOwner && (
+                    <div className="flex shrink-0">
+                      {isActiveStatus(currentRequest.status) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => navigate(`/ask-help/${requestId}`)}
+                          className="h-7 w-7 p-0 text-gray-500"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-red-500"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this request?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The request and all of its chat messages will be
+                              permanently removed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep it</AlertDialogCancel>
+                            <AlertDialogAction onClick={handleDelete}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
+                </div>
+                <RequestPhotoGallery media={media} />
               </CardHeader>
               <CardContent className="pt-0">
                 <div className="flex items-center space-x-4 text-xs text-gray-500">
@@ -220,7 +517,8 @@ const RequestChat = () => {
                       currentRequest.profiles?.username ||
                       "Anonymous"
                     }
-                    isOnline={userOnlineStatus[currentRequest.user_id] || false}
+                    isOnline={isOnline(currentRequest.user_id)}
+                    status={getUserStatus(currentRequest.user_id)}
                     distance={userDistances[currentRequest.user_id]}
                   >
                     <button className="capitalize font-bold  text-[14px] text-blue-600 transition-colors">
@@ -228,8 +526,14 @@ const RequestChat = () => {
                       {currentRequest.profiles?.full_name.slice(0, 10) ||
                         currentRequest.profiles?.username.slice(0, 10) ||
                         "Anonymous"}
-                      {userOnlineStatus[currentRequest.user_id] && (
-                        <span className="ml-2 text-green-600">●</span>
+                      {isOnline(currentRequest.user_id) && (
+                        <span
+                          className={`ml-2 ${getUserStatusTextColor(
+                            getUserStatus(currentRequest.user_id)
+                          )}`}
+                        >
+                          ●
+                        </span>
                       )}
                       {userDistances[currentRequest.user_id] && (
                         <span className="ml-2 text-xs text-gray-500">
@@ -247,6 +551,395 @@ const RequestChat = () => {
                     </button>
                   </UserProfileModal>
                 </div>
+
+                {currentRequest.expires_at &&
+                  (isActiveStatus(currentRequest.status) ||
+                    currentRequest.status === "expired") && (
+                    <div className="flex items-center text-xs text-gray-500 mt-2">
+                      <Hourglass className="h-3 w-3 mr-1" />
+                      {currentRequest.status === "expired"
+                        ? "This request has expired"
+                        : `Expires ${formatTimeUntil(currentRequest.expires_at)}`}
+                      {currentRequest.escalation_level > 0 && (
+                        <span className="ml-2 text-orange-600">
+                          • Shown to a wider area
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                {isOwner &&
+                  (currentRequest.status === "expired" ||
+                    (isActiveStatus(currentRequest.status) &&
+                      isExpiringSoon(currentRequest.expires_at))) && (
+                    <div className="mt-3 p-3 rounded-lg bg-orange-50 border border-orange-200">
+                      <p className="text-xs text-orange-800">
+                        {currentRequest.status === "expired"
+                          ? "Still need help? Renew your request to show it to nearby users again."
+                          : "Your request is about to expire. Renew it if you still need help, or close it."}
+                      </p>
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={updatingStatus}
+                          onClick={() =>
+                            runHelperAction(
+                              renew,
+                              "Request renewed",
+                              "Your request will stay visible for longer."
+                            )
+                          }
+                          className="flex-1 text-orange-700 border-orange-200 hover:bg-orange-100"
+                        >
+                          <RefreshCw className="mr-1 h-4 w-4" />
+                          Renew
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={updatingStatus}
+                          onClick={() =>
+                            handleStatusChange(
+                              currentRequest.status === "expired"
+                                ? "cancelled"
+                                : "resolved"
+                            )
+                          }
+                          className="flex-1 text-gray-700 border-gray-200 hover:bg-gray-100"
+                        >
+                          Close
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                {acceptedHelpers.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-xs font-medium text-teal-700 flex items-center">
+                      <HandHelping className="h-3 w-3 mr-1" />
+                      {formatHelpersOnTheWay(acceptedHelpers.length)}
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                      {acceptedHelpers.map((helper) => (
+                        <li
+                          key={helper.id}
+                          className="flex items-center justify-between text-xs text-gray-600"
+                        >
+                          <span className="capitalize">
+                            {helper.profiles?.avatar_emoji}{" "}
+                            {helper.helper_id === user?.id
+                              ? "You"
+                              : helper.profiles?.full_name ||
+                                helper.profiles?.username ||
+                                "Anonymous"}
+                          </span>
+                          <span>accepted {formatTime(helper.accepted_at)}</span>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {isOwner && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={updatingStatus}
+                        onClick={() =>
+                          runHelperAction(
+                            () =>
+                              shareLocation(
+                                !currentRequest.precise_location_shared
+                              ),
+                            currentRequest.precise_location_shared
+                              ? "Location hidden"
+                              : "Location shared",
+                            currentRequest.precise_location_shared
+                              ? "Helpers now see your approximate location."
+                              : "Accepted helpers can now see the exact spot."
+                          )
+                        }
+                        className="mt-2 w-full text-teal-700 border-teal-200 hover:bg-teal-50"
+                      >
+                        <LocateFixed className="mr-1 h-4 w-4" />
+                        {currentRequest.precise_location_shared
+                          ? "Stop sharing precise location"
+                          : "Share precise location with helpers"}
+                      </Button>
+                    )}
+
+                    {myOffer?.status === "accepted" && requestLocation && (
+                      <div className="mt-2 text-xs text-gray-600 flex items-center">
+                        <LocateFixed className="h-3 w-3 mr-1" />
+                        {requestLocation.is_precise ? (
+                          <>
+                            <span className="truncate">
+                              {requestLocation.location_name ||
+                                "Precise location shared"}
+                            </span>
+                            <a
+                              href={`https://www.google.com/maps?q=${requestLocation.lat},${requestLocation.lng}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="ml-2 text-blue-600 underline shrink-0"
+                            >
+                              Open in Maps
+                            </a>
+                          </>
+                        ) : (
+                          "Approximate location only until the requester shares the exact spot"
+                        )}
+                      </div>
+                    )}
+
+                    {(isOwner || myOffer?.status === "accepted") &&
+                      isActiveStatus(currentRequest.status) && (
+                        <LiveLocationPanel helpRequestId={currentRequest.id} />
+                      )}
+                  </div>
+                )}
+
+                {isOwner && pendingHelpers.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-xs font-medium text-gray-700">
+                      Offers to help
+                    </p>
+                    <ul className="mt-1 space-y-2">
+                      {pendingHelpers.map((offer) => (
+                        <li
+                          key={offer.id}
+                          className="flex items-center justify-between text-xs text-gray-600"
+                        >
+                          <div>
+                            <span className="capitalize font-medium">
+                              {offer.profiles?.full_name ||
+                                offer.profiles?.username ||
+                                "Anonymous"}
+                            </span>
+                            <span className="ml-1">
+                              {formatTime(offer.offered_at)}
+                            </span>
+                            {offer.message && (
+                              <p className="italic">{offer.message}</p>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={updatingStatus}
+                              onClick={() =>
+                                runHelperAction(
+                                  () => acceptHelper(offer.id),
+                                  "Helper accepted",
+                                  "They'll see on this request that you accepted their help."
+                                )
+                              }
+                              className="h-7 px-2 text-teal-700 border-teal-200"
+                            >
+                              <Check className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={updatingStatus}
+                              onClick={() =>
+                                runHelperAction(
+                                  () => declineHelper(offer.id),
+                                  "Offer declined",
+                                  "The offer has been declined."
+                                )
+                              }
+                              className="h-7 px-2 text-red-600 border-red-200"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {!isOwner && isActiveStatus(currentRequest.status) && (
+                  <div className="flex gap-2 mt-4">
+                    {canOfferHelp ? (
+                      <Button
+                        size="sm"
+                        disabled={updatingStatus}
+                        onClick={() =>
+                          runHelperAction(
+                            () => offerHelp(),
+                            "Offer sent",
+                            "The requester will be asked to accept your help."
+                          )
+                        }
+                        className="flex-1 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700"
+                      >
+                        <HandHelping className="mr-1 h-4 w-4" />
+                        I can help
+                      </Button>
+                    ) : (
+                      <>
+                        <span className="flex-1 self-center text-xs text-gray-600">
+                          {myOffer.status === "accepted"
+                            ? "You're helping with this request"
+                            : "Waiting for the requester to accept"}
+                        </span>
+                        {myOffer.status === "accepted" &&
+                          canTransition(currentRequest.status, "in_progress") &&
+                          currentRequest.status !== "in_progress" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={updatingStatus}
+                              onClick={() => handleStatusChange("in_progress")}
+                              className="text-blue-600 border-blue-200 hover:bg-blue-50"
+                            >
+                              On my way
+                            </Button>
+                          )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={updatingStatus}
+                          onClick={() =>
+                            runHelperAction(
+                              () => withdrawHelp(),
+                              "Offer withdrawn",
+                              "You are no longer listed as a helper."
+                            )
+                          }
+                          className="text-red-600 border-red-200 hover:bg-red-50"
+                        >
+                          Withdraw
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {isOwner && isActiveStatus(currentRequest.status) && (
+                  <div className="flex gap-2 mt-4">
+                    {canTransition(currentRequest.status, "resolved") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={updatingStatus}
+                        onClick={() => handleStatusChange("resolved")}
+                        className="flex-1 text-teal-700 border-teal-200 hover:bg-teal-50"
+                      >
+                        <CheckCircle2 className="mr-1 h-4 w-4" />
+                        Mark resolved
+                      </Button>
+                    )}
+                    {canTransition(currentRequest.status, "cancelled") && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={updatingStatus}
+                            className="flex-1 text-red-600 border-red-200 hover:bg-red-50"
+                          >
+                            <XCircle className="mr-1 h-4 w-4" />
+                            Cancel request
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel this request?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Nearby users will no longer see it. This cannot
+                              be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep it open</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleStatusChange("cancelled")}
+                            >
+                              Cancel request
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                )}
+
+                {editHistory.length > 0 && (
+                  <div className="mt-3">
+                    <button
+                      onClick={() => setShowEdits(!showEdits)}
+                      className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      <Pencil className="h-3 w-3 mr-1" />
+                      {showEdits ? "Hide" : "Show"} edit history (
+                      {editHistory.length})
+                    </button>
+                    {showEdits && (
+                      <ul className="mt-2 space-y-2">
+                        {editHistory.map((edit) => (
+                          <li key={edit.id} className="text-xs text-gray-600">
+                            <span className="text-gray-400">
+                              {formatTime(edit.created_at)}
+                            </span>
+                            {describeEdit(
+                              edit.changes as Record<
+                                string,
+                                { from: unknown; to: unknown }
+                              >
+                            ).map((line) => (
+                              <p key={line}>{line}</p>
+                            ))}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {statusHistory.length > 0 && (
+                  <div className="mt-3">
+                    <button
+                      onClick={() => setShowHistory(!showHistory)}
+                      className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      <History className="h-3 w-3 mr-1" />
+                      {showHistory ? "Hide" : "Show"} status history
+                    </button>
+                    {showHistory && (
+                      <ul className="mt-2 space-y-1">
+                        {statusHistory.map((entry) => (
+                          <li
+                            key={entry.id}
+                            className="flex items-center justify-between text-xs text-gray-600"
+                          >
+                            <span>
+                              {entry.from_status
+                                ? `${getStatusLabel(
+                                    entry.from_status
+                                  )} → ${getStatusLabel(entry.to_status)}`
+                                : getStatusLabel(entry.to_status)}
+                              {entry.profiles && (
+                                <span className="capitalize">
+                                  {" "}
+                                  by{" "}
+                                  {entry.profiles.full_name ||
+                                    entry.profiles.username}
+                                </span>
+                              )}
+                              {entry.note && (
+                                <span className="italic"> – {entry.note}</span>
+                              )}
+                            </span>
+                            <span>{formatTime(entry.created_at)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -268,6 +961,11 @@ const RequestChat = () => {
           </div>
         ) : (
           <div className="space-y-4 ">
+            <LoadOlderMessages
+              hasOlder={hasOlder}
+              loading={loadingOlder}
+              onLoadOlder={loadOlder}
+            />
             {messages.length === 0 ? (
               <div className="text-center py-8">
                 <MessageCircle className="h-12 w-12 text-white mx-auto mb-3" />
@@ -283,57 +981,138 @@ const RequestChat = () => {
                   : message.profiles?.full_name ||
                     message.profiles?.username ||
                     "Anonymous";
+                const seenBy = isOwnMessage ? getSeenBy(message) : [];
 
                 return (
                   <div
                     key={message.id}
+                    id={getMessageElementId(message.id)}
                     className={`flex ${
                       isOwnMessage ? "justify-end" : "justify-start"
                     }`}
                   >
-                    <div
-                      className={`max-w-[80%] rounded-xl px-4 py-3 border-[0.5px] border-blue-200 backdrop-blur-md bg-white/10 
-                        
-                      `}
+                    <SwipeToReply
+                      onReply={() => setReplyingTo(message)}
+                      disabled={message.pending || isDeletedMessage(message)}
                     >
-                      {!isOwnMessage && (
-                        <div className="flex items-center justify-between mb-1">
-                          <UserProfileModal
-                            userId={message.user_id}
-                            userName={userName}
-                            isOnline={
-                              userOnlineStatus[message.user_id] || false
-                            }
-                            distance={userDistances[message.user_id]}
+                      <MessageActionsMenu
+                        message={message}
+                        canEdit={isOwnMessage}
+                        canDelete={isOwnMessage || isOwner}
+                        isModerating={!isOwnMessage && isOwner}
+                        maxLength={200}
+                        onReply={() => setReplyingTo(message)}
+                        onReact={(emoji) => handleToggleReaction(message.id, emoji)}
+                        onEdit={editMessage}
+                        onDelete={deleteMessage}
+                      >
+                        <div
+                          className={`rounded-xl px-4 py-3 border-[0.5px] border-blue-200 backdrop-blur-md bg-white/10 transition-shadow ${
+                            highlightedId === message.id ? "ring-2 ring-sky-300" : ""
+                          }`}
+                        >
+                          {!isOwnMessage && (
+                            <div className="flex items-center justify-between mb-1">
+                              <UserProfileModal
+                                userId={message.user_id}
+                                userName={userName}
+                                isOnline={
+                                  isOnline(message.user_id)
+                                }
+                                status={getUserStatus(message.user_id)}
+                                distance={userDistances[message.user_id]}
+                              >
+                                <button className="flex items-center space-x-2 hover:opacity-80 transition-opacity">
+                                  <div
+                                    className={`w-2 h-2 rounded-full ${getUserStatusDotColor(
+                                      getUserStatus(message.user_id)
+                                    )}`}
+                                  ></div>
+                                  <span className="text-[13px] font-medium text-blue-600 capitalize">
+                                    {userName}
+                                  </span>
+                                </button>
+                              </UserProfileModal>
+                            </div>
+                          )}
+                          {isDeletedMessage(message) ? (
+                            <p className="text-sm italic text-white/70">
+                              {getTombstoneLabel(message)}
+                            </p>
+                          ) : (
+                            <>
+                              {message.reply_to_message_id && (
+                                <QuotedMessage
+                                  messageId={message.reply_to_message_id}
+                                  messages={messages}
+                                  currentUserId={user?.id}
+                                  onJump={handleJumpToMessage}
+                                />
+                              )}
+                              <MessageAttachments
+                                attachments={message.attachments}
+                                uploading={message.uploading}
+                              />
+                              {message.message && (
+                                <p className={`text-sm leading-relaxed text-white`}>
+                                  {message.message}
+                                </p>
+                              )}
+                            </>
+                          )}
+                          <p
+                            className={`text-xs mt-1 text-white ${
+                              isOwnMessage
+                                ? "flex justify-end"
+                                : " flex justify-start"
+                            }`}
                           >
-                            <button className="flex items-center space-x-2 hover:opacity-80 transition-opacity">
-                              <div
-                                className={`w-2 h-2 rounded-full ${
-                                  userOnlineStatus[message.user_id]
-                                    ? "bg-green-500"
-                                    : "bg-gray-400"
-                                }`}
-                              ></div>
-                              <span className="text-[13px] font-medium text-blue-600 capitalize">
-                                {userName}
-                              </span>
-                            </button>
-                          </UserProfileModal>
+                            {formatChatTime(message.created_at)}
+                            {message.edited_at && !isDeletedMessage(message) && (
+                              <span className="ml-1 italic">(edited)</span>
+                            )}
+                            {isOwnMessage &&
+                              (message.pending ? (
+                                <Clock
+                                  className="h-3.5 w-3.5 ml-1 text-white/70"
+                                  aria-label="Sending"
+                                />
+                              ) : seenBy.length > 0 ? (
+                                <CheckCheck
+                                  className="h-3.5 w-3.5 ml-1 text-sky-300"
+                                  aria-label="Seen"
+                                />
+                              ) : (
+                                <Check
+                                  className="h-3.5 w-3.5 ml-1 text-white/70"
+                                  aria-label="Delivered"
+                                />
+                              ))}
+                          </p>
+                          {message.id === lastOwnMessageId &&
+                            seenBy.length > 0 && (
+                              <p className="text-[11px] mt-1 text-right text-sky-200">
+                                Seen by{" "}
+                                {seenBy
+                                  .map(
+                                    (read) =>
+                                      read.profiles?.full_name ||
+                                      read.profiles?.username ||
+                                      "Anonymous"
+                                  )
+                                  .join(", ")}
+                              </p>
+                            )}
                         </div>
+                      </MessageActionsMenu>
+                      {!isDeletedMessage(message) && (
+                        <MessageReactions
+                          reactions={getReactions(message.id)}
+                          onToggle={(emoji) => handleToggleReaction(message.id, emoji)}
+                          alignEnd={isOwnMessage}
+                        />
                       )}
-                      <p className={`text-sm leading-relaxed text-white`}>
-                        {message.message}
-                      </p>
-                      <p
-                        className={`text-xs mt-1 text-white ${
-                          isOwnMessage
-                            ? "flex justify-end"
-                            : " flex justify-start"
-                        }`}
-                      >
-                        {formatChatTime(message.created_at)}
-                      </p>
-                    </div>
+                    </SwipeToReply>
                   </div>
                 );
               })
@@ -346,10 +1125,25 @@ const RequestChat = () => {
       {/* Message Input */}
       <div className=" border-t-[0.5px] border-blue-200 backdrop-blur-md  bg-black/10 sticky bottom-0 p-4">
         <div className="max-w-md max-md:max-w-lg md:max-w-3xl mx-auto">
+          {typingUsers.length > 0 && (
+            <p className="text-xs italic text-white mb-2 px-2">
+              {formatTypingUsers()}
+            </p>
+          )}
+          {replyingTo && (
+            <ReplyingTo
+              message={replyingTo}
+              currentUserId={user?.id}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+          <AttachmentPreviews files={attachments} onChange={setAttachments} />
           <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <AttachmentButton files={attachments} onChange={setAttachments} />
             <Input
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => handleMessageChange(e.target.value)}
+              onBlur={stopTyping}
               placeholder="Type your message..."
               className="flex-1 rounded-full focus:border-white focus:ring-white"
               maxLength={200}
@@ -357,9 +1151,11 @@ const RequestChat = () => {
             <Button
               type="submit"
               size="sm"
-              disabled={!newMessage.trim()}
+              disabled={!newMessage.trim() && attachments.length === 0}
               className={`rounded-full h-10 w-10 p-0 bg-gradient-to-r from-blue-600 to-teal-600 border-2 hover:from-blue-700 hover:to-teal-700 ${
-                !newMessage.trim() ? "border-gray-400" : " border-white"
+                !newMessage.trim() && attachments.length === 0
+                  ? "border-gray-400"
+                  : " border-white"
               }`}
             >
               <Send className="h-4 w-4" />
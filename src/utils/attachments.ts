@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { loadImage, resizeImage } from './imageProcessing';
+
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+// Matches the bucket's file_size_limit; checked before compression so huge files fail fast
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+];
+
+// Photos are scaled down before upload; thumbnails are what the bubbles show
+const MAX_IMAGE_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+
+// A type rather than an interface so it can be written to the JSON column as is
+export type MessageAttachment = {
+  path: string;
+  thumbnail_path: string | null;
+  name: string;
+  mime_type: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+};
+
+export const isImageType = (mimeType: string) => mimeType.startsWith('image/');
+
+export const validateAttachment = (file: File): string | null => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: only images (JPEG, PNG, WebP, GIF) and PDFs can be shared`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// The attachments column is untyped JSON; keep only well-formed entries
+export const getMessageAttachments = (attachments: Json | undefined): MessageAttachment[] =>
+  Array.isArray(attachments)
+    ? (attachments as unknown as MessageAttachment[]).filter(
+        (a) => a && typeof a.path === 'string' && typeof a.mime_type === 'string'
+      )
+    : [];
+
+export const getAttachmentUrl = (path: string) =>
+  supabase.storage.from(ATTACHMENTS_BUCKET).getPublicUrl(path).data.publicUrl;
+
+const uploadObject = async (path: string, body: Blob, contentType: string) => {
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, body, { contentType, upsert: false });
+  if (error) throw error;
+};
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-80) || 'file';
+
+// Compress (images only), upload with a thumbnail, and describe the result for messages.attachments
+export const uploadAttachment = async (
+  file: File,
+  userId: string,
+  messageId: string,
+  index: number
+): Promise<MessageAttachment> => {
+  const folder = `${userId}/${messageId}/${index}`;
+  const name = safeFileName(file.name);
+
+  // GIFs would lose their animation on a canvas, so they go up as-is
+  if (!isImageType(file.type) || file.type === 'image/gif') {
+    const path = `${folder}-${name}`;
+    await uploadObject(path, file, file.type);
+    return {
+      path,
+      thumbnail_path: null,
+      name: file.name,
+      mime_type: file.type,
+      size: file.size,
+      width: null,
+      height: null,
+    };
+  }
+
+  // PNGs keep transparency; everything else becomes a JPEG
+  const outputType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  const extension = outputType === 'image/png' ? 'png' : 'jpg';
+  const image = await loadImage(file);
+  const full = await resizeImage(image, MAX_IMAGE_DIMENSION, outputType);
+  const thumbnail = await resizeImage(image, THUMBNAIL_DIMENSION, 'image/jpeg');
+
+  const path = `${folder}-${name.replace(/\.\w+$/, '')}.${extension}`;
+  const thumbnailPath = `${folder}-thumb.jpg`;
+  await uploadObject(path, full.blob, outputType);
+  await uploadObject(thumbnailPath, thumbnail.blob, 'image/jpeg');
+
+  return {
+    path,
+    thumbnail_path: thumbnailPath,
+    name: file.name,
+    mime_type: outputType,
+    size: full.blob.size,
+    width: full.width,
+    height: full.height,
+  };
+};
+
+// Best effort: drop objects uploaded for a message that then failed to send
+export const removeAttachments = async (attachments: MessageAttachment[]) => {
+  const paths = attachments.flatMap((a) => [a.path, a.thumbnail_path].filter(Boolean) as string[]);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+  if (error) console.error('Error removing attachments:', error);
+};
+
+// All or nothing: if any file fails, the ones already uploaded are removed again
+export const uploadAttachments = async (files: File[], userId: string, messageId: string) => {
+  const results = await Promise.allSettled(
+    files.map((file, index) => uploadAttachment(file, userId, messageId, index))
+  );
+  const uploaded = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+  if (failure) {
+    await removeAttachments(uploaded);
+    throw failure.reason;
+  }
+  return uploaded;
+};
@@ -0,0 +1,24 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type HelpCategory = Database['public']['Tables']['help_categories']['Row'];
+
+// help_categories.color is a palette key; classes are listed here so Tailwind keeps them
+const CATEGORY_PALETTE: Record<string, { badge: string; hex: string }> = {
+  red: { badge: 'bg-red-100 text-red-800 border-red-200', hex: '#dc2626' },
+  orange: { badge: 'bg-orange-100 text-orange-800 border-orange-200', hex: '#ea580c' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-800 border-yellow-200', hex: '#ca8a04' },
+  green: { badge: 'bg-green-100 text-green-800 border-green-200', hex: '#16a34a' },
+  teal: { badge: 'bg-teal-100 text-teal-800 border-teal-200', hex: '#0d9488' },
+  blue: { badge: 'bg-blue-100 text-blue-800 border-blue-200', hex: '#2563eb' },
+  purple: { badge: 'bg-purple-100 text-purple-800 border-purple-200', hex: '#9333ea' },
+  pink: { badge: 'bg-pink-100 text-pink-800 border-pink-200', hex: '#db2777' },
+  gray: { badge: 'bg-gray-100 text-gray-800 border-gray-200', hex: '#4b5563' },
+};
+
+export const getPaletteBadgeClasses = (color: string | null | undefined) => {
+  return (CATEGORY_PALETTE[color || 'gray'] || CATEGORY_PALETTE.gray).badge;
+};
+
+export const getPaletteHex = (color: string | null | undefined) => {
+  return (CATEGORY_PALETTE[color || 'gray'] || CATEGORY_PALETTE.gray).hex;
+};
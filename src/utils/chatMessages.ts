@@ -0,0 +1,213 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getMessageAttachments } from './attachments';
+
+export type MessageRow = Database['public']['Tables']['messages']['Row'];
+export type MessageEdit = Database['public']['Tables']['message_edits']['Row'];
+
+export interface MessageAuthor {
+  username: string | null;
+  full_name: string | null;
+}
+
+export type ChatMessage = MessageRow & {
+  profiles: MessageAuthor | null;
+  // Shown straight away on send, cleared once the server row comes back
+  pending?: boolean;
+  // Files still uploading for a pending message
+  uploading?: number;
+};
+
+const UNKNOWN_AUTHOR: MessageAuthor = { username: null, full_name: null };
+
+// Authors seen so far, shared by every chat so a realtime row rarely needs a lookup
+const authorCache = new Map<string, MessageAuthor>();
+const authorRequests = new Map<string, Promise<MessageAuthor>>();
+
+export const rememberAuthors = (messages: ChatMessage[]) => {
+  messages.forEach((message) => {
+    if (message.profiles) authorCache.set(message.user_id, message.profiles);
+  });
+};
+
+export const getCachedAuthor = (userId: string) => authorCache.get(userId) ?? null;
+
+export const fetchAuthor = (userId: string): Promise<MessageAuthor> => {
+  const cached = authorCache.get(userId);
+  if (cached) return Promise.resolve(cached);
+
+  // One request per author even if several of their messages arrive at once
+  let request = authorRequests.get(userId);
+  if (!request) {
+    request = Promise.resolve(
+      supabase
+        .from('profiles')
+        .select('username, full_name')
+        .eq('id', userId)
+        .maybeSingle()
+    )
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching message author:', error);
+          return UNKNOWN_AUTHOR;
+        }
+        const author = data || UNKNOWN_AUTHOR;
+        authorCache.set(userId, author);
+        return author;
+      })
+      .finally(() => authorRequests.delete(userId));
+    authorRequests.set(userId, request);
+  }
+  return request;
+};
+
+// All the list helpers below need, so group chat rows can use them too
+type ListedMessage = Pick<MessageRow, 'id' | 'created_at'> & { profiles: unknown };
+
+const compareMessages = (a: ListedMessage, b: ListedMessage) => {
+  const byTime =
+    new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime();
+  return byTime !== 0 ? byTime : a.id.localeCompare(b.id);
+};
+
+// Insert or replace by id, keeping the list oldest-first; an incoming row
+// without an author keeps the one we already had
+export const upsertMessage = <T extends ListedMessage>(messages: T[], message: T): T[] => {
+  const existing = messages.find((m) => m.id === message.id);
+  const merged = existing
+    ? { ...existing, ...message, profiles: message.profiles ?? existing.profiles }
+    : message;
+
+  return [...messages.filter((m) => m.id !== message.id), merged].sort(compareMessages);
+};
+
+export const mergeMessages = <T extends ListedMessage>(messages: T[], incoming: T[]): T[] =>
+  incoming.reduce((list, message) => upsertMessage(list, message), messages);
+
+export const removeMessage = <T extends ListedMessage>(messages: T[], messageId: string): T[] =>
+  messages.filter((m) => m.id !== messageId);
+
+export const setAuthor = <T extends ChatMessage>(
+  messages: T[],
+  userId: string,
+  author: MessageAuthor
+): T[] =>
+  messages.map((m) => (m.user_id === userId && !m.profiles?.full_name && !m.profiles?.username
+    ? { ...m, profiles: author }
+    : m));
+
+export const latestCreatedAt = (messages: ChatMessage[]) =>
+  messages.reduce<string | null>(
+    (latest, m) =>
+      !m.pending && m.created_at && (!latest || new Date(m.created_at) > new Date(latest))
+        ? m.created_at
+        : latest,
+    null
+  );
+
+export const isDeletedMessage = (message: Pick<MessageRow, 'deleted_at'>) => !!message.deleted_at;
+
+// Tombstone wording depends on who removed it: the author, or the requester moderating their chat
+export const getTombstoneLabel = (message: Pick<MessageRow, 'user_id' | 'deleted_by'>) =>
+  message.deleted_by && message.deleted_by !== message.user_id
+    ? 'Message removed by the requester'
+    : 'This message was deleted';
+
+// The trigger on messages records the previous text and stamps edited_at
+export const editMessageText = async (messageId: string, message: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ message })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error editing message:', error);
+    return { error: error.message };
+  }
+
+  return { data };
+};
+
+// The database removes the attachment files along with the text
+export const deleteChatMessage = async (message: MessageRow) => {
+  const { data, error } = await supabase.rpc('delete_message', {
+    target_message_id: message.id,
+  });
+
+  if (error) {
+    console.error('Error deleting message:', error);
+    return { error: error.message };
+  }
+
+  return { data };
+};
+
+// Earlier versions of a message, newest first
+export const fetchMessageEdits = async (messageId: string) => {
+  const { data, error } = await supabase
+    .from('message_edits')
+    .select('*')
+    .eq('message_id', messageId)
+    .order('edited_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching message edits:', error);
+    return { error: error.message };
+  }
+
+  return { data: data || [] };
+};
+
+// Quoted messages that aren't in the loaded page, fetched once each and then kept
+// current by the chat hooks as edits and deletes come in over realtime
+const quotedRequests = new Map<string, Promise<MessageRow | null>>();
+const quotedListeners = new Set<(messageId: string, message: MessageRow | null) => void>();
+
+export const onQuotedMessageChange = (
+  listener: (messageId: string, message: MessageRow | null) => void
+) => {
+  quotedListeners.add(listener);
+  return () => {
+    quotedListeners.delete(listener);
+  };
+};
+
+// null when the row itself was deleted
+export const updateQuotedMessage = (messageId: string, message: MessageRow | null) => {
+  if (!quotedRequests.has(messageId)) return;
+  quotedRequests.set(messageId, Promise.resolve(message));
+  quotedListeners.forEach((listener) => listener(messageId, message));
+};
+
+export const fetchQuotedMessage = (messageId: string): Promise<MessageRow | null> => {
+  let request = quotedRequests.get(messageId);
+  if (!request) {
+    request = Promise.resolve(
+      supabase
+        .from('messages')
+        .select('*')
+        .eq('id', messageId)
+        .maybeSingle()
+    ).then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching quoted message:', error);
+        quotedRequests.delete(messageId);
+        return null;
+      }
+      return data;
+    });
+    quotedRequests.set(messageId, request);
+  }
+  return request;
+};
+
+// One line of a message for reply previews
+export const getMessageSnippet = (message: Pick<MessageRow, 'message' | 'attachments' | 'deleted_at'>) => {
+  if (message.deleted_at) return 'Deleted message';
+  if (message.message) return message.message;
+
+  const count = getMessageAttachments(message.attachments).length;
+  return count > 0 ? `📎 ${count} attachment${count === 1 ? '' : 's'}` : '';
+};
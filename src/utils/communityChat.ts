@@ -0,0 +1,25 @@
+// "nearby" reads everything within the search radius; "neighborhood" reads one fixed room
+// (a ~5 km geohash cell, handed out by get_community_room)
+export type CommunityScope = 'nearby' | 'neighborhood';
+
+// Realtime rows carry geography columns as hex EWKB; this reads the POINT ones
+export const parsePoint = (value: unknown): { lat: number; lng: number } | null => {
+  if (typeof value !== 'string' || !/^([0-9a-f]{2})+$/i.test(value)) return null;
+
+  const bytes = new Uint8Array(value.match(/../g).map((byte) => parseInt(byte, 16)));
+  if (bytes.length < 21) return null;
+
+  const view = new DataView(bytes.buffer);
+  const littleEndian = view.getUint8(0) === 1;
+  const type = view.getUint32(1, littleEndian);
+  if ((type & 0x0fffffff) !== 1) return null;
+
+  // An embedded SRID sits between the type and the coordinates
+  const offset = type & 0x20000000 ? 9 : 5;
+  if (bytes.length < offset + 16) return null;
+
+  return {
+    lng: view.getFloat64(offset, littleEndian),
+    lat: view.getFloat64(offset + 8, littleEndian),
+  };
+};
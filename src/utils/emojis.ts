@@ -0,0 +1,29 @@
+// Emoji set offered for profile avatars and message reactions
+export const EMOJIS = [
+  '😊', // smiling
+  '😎', // cool
+  '🚀', // rocket
+  '💪', // strength
+  '🎯', // goal
+  '🌟', // star
+  '🔥', // fire
+  '👨‍💻', // male coder
+  '👩‍💻', // female coder
+  '🏃‍♂️', // man running
+  '🏃‍♀️', // woman running
+  '🎨', // art
+  '📚', // books
+  '🌍', // earth
+  '⚡', // lightning
+  '😀', // classic smile
+  '😄', // cheerful
+  '🥳', // party face
+  '🤓', // nerdy
+  '😌', // relaxed
+];
+
+// One tap acknowledgements shown first in the reaction picker
+export const QUICK_REACTIONS = ['👍', '🙏', '✅'];
+
+// Everything a message can be reacted with; public.is_reaction_emoji holds the same list
+export const REACTION_EMOJIS = [...QUICK_REACTIONS, ...EMOJIS];
@@ -0,0 +1,72 @@
+import type { GeocodeResult } from './types';
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+const STORAGE_KEY = 'geocode-cache:v1';
+const MAX_PERSISTED_ENTRIES = 200;
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 3 decimals is roughly 100m, close enough to reuse a place name
+const COORDINATE_PRECISION = 3;
+
+export const reverseCacheKey = (providerId: string, lat: number, lng: number) =>
+  `${providerId}:${lat.toFixed(COORDINATE_PRECISION)},${lng.toFixed(COORDINATE_PRECISION)}`;
+
+export const searchCacheKey = (
+  providerId: string,
+  query: string,
+  near?: { lat: number; lng: number } | null
+) => {
+  const area = near ? `@${near.lat.toFixed(1)},${near.lng.toFixed(1)}` : '';
+  return `${providerId}:${query.trim().toLowerCase()}${area}`;
+};
+
+const isFresh = (entry: CacheEntry<unknown>) => Date.now() - entry.storedAt < CACHE_TTL_MS;
+
+const loadPersisted = (): Record<string, CacheEntry<string>> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Reverse lookups survive reloads; search results only live in memory
+const reverseCache = new Map<string, CacheEntry<string>>(
+  Object.entries(loadPersisted()).filter(([, entry]) => isFresh(entry))
+);
+const searchCache = new Map<string, CacheEntry<GeocodeResult[]>>();
+
+const persistReverseCache = () => {
+  try {
+    // Map keeps insertion order, so the newest entries are at the end
+    const entries = [...reverseCache.entries()].slice(-MAX_PERSISTED_ENTRIES);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.warn('Could not persist geocode cache:', error);
+  }
+};
+
+export const getCachedPlaceName = (key: string) => {
+  const entry = reverseCache.get(key);
+  return entry && isFresh(entry) ? entry.value : null;
+};
+
+export const cachePlaceName = (key: string, name: string) => {
+  reverseCache.delete(key);
+  reverseCache.set(key, { value: name, storedAt: Date.now() });
+  persistReverseCache();
+};
+
+export const getCachedSearch = (key: string) => {
+  const entry = searchCache.get(key);
+  return entry && isFresh(entry) ? entry.value : null;
+};
+
+export const cacheSearch = (key: string, results: GeocodeResult[]) => {
+  searchCache.set(key, { value: results, storedAt: Date.now() });
+};
@@ -0,0 +1,64 @@
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+interface GoogleAddressComponent {
+  long_name: string;
+  types: string[];
+}
+
+interface GoogleGeocodeResult {
+  formatted_address?: string;
+  address_components?: GoogleAddressComponent[];
+  geometry: { location: { lat: number; lng: number } };
+}
+
+const GOOGLE_GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+
+// Short "Locality, State, Country" label when there is no formatted address
+const describeComponents = (components: GoogleAddressComponent[]) => {
+  const find = (type: string) => components.find(c => c.types.includes(type))?.long_name;
+  const parts = [find('locality'), find('administrative_area_level_1'), find('country')].filter(Boolean);
+  return parts.length ? parts.join(', ') : null;
+};
+
+const fetchResults = async (params: URLSearchParams): Promise<GoogleGeocodeResult[]> => {
+  const response = await fetch(`${GOOGLE_GEOCODE_URL}?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.status === 'ZERO_RESULTS') return [];
+  if (data.status !== 'OK') {
+    throw new Error(`Google geocoding failed: ${data.status}`);
+  }
+  return data.results || [];
+};
+
+export const createGoogleProvider = (apiKey: string): GeocodingProvider => ({
+  id: 'google',
+  autocomplete: true,
+
+  reverse: async (lat, lng) => {
+    const results = await fetchResults(new URLSearchParams({ latlng: `${lat},${lng}`, key: apiKey }));
+    const result = results[0];
+    if (!result) return null;
+    return result.formatted_address || describeComponents(result.address_components || []);
+  },
+
+  search: async (query, options = {}) => {
+    const params = new URLSearchParams({ address: query, key: apiKey });
+    if (options.near) {
+      // Bias towards a ~0.2 degree box around the user
+      const { lat, lng } = options.near;
+      params.set('bounds', `${lat - 0.1},${lng - 0.1}|${lat + 0.1},${lng + 0.1}`);
+    }
+
+    const results = await fetchResults(params);
+    return results.slice(0, options.limit ?? 5).map((result): GeocodeResult => ({
+      name: result.formatted_address || describeComponents(result.address_components || []) || query,
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+    }));
+  },
+});
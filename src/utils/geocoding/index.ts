@@ -0,0 +1,90 @@
+import { createGoogleProvider } from './google';
+import { createNominatimProvider, DEFAULT_NOMINATIM_URL } from './nominatim';
+import { createOfflineProvider } from './offline';
+import {
+  cachePlaceName,
+  cacheSearch,
+  getCachedPlaceName,
+  getCachedSearch,
+  reverseCacheKey,
+  searchCacheKey,
+} from './cache';
+import type { GeocodeResult, GeocodeSearchOptions, GeocodingProvider } from './types';
+
+export type { GeocodeResult, GeocodeSearchOptions, GeocodingProvider } from './types';
+
+// VITE_GEOCODING_PROVIDER picks the provider; Google is only used when a key is configured
+const createProvider = (): GeocodingProvider => {
+  const googleApiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+  const requested = import.meta.env.VITE_GEOCODING_PROVIDER || (googleApiKey ? 'google' : 'nominatim');
+
+  switch (requested) {
+    case 'google':
+      if (googleApiKey) return createGoogleProvider(googleApiKey);
+      console.warn('Google Maps API key not configured, falling back to Nominatim');
+      return createNominatimProvider(import.meta.env.VITE_NOMINATIM_URL || DEFAULT_NOMINATIM_URL);
+    case 'offline':
+      return createOfflineProvider();
+    case 'nominatim':
+      return createNominatimProvider(import.meta.env.VITE_NOMINATIM_URL || DEFAULT_NOMINATIM_URL);
+    default:
+      console.warn(`Unknown geocoding provider "${requested}", using offline gazetteer`);
+      return createOfflineProvider();
+  }
+};
+
+let provider: GeocodingProvider | null = null;
+
+export const getGeocodingProvider = () => {
+  if (!provider) provider = createProvider();
+  return provider;
+};
+
+export const supportsAutocomplete = () => getGeocodingProvider().autocomplete;
+
+export const formatCoordinates = (lat: number, lng: number) => `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+
+// Place name for a point; falls back to raw coordinates so callers always get a label
+export const reverseGeocode = async (lat: number, lng: number): Promise<string> => {
+  const activeProvider = getGeocodingProvider();
+  const key = reverseCacheKey(activeProvider.id, lat, lng);
+
+  const cached = getCachedPlaceName(key);
+  if (cached) return cached;
+
+  try {
+    const name = await activeProvider.reverse(lat, lng);
+    if (name) {
+      cachePlaceName(key, name);
+      return name;
+    }
+
+    console.log('No geocoding results found, using coordinates');
+  } catch (error) {
+    console.error('Geocoding error:', error);
+  }
+  return formatCoordinates(lat, lng);
+};
+
+// Address search for autocomplete; returns an empty list on failure
+export const forwardGeocode = async (
+  query: string,
+  options: GeocodeSearchOptions = {}
+): Promise<GeocodeResult[]> => {
+  if (!query.trim()) return [];
+
+  const activeProvider = getGeocodingProvider();
+  const key = searchCacheKey(activeProvider.id, query, options.near);
+
+  const cached = getCachedSearch(key);
+  if (cached) return cached;
+
+  try {
+    const results = await activeProvider.search(query.trim(), options);
+    cacheSearch(key, results);
+    return results;
+  } catch (error) {
+    console.error('Forward geocoding error:', error);
+    return [];
+  }
+};
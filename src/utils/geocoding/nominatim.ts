@@ -0,0 +1,70 @@
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+interface NominatimPlace {
+  display_name: string;
+  lat: string;
+  lon: string;
+  address?: Record<string, string>;
+}
+
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// The public instance's usage policy forbids autocomplete, so there search waits for a submit
+const allowsAutocomplete = (baseUrl: string) => baseUrl.replace(/\/+$/, '') !== DEFAULT_NOMINATIM_URL;
+
+// Nominatim's display_name is very long; prefer "Neighbourhood, City" when available
+const describePlace = (place: NominatimPlace) => {
+  const address = place.address || {};
+  const area = address.neighbourhood || address.suburb || address.road;
+  const city = address.city || address.town || address.village || address.county;
+  const parts = [area, city, address.state].filter(Boolean);
+  return parts.length >= 2 ? parts.join(', ') : place.display_name;
+};
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const createNominatimProvider = (baseUrl = DEFAULT_NOMINATIM_URL): GeocodingProvider => ({
+  id: 'nominatim',
+  autocomplete: allowsAutocomplete(baseUrl),
+
+  reverse: async (lat, lng) => {
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      lat: String(lat),
+      lon: String(lng),
+      zoom: '16',
+      addressdetails: '1',
+    });
+    const place: NominatimPlace & { error?: string } = await fetchJson(`${baseUrl}/reverse?${params}`);
+    if (place.error) return null;
+    return describePlace(place);
+  },
+
+  search: async (query, options = {}) => {
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      q: query,
+      limit: String(options.limit ?? 5),
+      addressdetails: '1',
+    });
+    if (options.near) {
+      // Prefer, but don't restrict to, a ~0.2 degree box around the user
+      const { lat, lng } = options.near;
+      params.set('viewbox', `${lng - 0.1},${lat + 0.1},${lng + 0.1},${lat - 0.1}`);
+    }
+
+    const places: NominatimPlace[] = await fetchJson(`${baseUrl}/search?${params}`);
+    return places.map((place): GeocodeResult => ({
+      name: describePlace(place),
+      lat: parseFloat(place.lat),
+      lng: parseFloat(place.lon),
+    }));
+  },
+});
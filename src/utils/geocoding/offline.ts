@@ -0,0 +1,62 @@
+import { distanceKm } from '@/utils/distance';
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+// Small bundled gazetteer so development and tests work without network access or API keys
+const GAZETTEER: GeocodeResult[] = [
+  { name: 'Noida Sector 18, Noida, Uttar Pradesh', lat: 28.57, lng: 77.321 },
+  { name: 'Noida Sector 62, Noida, Uttar Pradesh', lat: 28.6271, lng: 77.3731 },
+  { name: 'Noida Sector 128, Noida, Uttar Pradesh', lat: 28.5205, lng: 77.3574 },
+  { name: 'Noida Sector 135, Noida, Uttar Pradesh', lat: 28.4986, lng: 77.3972 },
+  { name: 'Greater Noida, Uttar Pradesh', lat: 28.4744, lng: 77.504 },
+  { name: 'Ghaziabad, Uttar Pradesh', lat: 28.6692, lng: 77.4538 },
+  { name: 'Connaught Place, New Delhi, Delhi', lat: 28.6315, lng: 77.2167 },
+  { name: 'Gurugram, Haryana', lat: 28.4595, lng: 77.0266 },
+  { name: 'Faridabad, Haryana', lat: 28.4089, lng: 77.3178 },
+  { name: 'Mumbai, Maharashtra', lat: 19.076, lng: 72.8777 },
+  { name: 'Pune, Maharashtra', lat: 18.5204, lng: 73.8567 },
+  { name: 'Bengaluru, Karnataka', lat: 12.9716, lng: 77.5946 },
+  { name: 'Hyderabad, Telangana', lat: 17.385, lng: 78.4867 },
+  { name: 'Chennai, Tamil Nadu', lat: 13.0827, lng: 80.2707 },
+  { name: 'Kolkata, West Bengal', lat: 22.5726, lng: 88.3639 },
+  { name: 'London, United Kingdom', lat: 51.5074, lng: -0.1278 },
+  { name: 'New York, United States', lat: 40.7128, lng: -74.006 },
+  { name: 'San Francisco, United States', lat: 37.7749, lng: -122.4194 },
+];
+
+// Points further than this from every gazetteer entry get no name
+const MAX_REVERSE_DISTANCE_KM = 30;
+
+export const createOfflineProvider = (places: GeocodeResult[] = GAZETTEER): GeocodingProvider => ({
+  id: 'offline',
+  autocomplete: true,
+
+  reverse: async (lat, lng) => {
+    let nearest: GeocodeResult | null = null;
+    let nearestDistance = Infinity;
+
+    places.forEach(place => {
+      const distance = distanceKm({ lat, lng }, place);
+      if (distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    });
+
+    return nearestDistance <= MAX_REVERSE_DISTANCE_KM ? nearest.name : null;
+  },
+
+  search: async (query, options = {}) => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.length) return [];
+
+    const matches = places.filter(place => {
+      const name = place.name.toLowerCase();
+      return terms.every(term => name.includes(term));
+    });
+
+    if (options.near) {
+      matches.sort((a, b) => distanceKm(options.near, a) - distanceKm(options.near, b));
+    }
+    return matches.slice(0, options.limit ?? 5);
+  },
+});
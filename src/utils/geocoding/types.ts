@@ -0,0 +1,20 @@
+export interface GeocodeResult {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodeSearchOptions {
+  // Results closer to this point are ranked first
+  near?: { lat: number; lng: number } | null;
+  limit?: number;
+}
+
+export interface GeocodingProvider {
+  id: string;
+  // Whether search may run as the user types; otherwise only on an explicit submit
+  autocomplete: boolean;
+  // Human readable name for a point, or null when the provider has nothing useful
+  reverse: (lat: number, lng: number) => Promise<string | null>;
+  search: (query: string, options?: GeocodeSearchOptions) => Promise<GeocodeResult[]>;
+}
@@ -0,0 +1,65 @@
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Standard geohash encoding (interleaved lng/lat bits, base32)
+export const encodeGeohash = (lat: number, lng: number, precision: number) => {
+  let latRange: [number, number] = [-90, 90];
+  let lngRange: [number, number] = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    if (evenBit) lngRange = range;
+    else latRange = range;
+
+    evenBit = !evenBit;
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+};
+
+// Cell size in degrees for a given precision
+const cellSize = (precision: number) => {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+};
+
+// Every cell that overlaps the bounding box of a circle around a point
+export const geohashesCovering = (lat: number, lng: number, radiusKm: number, precision: number) => {
+  const size = cellSize(precision);
+  const latDelta = radiusKm / 111;
+  const lngDelta = radiusKm / (111 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+
+  const minLat = Math.max(lat - latDelta, -90);
+  const maxLat = Math.min(lat + latDelta, 90);
+  const minLng = lng - lngDelta;
+  const maxLng = lng + lngDelta;
+
+  const cells = new Set<string>();
+  for (let y = minLat; y <= maxLat + size.lat; y += size.lat) {
+    for (let x = minLng; x <= maxLng + size.lng; x += size.lng) {
+      const wrappedLng = ((((Math.min(x, maxLng) + 180) % 360) + 360) % 360) - 180;
+      cells.add(encodeGeohash(Math.min(y, maxLat), wrappedLng, precision));
+    }
+  }
+  return [...cells];
+};
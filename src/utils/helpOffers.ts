@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// "I can help" - volunteer on a request
+export const offerHelpOnRequest = async (helpRequestId: string, message?: string) => {
+  try {
+    const { data, error } = await supabase.rpc('offer_help', {
+      request_id: helpRequestId,
+      offer_message: message || null,
+    });
+
+    if (error) {
+      console.error('Error offering help:', error);
+      return { error: error.message };
+    }
+
+    return { data };
+  } catch (error) {
+    console.error('Error offering help:', error);
+    return { error: 'Failed to offer help' };
+  }
+};
+
+// Requester accepts or declines a pending offer
+export const respondToHelpOffer = async (offerId: string, accept: boolean) => {
+  try {
+    const { data, error } = await supabase.rpc('respond_to_help_offer', {
+      offer_id: offerId,
+      accept,
+    });
+
+    if (error) {
+      console.error('Error responding to help offer:', error);
+      return { error: error.message };
+    }
+
+    return { data };
+  } catch (error) {
+    console.error('Error responding to help offer:', error);
+    return { error: 'Failed to respond to help offer' };
+  }
+};
+
+export const withdrawHelpOffer = async (helpRequestId: string) => {
+  try {
+    const { data, error } = await supabase.rpc('withdraw_help_offer', {
+      request_id: helpRequestId,
+    });
+
+    if (error) {
+      console.error('Error withdrawing help offer:', error);
+      return { error: error.message };
+    }
+
+    return { data };
+  } catch (error) {
+    console.error('Error withdrawing help offer:', error);
+    return { error: 'Failed to withdraw help offer' };
+  }
+};
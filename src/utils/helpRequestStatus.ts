@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type HelpRequestStatus = Database['public']['Enums']['help_request_status'];
+
+// Statuses that still show up in the nearby feed
+export const ACTIVE_STATUSES: HelpRequestStatus[] = ['open', 'claimed', 'in_progress'];
+
+export const CLOSED_STATUSES: HelpRequestStatus[] = ['resolved', 'cancelled', 'expired'];
+
+// Mirrors public.is_valid_help_request_transition so the UI only offers valid actions
+const TRANSITIONS: Record<HelpRequestStatus, HelpRequestStatus[]> = {
+  open: ['claimed', 'in_progress', 'resolved', 'cancelled', 'expired'],
+  claimed: ['open', 'in_progress', 'resolved', 'cancelled', 'expired'],
+  in_progress: ['open', 'claimed', 'resolved', 'cancelled'],
+  resolved: [],
+  cancelled: [],
+  expired: ['open', 'cancelled'],
+};
+
+export const canTransition = (from: HelpRequestStatus, to: HelpRequestStatus) => {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+export const isActiveStatus = (status: HelpRequestStatus) => {
+  return ACTIVE_STATUSES.includes(status);
+};
+
+export const getStatusLabel = (status: HelpRequestStatus) => {
+  const labels: Record<HelpRequestStatus, string> = {
+    open: 'Open',
+    claimed: 'Claimed',
+    in_progress: 'In progress',
+    resolved: 'Resolved',
+    cancelled: 'Cancelled',
+    expired: 'Expired',
+  };
+  return labels[status] || status;
+};
+
+export const getStatusColor = (status: HelpRequestStatus) => {
+  const colors: Record<HelpRequestStatus, string> = {
+    open: 'bg-green-100 text-green-800 border-green-200',
+    claimed: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+    in_progress: 'bg-blue-100 text-blue-800 border-blue-200',
+    resolved: 'bg-teal-100 text-teal-800 border-teal-200',
+    cancelled: 'bg-gray-100 text-gray-800 border-gray-200',
+    expired: 'bg-purple-100 text-purple-800 border-purple-200',
+  };
+  return colors[status] || colors.cancelled;
+};
+
+export const formatHelpersOnTheWay = (count: number) => {
+  if (!count) return null;
+  return count === 1 ? '1 helper on the way' : `${count} helpers on the way`;
+};
+
+// Requesters are prompted to renew or close this long before expiry
+export const EXPIRY_WARNING_MINUTES = 30;
+
+export const isExpiringSoon = (expiresAt: string | null) => {
+  if (!expiresAt) return false;
+  const remaining = new Date(expiresAt).getTime() - Date.now();
+  return remaining > 0 && remaining <= EXPIRY_WARNING_MINUTES * 60 * 1000;
+};
+
+// Timers can't wait longer than this, so far-off expiries are checked again later
+const MAX_EXPIRY_TIMER_MS = 24 * 60 * 60 * 1000;
+
+// How long until a request enters or leaves the expiry warning window, or null when it won't
+export const msUntilExpiryChange = (expiresAt: string | null) => {
+  if (!expiresAt) return null;
+  const expiry = new Date(expiresAt).getTime();
+  const next = [expiry - EXPIRY_WARNING_MINUTES * 60 * 1000, expiry].find((t) => t > Date.now());
+  return next === undefined ? null : Math.min(next - Date.now(), MAX_EXPIRY_TIMER_MS);
+};
+
+// Goes through the RPC, which checks the transition and records it in the status history
+export const setHelpRequestStatus = async (
+  helpRequestId: string,
+  status: HelpRequestStatus,
+  note?: string
+) => {
+  try {
+    const { data, error } = await supabase.rpc('set_help_request_status', {
+      request_id: helpRequestId,
+      new_status: status,
+      note: note || null,
+    });
+
+    if (error) {
+      console.error('Error updating help request status:', error);
+      return { error: error.message };
+    }
+
+    return { data };
+  } catch (error) {
+    console.error('Error updating help request status:', error);
+    return { error: 'Failed to update help request status' };
+  }
+};
+
+// Push the expiry back by another TTL period, re-opening it if it already expired
+export const renewHelpRequest = async (helpRequestId: string) => {
+  try {
+    const { data, error } = await supabase.rpc('renew_help_request', {
+      request_id: helpRequestId,
+    });
+
+    if (error) {
+      console.error('Error renewing help request:', error);
+      return { error: error.message };
+    }
+
+    return { data };
+  } catch (error) {
+    console.error('Error renewing help request:', error);
+    return { error: 'Failed to renew help request' };
+  }
+};
+
+// Owner only; messages, helpers and history go with it
+export const deleteOwnHelpRequest = async (helpRequestId: string, userId: string) => {
+  try {
+    const { error } = await supabase
+      .from('help_requests')
+      .delete()
+      .eq('id', helpRequestId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting help request:', error);
+      return { error: `Database error: ${error.message}` };
+    }
+
+    return {};
+  } catch (error) {
+    console.error('Unexpected error deleting help request:', error);
+    return { error: 'Failed to delete help request. Please try again.' };
+  }
+};
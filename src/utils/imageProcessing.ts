@@ -0,0 +1,37 @@
+// Client-side image re-encoding shared by chat attachments and request photos
+const JPEG_QUALITY = 0.82;
+
+export const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    image.src = url;
+  });
+
+// Redraw on a canvas no larger than maxDimension. Only pixels survive, so EXIF
+// metadata (GPS position included) is dropped; browsers apply the EXIF rotation
+// when drawing, so the result stays upright.
+export const resizeImage = async (image: HTMLImageElement, maxDimension: number, type: string) => {
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type, JPEG_QUALITY)
+  );
+  if (!blob) throw new Error('Could not compress image');
+  return { blob, width, height };
+};
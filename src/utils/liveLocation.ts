@@ -0,0 +1,29 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type LiveLocation = Database['public']['Functions']['get_live_locations']['Returns'][number];
+
+// Must match the durations start_live_location accepts
+export const LIVE_LOCATION_DURATIONS = [15, 30, 60] as const;
+export type LiveLocationDuration = (typeof LIVE_LOCATION_DURATIONS)[number];
+
+// Positions are sent at most this often, unless the user has moved further than the threshold
+export const LIVE_LOCATION_MIN_INTERVAL_MS = 10_000;
+export const LIVE_LOCATION_MIN_DISTANCE_KM = 0.025;
+
+// Rough city travel speed; there is no routing, so the ETA is distance-based only
+const ETA_SPEED_KMH = 25;
+
+export const formatDistance = (km: number) =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+export const formatEta = (km: number) => {
+  const minutes = Math.round((km / ETA_SPEED_KMH) * 60);
+  if (minutes < 1) return 'Arriving';
+  if (minutes < 60) return `~${minutes} min away`;
+  return `~${Math.floor(minutes / 60)}h ${minutes % 60}m away`;
+};
+
+export const formatTimeLeft = (until: string, now = Date.now()) => {
+  const minutes = Math.max(0, Math.ceil((new Date(until).getTime() - now) / 60_000));
+  return `${minutes} min left`;
+};
@@ -0,0 +1,20 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type LocationPrivacy = Database['public']['Enums']['location_privacy'];
+
+// The blurring itself happens in the database (public.fuzz_location)
+export const LOCATION_PRIVACY_OPTIONS: { value: LocationPrivacy; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact', description: 'Others see your precise position' },
+  { value: 'approximate', label: 'Approximate', description: 'Shown within about 500 m of where you are' },
+  { value: 'neighborhood', label: 'Neighborhood', description: 'Only the ~2 km area you are in is shown' },
+  { value: 'hidden', label: 'Hidden', description: 'You do not appear on the map or nearby lists' },
+];
+
+export const isPreciseLocation = (privacy: LocationPrivacy | null | undefined) => {
+  return !privacy || privacy === 'exact';
+};
+
+// Raw help request locations aren't selectable; they come blurred from get_nearby_help_requests
+// or get_help_request_location. Use this instead of `*` when reading help_requests directly.
+export const HELP_REQUEST_COLUMNS =
+  'id, user_id, category, message, is_urgent, is_resolved, status, status_changed_at, resolved_at, expires_at, escalation_level, escalated_at, edited_at, broadcast_radius_km, precise_location_shared, group_id, created_at, updated_at';
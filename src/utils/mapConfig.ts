@@ -0,0 +1,15 @@
+// Map settings come from Vite env so local development can use a self-hosted or offline style
+export const MAP_STYLE_URL =
+  import.meta.env.VITE_MAP_STYLE_URL || 'mapbox://styles/mapbox/streets-v12';
+
+export const MAPBOX_ACCESS_TOKEN = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN || '';
+
+// Only Mapbox-hosted styles need an access token
+export const isMapConfigured = () => {
+  return !MAP_STYLE_URL.startsWith('mapbox://') || !!MAPBOX_ACCESS_TOKEN;
+};
+
+export const DEFAULT_MAP_ZOOM = 13;
+
+// Above this zoom pins are always drawn individually
+export const CLUSTER_MAX_ZOOM = 14;
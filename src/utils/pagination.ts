@@ -0,0 +1,16 @@
+// Keyset pagination over (created_at, id), newest first. Unlike offsets, a cursor
+// stays valid while new rows are inserted at the top.
+export interface KeysetCursor {
+  created_at: string;
+  id: string;
+}
+
+export const HELP_REQUESTS_PAGE_SIZE = 20;
+export const MESSAGES_PAGE_SIZE = 50;
+
+export const cursorOf = (row: { created_at: string | null; id: string } | undefined): KeysetCursor | null =>
+  row?.created_at ? { created_at: row.created_at, id: row.id } : null;
+
+// PostgREST `or` filter for rows strictly older than the cursor
+export const olderThanFilter = (cursor: KeysetCursor) =>
+  `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { loadImage, resizeImage } from './imageProcessing';
+
+export type RequestMedia = Database['public']['Tables']['request_media']['Row'];
+
+export const REQUEST_MEDIA_BUCKET = 'request-media';
+// Also enforced by a trigger on request_media
+export const MAX_REQUEST_PHOTOS = 4;
+export const MAX_REQUEST_PHOTO_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_REQUEST_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const MAX_PHOTO_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+
+export const validateRequestPhoto = (file: File): string | null => {
+  if (!ALLOWED_REQUEST_PHOTO_TYPES.includes(file.type)) {
+    return `${file.name}: only JPEG, PNG and WebP photos can be added`;
+  }
+  if (file.size > MAX_REQUEST_PHOTO_BYTES) {
+    return `${file.name} is larger than 10 MB`;
+  }
+  return null;
+};
+
+export const getRequestMediaUrl = (path: string) =>
+  supabase.storage.from(REQUEST_MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+
+const uploadObject = async (path: string, body: Blob) => {
+  const { error } = await supabase.storage
+    .from(REQUEST_MEDIA_BUCKET)
+    .upload(path, body, { contentType: 'image/jpeg', upsert: false });
+  if (error) throw error;
+};
+
+// Every photo is redrawn as a JPEG, which drops EXIF (GPS position included) before it leaves the device
+const uploadRequestPhoto = async (
+  file: File,
+  userId: string,
+  requestId: string,
+  position: number
+): Promise<Database['public']['Tables']['request_media']['Insert']> => {
+  const image = await loadImage(file);
+  const full = await resizeImage(image, MAX_PHOTO_DIMENSION, 'image/jpeg');
+  const thumbnail = await resizeImage(image, THUMBNAIL_DIMENSION, 'image/jpeg');
+
+  const storagePath = `${userId}/${requestId}/${position}.jpg`;
+  const thumbnailPath = `${userId}/${requestId}/${position}-thumb.jpg`;
+  await uploadObject(storagePath, full.blob);
+  await uploadObject(thumbnailPath, thumbnail.blob);
+
+  return {
+    help_request_id: requestId,
+    user_id: userId,
+    storage_path: storagePath,
+    thumbnail_path: thumbnailPath,
+    mime_type: 'image/jpeg',
+    width: full.width,
+    height: full.height,
+    position,
+  };
+};
+
+// Upload all photos and link them to the request; anything uploaded is removed again on failure
+export const attachRequestPhotos = async (files: File[], userId: string, requestId: string) => {
+  const results = await Promise.allSettled(
+    files
+      .slice(0, MAX_REQUEST_PHOTOS)
+      .map((file, position) => uploadRequestPhoto(file, userId, requestId, position))
+  );
+  const uploaded = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+  const { data, error } = failure
+    ? { data: null, error: failure.reason }
+    : await supabase.from('request_media').insert(uploaded).select();
+
+  if (error) {
+    const paths = uploaded.flatMap((m) => [m.storage_path, m.thumbnail_path].filter(Boolean) as string[]);
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from(REQUEST_MEDIA_BUCKET).remove(paths);
+      if (removeError) console.error('Error removing request photos:', removeError);
+    }
+    return { data: null, error };
+  }
+
+  return { data: data as RequestMedia[], error: null };
+};
@@ -0,0 +1,13 @@
+// Bounds match the CHECK constraints on profiles.search_radius_km and help_requests.broadcast_radius_km
+export const MIN_SEARCH_RADIUS_KM = 1;
+export const MAX_SEARCH_RADIUS_KM = 50;
+export const DEFAULT_SEARCH_RADIUS_KM = 10;
+
+export const clampRadius = (radiusKm: number) => {
+  if (isNaN(radiusKm)) return DEFAULT_SEARCH_RADIUS_KM;
+  return Math.min(MAX_SEARCH_RADIUS_KM, Math.max(MIN_SEARCH_RADIUS_KM, radiusKm));
+};
+
+export const formatRadius = (radiusKm: number) => {
+  return `${Number.isInteger(radiusKm) ? radiusKm : radiusKm.toFixed(1)}km`;
+};
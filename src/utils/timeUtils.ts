@@ -84,3 +84,27 @@ export const formatChatTime = (timestamp: string) => {
     hour12: true 
   });
 };
+
+export const formatTimeUntil = (timestamp: string) => {
+  const diff = new Date(timestamp).getTime() - Date.now();
+  const minutes = Math.floor(diff / (1000 * 60));
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+
+  if (diff <= 0) {
+    return 'Expired';
+  }
+
+  if (minutes < 1) {
+    return 'in less than a minute';
+  }
+
+  if (hours < 1) {
+    return `in ${minutes}m`;
+  }
+
+  if (hours < 24) {
+    return `in ${hours}h ${minutes % 60}m`;
+  }
+
+  return `in ${Math.floor(hours / 24)}d`;
+};
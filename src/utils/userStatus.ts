@@ -0,0 +1,50 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type UserStatus = Database['public']['Enums']['user_status'];
+
+// Statuses a user can pick by hand; null means "automatic" (online, or away when idle)
+export type StatusOverride = Extract<UserStatus, 'away' | 'do_not_disturb'> | null;
+
+// No input for this long (or a hidden tab) marks the user away
+export const IDLE_TIMEOUT_MINUTES = 5;
+
+export const getUserStatusLabel = (status: UserStatus) => {
+  const labels: Record<UserStatus, string> = {
+    online: 'Online',
+    away: 'Away',
+    do_not_disturb: 'Do not disturb',
+    offline: 'Offline',
+  };
+  return labels[status] || status;
+};
+
+export const getUserStatusDotColor = (status: UserStatus) => {
+  const colors: Record<UserStatus, string> = {
+    online: 'bg-green-500',
+    away: 'bg-yellow-400',
+    do_not_disturb: 'bg-red-500',
+    offline: 'bg-gray-400',
+  };
+  return colors[status] || colors.offline;
+};
+
+export const getUserStatusTextColor = (status: UserStatus) => {
+  const colors: Record<UserStatus, string> = {
+    online: 'text-green-600',
+    away: 'text-yellow-600',
+    do_not_disturb: 'text-red-600',
+    offline: 'text-gray-500',
+  };
+  return colors[status] || colors.offline;
+};
+
+// Map pin colours, matching the dot classes above
+export const getUserStatusHex = (status: UserStatus) => {
+  const colors: Record<UserStatus, string> = {
+    online: '#10b981',
+    away: '#facc15',
+    do_not_disturb: '#ef4444',
+    offline: '#9ca3af',
+  };
+  return colors[status] || colors.offline;
+};
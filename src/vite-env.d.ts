@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAPBOX_ACCESS_TOKEN?: string;
+  readonly VITE_MAP_STYLE_URL?: string;
+  readonly VITE_GEOCODING_PROVIDER?: "google" | "nominatim" | "offline";
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_NOMINATIM_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,188 @@
+-- Help request lifecycle: open -> claimed -> in_progress -> resolved, plus cancelled/expired
+CREATE TYPE public.help_request_status AS ENUM ('open', 'claimed', 'in_progress', 'resolved', 'cancelled', 'expired');
+
+ALTER TABLE public.help_requests
+ADD COLUMN status help_request_status NOT NULL DEFAULT 'open',
+ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE;
+
+-- Carry over anything already flagged as resolved
+UPDATE public.help_requests
+SET status = 'resolved', resolved_at = updated_at
+WHERE is_resolved = true;
+
+CREATE INDEX idx_help_requests_status ON public.help_requests (status);
+
+-- History of every status transition
+CREATE TABLE public.help_request_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  help_request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  from_status help_request_status,
+  to_status help_request_status NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX idx_help_request_status_history_request ON public.help_request_status_history (help_request_id, created_at);
+
+ALTER TABLE public.help_request_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History rows are only written by the trigger below
+CREATE POLICY "Users can view help request status history" ON public.help_request_status_history FOR SELECT USING (true);
+
+-- Allowed transitions between request states
+CREATE OR REPLACE FUNCTION public.is_valid_help_request_transition(
+  from_status help_request_status,
+  to_status help_request_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'open' THEN to_status IN ('claimed', 'in_progress', 'resolved', 'cancelled', 'expired')
+    WHEN 'claimed' THEN to_status IN ('open', 'in_progress', 'resolved', 'cancelled', 'expired')
+    WHEN 'in_progress' THEN to_status IN ('open', 'claimed', 'resolved', 'cancelled')
+    WHEN 'expired' THEN to_status IN ('open', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+-- Enforce the state machine and keep derived columns in sync
+CREATE OR REPLACE FUNCTION public.handle_help_request_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT public.is_valid_help_request_transition(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Invalid help request status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.status_changed_at := NOW();
+    NEW.resolved_at := CASE WHEN NEW.status = 'resolved' THEN NOW() ELSE NULL END;
+  END IF;
+
+  NEW.is_resolved := NEW.status IN ('resolved', 'cancelled', 'expired');
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_status_change
+  BEFORE UPDATE ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_help_request_status_change();
+
+-- Record the initial state and every transition afterwards
+CREATE OR REPLACE FUNCTION public.log_help_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.help_request_status_history (help_request_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.help_request_status_history (help_request_id, from_status, to_status, changed_by, note)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid(), current_setting('app.status_note', true));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_status_logged
+  AFTER INSERT OR UPDATE OF status ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_help_request_status();
+
+-- Status change entry point so a note can travel with the transition
+CREATE OR REPLACE FUNCTION public.set_help_request_status(
+  request_id UUID,
+  new_status help_request_status,
+  note TEXT DEFAULT NULL
+)
+RETURNS public.help_requests
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated public.help_requests;
+BEGIN
+  PERFORM set_config('app.status_note', COALESCE(note, ''), true);
+
+  UPDATE public.help_requests
+  SET status = new_status
+  WHERE id = request_id
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_help_request_status(UUID, help_request_status, TEXT) TO authenticated;
+
+-- Nearby requests now filter and report by status
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision);
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, integer);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[]
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category help_category,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.location_name,
+    hr.location_point,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km
+  FROM public.help_requests hr
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000
+    )
+  ORDER BY distance_km ASC, hr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.help_request_status_history REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.help_request_status_history;
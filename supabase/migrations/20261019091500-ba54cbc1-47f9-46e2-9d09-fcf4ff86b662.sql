@@ -0,0 +1,262 @@
+-- Volunteers offering help on a request and the requester accepting them
+CREATE TYPE public.help_offer_status AS ENUM ('pending', 'accepted', 'declined', 'withdrawn');
+
+CREATE TABLE public.help_request_helpers (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  help_request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  helper_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status help_offer_status NOT NULL DEFAULT 'pending',
+  message TEXT,
+  offered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  withdrawn_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id),
+  UNIQUE (help_request_id, helper_id)
+);
+
+CREATE INDEX idx_help_request_helpers_request ON public.help_request_helpers (help_request_id, status);
+CREATE INDEX idx_help_request_helpers_helper ON public.help_request_helpers (helper_id);
+
+ALTER TABLE public.help_request_helpers ENABLE ROW LEVEL SECURITY;
+
+-- Offers are public so cards can show who is on the way; writes go through the functions below
+CREATE POLICY "Users can view help offers" ON public.help_request_helpers FOR SELECT USING (true);
+
+-- Move the request between open and claimed as accepted helpers come and go
+CREATE OR REPLACE FUNCTION public.sync_help_request_claim(request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_status help_request_status;
+  accepted_count INTEGER;
+BEGIN
+  SELECT status INTO current_status FROM public.help_requests WHERE id = request_id;
+
+  SELECT COUNT(*) INTO accepted_count
+  FROM public.help_request_helpers
+  WHERE help_request_id = request_id AND status = 'accepted';
+
+  IF current_status = 'open' AND accepted_count > 0 THEN
+    UPDATE public.help_requests SET status = 'claimed' WHERE id = request_id;
+  ELSIF current_status IN ('claimed', 'in_progress') AND accepted_count = 0 THEN
+    PERFORM set_config('app.status_note', 'All helpers withdrew', true);
+    UPDATE public.help_requests SET status = 'open' WHERE id = request_id;
+  END IF;
+END;
+$$;
+
+-- "I can help": create or re-open the caller's offer on a request
+CREATE OR REPLACE FUNCTION public.offer_help(request_id UUID, offer_message TEXT DEFAULT NULL)
+RETURNS public.help_request_helpers
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request public.help_requests;
+  offer public.help_request_helpers;
+BEGIN
+  SELECT * INTO request FROM public.help_requests WHERE id = request_id;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Help request not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot offer help on your own request' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF request.status NOT IN ('open', 'claimed', 'in_progress') THEN
+    RAISE EXCEPTION 'This request is no longer accepting help' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.help_request_helpers (help_request_id, helper_id, message)
+  VALUES (request_id, auth.uid(), offer_message)
+  ON CONFLICT (help_request_id, helper_id) DO UPDATE
+  SET status = 'pending',
+      message = EXCLUDED.message,
+      offered_at = NOW(),
+      responded_at = NULL,
+      accepted_at = NULL,
+      withdrawn_at = NULL,
+      updated_at = NOW()
+  RETURNING * INTO offer;
+
+  RETURN offer;
+END;
+$$;
+
+-- Requester accepts or declines a pending offer
+CREATE OR REPLACE FUNCTION public.respond_to_help_offer(offer_id UUID, accept BOOLEAN)
+RETURNS public.help_request_helpers
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer public.help_request_helpers;
+BEGIN
+  SELECT o.* INTO offer
+  FROM public.help_request_helpers o
+  JOIN public.help_requests hr ON hr.id = o.help_request_id
+  WHERE o.id = offer_id AND hr.user_id = auth.uid();
+
+  IF offer.id IS NULL THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'Offer is no longer pending' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.help_request_helpers
+  SET status = CASE WHEN accept THEN 'accepted'::help_offer_status ELSE 'declined'::help_offer_status END,
+      responded_at = NOW(),
+      accepted_at = CASE WHEN accept THEN NOW() ELSE NULL END,
+      updated_at = NOW()
+  WHERE id = offer_id
+  RETURNING * INTO offer;
+
+  PERFORM public.sync_help_request_claim(offer.help_request_id);
+
+  RETURN offer;
+END;
+$$;
+
+-- Helper backs out of a request they offered on
+CREATE OR REPLACE FUNCTION public.withdraw_help_offer(request_id UUID)
+RETURNS public.help_request_helpers
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer public.help_request_helpers;
+BEGIN
+  UPDATE public.help_request_helpers
+  SET status = 'withdrawn',
+      withdrawn_at = NOW(),
+      updated_at = NOW()
+  WHERE help_request_id = request_id
+    AND helper_id = auth.uid()
+    AND status IN ('pending', 'accepted')
+  RETURNING * INTO offer;
+
+  IF offer.id IS NULL THEN
+    RAISE EXCEPTION 'No active offer to withdraw' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.sync_help_request_claim(request_id);
+
+  RETURN offer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.offer_help(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_help_offer(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_help_offer(UUID) TO authenticated;
+
+-- Accepted helpers may also move the request along (e.g. claimed -> in progress)
+CREATE OR REPLACE FUNCTION public.set_help_request_status(
+  request_id UUID,
+  new_status help_request_status,
+  note TEXT DEFAULT NULL
+)
+RETURNS public.help_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request public.help_requests;
+  is_accepted_helper BOOLEAN;
+BEGIN
+  SELECT * INTO request FROM public.help_requests WHERE id = request_id;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.help_request_helpers
+    WHERE help_request_id = request_id AND helper_id = auth.uid() AND status = 'accepted'
+  ) INTO is_accepted_helper;
+
+  IF request.user_id <> auth.uid() AND NOT (is_accepted_helper AND new_status = 'in_progress') THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(note, ''), true);
+
+  UPDATE public.help_requests
+  SET status = new_status
+  WHERE id = request_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$;
+
+-- Nearby feed reports how many helpers are on the way
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[]);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[]
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category help_category,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.location_name,
+    hr.location_point,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000
+    )
+  ORDER BY distance_km ASC, hr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.help_request_helpers REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.help_request_helpers;
@@ -0,0 +1,224 @@
+-- Automatic expiry and radius escalation for stale help requests
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Time-to-live and escalation rules per category and urgency
+CREATE TABLE public.help_request_expiry_rules (
+  category help_category NOT NULL,
+  is_urgent BOOLEAN NOT NULL,
+  ttl INTERVAL NOT NULL,
+  escalate_after INTERVAL,
+  max_escalation_level INTEGER NOT NULL DEFAULT 2,
+  PRIMARY KEY (category, is_urgent)
+);
+
+INSERT INTO public.help_request_expiry_rules (category, is_urgent, ttl, escalate_after) VALUES
+  ('Medical', true, INTERVAL '2 hours', INTERVAL '10 minutes'),
+  ('Medical', false, INTERVAL '12 hours', NULL),
+  ('Food', true, INTERVAL '6 hours', INTERVAL '30 minutes'),
+  ('Food', false, INTERVAL '24 hours', NULL),
+  ('Vehicle', true, INTERVAL '3 hours', INTERVAL '15 minutes'),
+  ('Vehicle', false, INTERVAL '12 hours', NULL),
+  ('Other', true, INTERVAL '12 hours', INTERVAL '30 minutes'),
+  ('Other', false, INTERVAL '48 hours', NULL);
+
+ALTER TABLE public.help_request_expiry_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view expiry rules" ON public.help_request_expiry_rules FOR SELECT USING (true);
+
+ALTER TABLE public.help_requests
+ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_help_requests_expires_at ON public.help_requests (expires_at) WHERE status IN ('open', 'claimed');
+
+CREATE OR REPLACE FUNCTION public.get_help_request_ttl(request_category help_category, request_is_urgent BOOLEAN)
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT ttl FROM public.help_request_expiry_rules
+     WHERE category = request_category AND is_urgent = COALESCE(request_is_urgent, false)),
+    INTERVAL '24 hours'
+  );
+$$;
+
+-- Stamp new requests with their expiry time
+CREATE OR REPLACE FUNCTION public.set_help_request_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.expires_at := COALESCE(NEW.created_at, NOW()) + public.get_help_request_ttl(NEW.category, NEW.is_urgent);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_created_set_expiry
+  BEFORE INSERT ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_help_request_expiry();
+
+-- Backfill existing open requests
+UPDATE public.help_requests
+SET expires_at = created_at + public.get_help_request_ttl(category, is_urgent)
+WHERE expires_at IS NULL;
+
+-- Mark requests past their expiry time as expired
+CREATE OR REPLACE FUNCTION public.expire_stale_help_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  PERFORM set_config('app.status_note', 'Expired automatically', true);
+
+  UPDATE public.help_requests
+  SET status = 'expired'
+  WHERE status IN ('open', 'claimed')
+    AND expires_at IS NOT NULL
+    AND expires_at <= NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+-- Widen the reach of urgent requests nobody has answered yet
+CREATE OR REPLACE FUNCTION public.escalate_unanswered_help_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  escalated_count INTEGER;
+BEGIN
+  UPDATE public.help_requests hr
+  SET escalation_level = hr.escalation_level + 1,
+      escalated_at = NOW()
+  FROM public.help_request_expiry_rules r
+  WHERE r.category = hr.category
+    AND r.is_urgent = true
+    AND hr.is_urgent = true
+    AND hr.status = 'open'
+    AND r.escalate_after IS NOT NULL
+    AND hr.escalation_level < r.max_escalation_level
+    AND COALESCE(hr.escalated_at, hr.created_at) <= NOW() - r.escalate_after
+    AND NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.help_request_id = hr.id AND m.user_id <> hr.user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status IN ('pending', 'accepted')
+    );
+
+  GET DIAGNOSTICS escalated_count = ROW_COUNT;
+  RETURN escalated_count;
+END;
+$$;
+
+-- Owner extends the request for another TTL period (also re-opens expired requests)
+CREATE OR REPLACE FUNCTION public.renew_help_request(request_id UUID)
+RETURNS public.help_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request public.help_requests;
+BEGIN
+  SELECT * INTO request FROM public.help_requests WHERE id = request_id AND user_id = auth.uid();
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF request.status NOT IN ('open', 'claimed', 'in_progress', 'expired') THEN
+    RAISE EXCEPTION 'Closed requests cannot be renewed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.status_note', 'Renewed by requester', true);
+
+  UPDATE public.help_requests
+  SET expires_at = NOW() + public.get_help_request_ttl(category, is_urgent),
+      status = CASE WHEN status = 'expired' THEN 'open'::help_request_status ELSE status END,
+      escalation_level = 0,
+      escalated_at = NULL
+  WHERE id = request_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.renew_help_request(UUID) TO authenticated;
+
+SELECT cron.schedule('expire-stale-help-requests', '* * * * *', $$SELECT public.expire_stale_help_requests()$$);
+SELECT cron.schedule('escalate-unanswered-help-requests', '* * * * *', $$SELECT public.escalate_unanswered_help_requests()$$);
+
+-- Escalated requests reach readers further away: each level doubles the radius
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[]);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[]
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category help_category,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  escalation_level INTEGER,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.expires_at,
+    hr.escalation_level,
+    hr.location_name,
+    hr.location_point,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000 * POWER(2, hr.escalation_level)
+    )
+  ORDER BY distance_km ASC, hr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,82 @@
+-- Edit history for help requests so chat participants can see what changed
+ALTER TABLE public.help_requests
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.help_request_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  help_request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  edited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX idx_help_request_edits_request ON public.help_request_edits (help_request_id, created_at);
+
+ALTER TABLE public.help_request_edits ENABLE ROW LEVEL SECURITY;
+
+-- Edits are written by the trigger below
+CREATE POLICY "Users can view help request edits" ON public.help_request_edits FOR SELECT USING (true);
+
+-- Stamp edited_at whenever user-facing fields change
+CREATE OR REPLACE FUNCTION public.stamp_help_request_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.is_urgent IS DISTINCT FROM OLD.is_urgent
+    OR NEW.location_name IS DISTINCT FROM OLD.location_name
+    OR NOT ST_Equals(COALESCE(NEW.location_point, 'POINT(0 0)')::geometry, COALESCE(OLD.location_point, 'POINT(0 0)')::geometry) THEN
+    NEW.edited_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_edit_stamp
+  BEFORE UPDATE ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_help_request_edit();
+
+-- Store a { field: { from, to } } diff for every edit
+CREATE OR REPLACE FUNCTION public.log_help_request_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  diff JSONB := '{}'::jsonb;
+BEGIN
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    diff := diff || jsonb_build_object('message', jsonb_build_object('from', OLD.message, 'to', NEW.message));
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    diff := diff || jsonb_build_object('category', jsonb_build_object('from', OLD.category, 'to', NEW.category));
+  END IF;
+
+  IF NEW.is_urgent IS DISTINCT FROM OLD.is_urgent THEN
+    diff := diff || jsonb_build_object('is_urgent', jsonb_build_object('from', OLD.is_urgent, 'to', NEW.is_urgent));
+  END IF;
+
+  IF NEW.location_name IS DISTINCT FROM OLD.location_name
+    OR NOT ST_Equals(COALESCE(NEW.location_point, 'POINT(0 0)')::geometry, COALESCE(OLD.location_point, 'POINT(0 0)')::geometry) THEN
+    diff := diff || jsonb_build_object('location_name', jsonb_build_object('from', OLD.location_name, 'to', NEW.location_name));
+  END IF;
+
+  IF diff <> '{}'::jsonb THEN
+    INSERT INTO public.help_request_edits (help_request_id, edited_by, changes)
+    VALUES (NEW.id, auth.uid(), diff);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_edit_logged
+  AFTER UPDATE OF message, category, is_urgent, location_name, location_point ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_help_request_edit();
+
+ALTER TABLE public.help_request_edits REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.help_request_edits;
@@ -0,0 +1,198 @@
+-- Data-driven help category taxonomy replacing the help_category enum
+CREATE TABLE public.help_categories (
+  id TEXT NOT NULL,
+  parent_id TEXT REFERENCES public.help_categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT '🤝',
+  color TEXT NOT NULL DEFAULT 'gray',
+  default_ttl INTERVAL,
+  urgent_ttl INTERVAL,
+  escalate_after INTERVAL,
+  default_urgent BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX idx_help_categories_parent ON public.help_categories (parent_id, sort_order);
+
+ALTER TABLE public.help_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view help categories" ON public.help_categories FOR SELECT USING (true);
+
+-- Top-level categories carry over the old enum values and expiry rules
+INSERT INTO public.help_categories (id, parent_id, name, icon, color, default_ttl, urgent_ttl, escalate_after, default_urgent, sort_order) VALUES
+  ('medical', NULL, 'Medical', '🏥', 'red', INTERVAL '12 hours', INTERVAL '2 hours', INTERVAL '10 minutes', false, 10),
+  ('food', NULL, 'Food & Groceries', '🍽️', 'orange', INTERVAL '24 hours', INTERVAL '6 hours', INTERVAL '30 minutes', false, 20),
+  ('vehicle', NULL, 'Vehicle & Transport', '🚗', 'blue', INTERVAL '12 hours', INTERVAL '3 hours', INTERVAL '15 minutes', false, 30),
+  ('other', NULL, 'Other', '🤝', 'gray', INTERVAL '48 hours', INTERVAL '12 hours', INTERVAL '30 minutes', false, 100);
+
+-- Subcategories inherit anything they leave NULL from their parent
+INSERT INTO public.help_categories (id, parent_id, name, icon, color, default_ttl, urgent_ttl, default_urgent, sort_order) VALUES
+  ('blood-donation', 'medical', 'Blood donation', '🩸', 'red', INTERVAL '24 hours', INTERVAL '4 hours', true, 11),
+  ('medicine-pickup', 'medical', 'Medicine pickup', '💊', 'red', NULL, NULL, false, 12),
+  ('hospital-visit', 'medical', 'Hospital visit', '🚑', 'red', NULL, NULL, true, 13),
+  ('groceries', 'food', 'Groceries', '🛒', 'orange', NULL, NULL, false, 21),
+  ('cooked-meal', 'food', 'Cooked meal', '🍲', 'orange', INTERVAL '6 hours', INTERVAL '2 hours', false, 22),
+  ('breakdown', 'vehicle', 'Breakdown', '🔧', 'blue', INTERVAL '6 hours', INTERVAL '2 hours', true, 31),
+  ('ride', 'vehicle', 'Ride / drop', '🚕', 'blue', NULL, NULL, false, 32),
+  ('elderly-care', 'other', 'Elderly care', '🧓', 'purple', NULL, NULL, false, 101),
+  ('pet-help', 'other', 'Pet help', '🐾', 'green', NULL, NULL, false, 102);
+
+-- Resolve a category's effective settings, falling back to its parent
+CREATE OR REPLACE VIEW public.help_categories_resolved AS
+SELECT
+  c.id,
+  c.parent_id,
+  COALESCE(c.default_ttl, p.default_ttl, INTERVAL '24 hours') AS default_ttl,
+  COALESCE(c.urgent_ttl, p.urgent_ttl, c.default_ttl, p.default_ttl, INTERVAL '24 hours') AS urgent_ttl,
+  COALESCE(c.escalate_after, p.escalate_after) AS escalate_after
+FROM public.help_categories c
+LEFT JOIN public.help_categories p ON p.id = c.parent_id;
+
+-- Functions that referenced the enum have to go before the column type changes
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[]);
+DROP TRIGGER IF EXISTS on_help_request_created_set_expiry ON public.help_requests;
+DROP FUNCTION IF EXISTS public.set_help_request_expiry();
+DROP FUNCTION IF EXISTS public.get_help_request_ttl(help_category, boolean);
+DROP FUNCTION IF EXISTS public.escalate_unanswered_help_requests();
+DROP TABLE IF EXISTS public.help_request_expiry_rules;
+-- Column-list triggers block the type change; recreated below
+DROP TRIGGER IF EXISTS on_help_request_edit_logged ON public.help_requests;
+
+ALTER TABLE public.help_requests
+ALTER COLUMN category TYPE TEXT USING lower(category::text);
+
+ALTER TABLE public.help_requests
+ADD CONSTRAINT help_requests_category_fkey FOREIGN KEY (category) REFERENCES public.help_categories(id);
+
+DROP TYPE public.help_category;
+
+CREATE TRIGGER on_help_request_edit_logged
+  AFTER UPDATE OF message, category, is_urgent, location_name, location_point ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_help_request_edit();
+
+CREATE OR REPLACE FUNCTION public.get_help_request_ttl(request_category TEXT, request_is_urgent BOOLEAN)
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT CASE WHEN COALESCE(request_is_urgent, false) THEN urgent_ttl ELSE default_ttl END
+     FROM public.help_categories_resolved
+     WHERE id = request_category),
+    INTERVAL '24 hours'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_help_request_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.expires_at := COALESCE(NEW.created_at, NOW()) + public.get_help_request_ttl(NEW.category, NEW.is_urgent);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_created_set_expiry
+  BEFORE INSERT ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_help_request_expiry();
+
+CREATE OR REPLACE FUNCTION public.escalate_unanswered_help_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  escalated_count INTEGER;
+BEGIN
+  UPDATE public.help_requests hr
+  SET escalation_level = hr.escalation_level + 1,
+      escalated_at = NOW()
+  FROM public.help_categories_resolved c
+  WHERE c.id = hr.category
+    AND hr.is_urgent = true
+    AND hr.status = 'open'
+    AND c.escalate_after IS NOT NULL
+    AND hr.escalation_level < 2
+    AND COALESCE(hr.escalated_at, hr.created_at) <= NOW() - c.escalate_after
+    AND NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.help_request_id = hr.id AND m.user_id <> hr.user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status IN ('pending', 'accepted')
+    );
+
+  GET DIAGNOSTICS escalated_count = ROW_COUNT;
+  RETURN escalated_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[]
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category TEXT,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  escalation_level INTEGER,
+  edited_at TIMESTAMPTZ,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.expires_at,
+    hr.escalation_level,
+    hr.edited_at,
+    hr.location_name,
+    hr.location_point,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000 * POWER(2, hr.escalation_level)
+    )
+  ORDER BY distance_km ASC, hr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
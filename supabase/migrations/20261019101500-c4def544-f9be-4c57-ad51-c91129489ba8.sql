@@ -0,0 +1,77 @@
+-- Per-user search radius preference and per-request broadcast radius
+ALTER TABLE public.profiles
+ADD COLUMN search_radius_km DOUBLE PRECISION NOT NULL DEFAULT 10.0
+  CHECK (search_radius_km >= 1 AND search_radius_km <= 50);
+
+ALTER TABLE public.help_requests
+ADD COLUMN broadcast_radius_km DOUBLE PRECISION NOT NULL DEFAULT 10.0
+  CHECK (broadcast_radius_km >= 1 AND broadcast_radius_km <= 50);
+
+-- A request is only shown to readers inside both their own radius and the request's broadcast radius
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[]);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[]
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category TEXT,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  escalation_level INTEGER,
+  edited_at TIMESTAMPTZ,
+  broadcast_radius_km DOUBLE PRECISION,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.expires_at,
+    hr.escalation_level,
+    hr.edited_at,
+    hr.broadcast_radius_km,
+    hr.location_name,
+    hr.location_point,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      LEAST(radius_km, hr.broadcast_radius_km) * 1000 * POWER(2, hr.escalation_level)
+    )
+  ORDER BY distance_km ASC, hr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
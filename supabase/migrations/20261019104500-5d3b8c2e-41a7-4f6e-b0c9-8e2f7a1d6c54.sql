@@ -0,0 +1,271 @@
+-- Per-user location privacy, applied inside the location RPCs
+CREATE TYPE public.location_privacy AS ENUM ('exact', 'approximate', 'neighborhood', 'hidden');
+
+ALTER TABLE public.profiles
+ADD COLUMN location_privacy public.location_privacy NOT NULL DEFAULT 'approximate';
+
+-- Requesters opt in, per request, to show accepted helpers the precise point
+ALTER TABLE public.help_requests
+ADD COLUMN precise_location_shared BOOLEAN NOT NULL DEFAULT false;
+
+-- Blur a point according to a privacy level. The approximate offset is derived from
+-- the seed so repeated queries return the same point and cannot be averaged out.
+CREATE OR REPLACE FUNCTION public.fuzz_location(
+  point GEOGRAPHY,
+  privacy public.location_privacy,
+  seed UUID
+) RETURNS GEOGRAPHY
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  hash BIGINT;
+BEGIN
+  IF point IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  CASE privacy
+    WHEN 'exact' THEN
+      RETURN point;
+    WHEN 'approximate' THEN
+      -- 150-500 m in a seed-dependent direction
+      hash := ('x' || substr(md5(seed::text), 1, 8))::bit(32)::bigint;
+      RETURN ST_Project(point, 150 + (hash % 351), radians((hash / 351) % 360));
+    WHEN 'neighborhood' THEN
+      -- Centre of the ~2 km grid cell the point falls in
+      RETURN ST_SetSRID(ST_MakePoint(
+        floor(ST_X(point::geometry) / 0.02) * 0.02 + 0.01,
+        floor(ST_Y(point::geometry) / 0.02) * 0.02 + 0.01
+      ), 4326)::geography;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+-- A help request always needs a point on the map, so hidden owners fall back to neighborhood
+CREATE OR REPLACE FUNCTION public.request_location_privacy(owner_privacy public.location_privacy)
+RETURNS public.location_privacy
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN owner_privacy IS NULL THEN 'exact'::public.location_privacy
+    WHEN owner_privacy = 'hidden' THEN 'neighborhood'::public.location_privacy
+    ELSE owner_privacy
+  END;
+$$;
+
+-- The owner, and accepted helpers once the owner shares it, see the precise request location
+CREATE OR REPLACE FUNCTION public.can_see_precise_request_location(
+  request public.help_requests,
+  owner_privacy public.location_privacy
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    public.request_location_privacy(owner_privacy) = 'exact'
+    OR request.user_id = auth.uid()
+    OR (
+      request.precise_location_shared
+      AND EXISTS (
+        SELECT 1 FROM public.help_request_helpers h
+        WHERE h.help_request_id = request.id
+          AND h.helper_id = auth.uid()
+          AND h.status = 'accepted'
+      )
+    );
+$$;
+
+DROP FUNCTION IF EXISTS public.get_nearby_users(double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_users(user_lat double precision, user_lng double precision, radius_km double precision DEFAULT 10.0)
+ RETURNS TABLE(user_id uuid, full_name text, username text, location_name text, lat double precision, lng double precision, distance_km double precision, is_online boolean, avatar_emoji text, location_precision public.location_privacy)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id as user_id,
+    p.full_name,
+    p.username,
+    CASE WHEN p.location_privacy = 'exact' THEN p.location_name END as location_name,
+    ST_Y(shown.location_point::geometry) as lat,
+    ST_X(shown.location_point::geometry) as lng,
+    ST_Distance(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    CASE
+      WHEN p.status = 'online' AND p.last_seen > NOW() - INTERVAL '2 minutes' THEN true
+      ELSE false
+    END as is_online,
+    p.avatar_emoji,
+    p.location_privacy as location_precision
+  FROM profiles p
+  CROSS JOIN LATERAL (
+    SELECT public.fuzz_location(p.location_point::geography, p.location_privacy, p.id) AS location_point
+  ) shown
+  WHERE
+    p.location_point IS NOT NULL
+    AND p.location_privacy <> 'hidden'
+    AND ST_DWithin(
+      p.location_point::geography,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000
+    )
+    AND p.id != COALESCE((SELECT auth.uid()), '00000000-0000-0000-0000-000000000000'::uuid)
+  ORDER BY distance_km;
+END;
+$function$;
+
+-- Location of a single request as the caller is allowed to see it
+CREATE OR REPLACE FUNCTION public.get_help_request_location(request_id UUID)
+RETURNS TABLE (
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  location_name TEXT,
+  is_precise BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ST_Y(shown.location_point::geometry),
+    ST_X(shown.location_point::geometry),
+    CASE WHEN viewer.is_precise THEN hr.location_name END,
+    viewer.is_precise
+  FROM public.help_requests hr
+  LEFT JOIN public.profiles owner ON owner.id = hr.user_id
+  CROSS JOIN LATERAL (
+    SELECT public.can_see_precise_request_location(hr, owner.location_privacy) AS is_precise
+  ) viewer
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN viewer.is_precise THEN hr.location_point
+      ELSE public.fuzz_location(hr.location_point, public.request_location_privacy(owner.location_privacy), hr.id)
+    END AS location_point
+  ) shown
+  WHERE hr.id = request_id
+    AND hr.location_point IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_help_request_location(UUID) TO authenticated;
+
+-- Nearby requests are blurred with their owner's privacy level
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[]);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[]
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category TEXT,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  escalation_level INTEGER,
+  edited_at TIMESTAMPTZ,
+  broadcast_radius_km DOUBLE PRECISION,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.expires_at,
+    hr.escalation_level,
+    hr.edited_at,
+    hr.broadcast_radius_km,
+    CASE WHEN viewer.is_precise THEN hr.location_name END as location_name,
+    shown.location_point,
+    ST_Y(shown.location_point::geometry) as lat,
+    ST_X(shown.location_point::geometry) as lng,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  LEFT JOIN public.profiles owner ON owner.id = hr.user_id
+  CROSS JOIN LATERAL (
+    SELECT public.can_see_precise_request_location(hr, owner.location_privacy) AS is_precise
+  ) viewer
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN viewer.is_precise THEN hr.location_point
+      ELSE public.fuzz_location(hr.location_point, public.request_location_privacy(owner.location_privacy), hr.id)
+    END AS location_point
+  ) shown
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      LEAST(radius_km, hr.broadcast_radius_km) * 1000 * POWER(2, hr.escalation_level)
+    )
+  ORDER BY distance_km ASC, hr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exact distances can be used to triangulate someone, so measure to the blurred point
+CREATE OR REPLACE FUNCTION public.get_help_request_user_distance(
+  request_user_id UUID,
+  current_user_lat DOUBLE PRECISION,
+  current_user_lng DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request_user_location GEOGRAPHY;
+BEGIN
+  SELECT public.fuzz_location(location_point::geography, location_privacy, id) INTO request_user_location
+  FROM profiles
+  WHERE id = request_user_id;
+
+  IF request_user_location IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN ST_Distance(
+    request_user_location,
+    ST_SetSRID(ST_MakePoint(current_user_lng, current_user_lat), 4326)::geography
+  ) / 1000.0;
+END;
+$$;
@@ -0,0 +1,172 @@
+-- Private one-to-one conversations, readable only by their participants
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  -- "<smaller user id>:<larger user id>" so each pair has at most one thread
+  direct_key TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (id)
+);
+
+CREATE TABLE public.conversation_participants (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE TABLE public.direct_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT NOT NULL CHECK (length(trim(message)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX idx_conversation_participants_user ON public.conversation_participants (user_id);
+CREATE INDEX idx_direct_messages_conversation ON public.direct_messages (conversation_id, created_at DESC);
+
+-- Policies on the participants table can't query it directly without recursing
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(target_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = target_conversation_id AND user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.direct_messages ENABLE ROW LEVEL SECURITY;
+
+-- Conversations and memberships are created through get_or_create_direct_conversation
+CREATE POLICY "Participants can view conversations" ON public.conversations FOR SELECT USING (public.is_conversation_participant(id));
+CREATE POLICY "Participants can view conversation members" ON public.conversation_participants FOR SELECT USING (public.is_conversation_participant(conversation_id));
+CREATE POLICY "Users can update own read position" ON public.conversation_participants FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Participants can view direct messages" ON public.direct_messages FOR SELECT USING (public.is_conversation_participant(conversation_id));
+CREATE POLICY "Participants can send direct messages" ON public.direct_messages FOR INSERT WITH CHECK (
+  auth.uid() = sender_id AND public.is_conversation_participant(conversation_id)
+);
+
+-- Open the caller's thread with another user, creating it on first contact
+CREATE OR REPLACE FUNCTION public.get_or_create_direct_conversation(other_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  pair_key TEXT;
+  thread_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF other_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot message yourself' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = other_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  pair_key := LEAST(auth.uid(), other_user_id)::text || ':' || GREATEST(auth.uid(), other_user_id)::text;
+
+  INSERT INTO public.conversations (direct_key)
+  VALUES (pair_key)
+  ON CONFLICT (direct_key) DO NOTHING
+  RETURNING id INTO thread_id;
+
+  IF thread_id IS NULL THEN
+    SELECT c.id INTO thread_id FROM public.conversations c WHERE c.direct_key = pair_key;
+  ELSE
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (thread_id, auth.uid()), (thread_id, other_user_id);
+  END IF;
+
+  RETURN thread_id;
+END;
+$$;
+
+-- Bump the thread and count the sender's own message as read
+CREATE OR REPLACE FUNCTION public.handle_direct_message_sent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_direct_message_sent
+  AFTER INSERT ON public.direct_messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_direct_message_sent();
+
+-- Inbox: one row per thread with the other person, latest message and unread count
+CREATE OR REPLACE FUNCTION public.get_my_conversations()
+RETURNS TABLE (
+  conversation_id UUID,
+  other_user_id UUID,
+  other_full_name TEXT,
+  other_username TEXT,
+  other_avatar_emoji TEXT,
+  last_message TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMPTZ,
+  unread_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    other.user_id,
+    p.full_name,
+    p.username,
+    p.avatar_emoji,
+    latest.message,
+    latest.sender_id,
+    c.last_message_at,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.direct_messages dm
+      WHERE dm.conversation_id = c.id
+        AND dm.sender_id <> auth.uid()
+        AND dm.created_at > COALESCE(me.last_read_at, '-infinity'::timestamptz)
+    ) AS unread_count
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  JOIN public.conversation_participants other
+    ON other.conversation_id = c.id AND other.user_id <> me.user_id
+  LEFT JOIN public.profiles p ON p.id = other.user_id
+  LEFT JOIN LATERAL (
+    SELECT dm.message, dm.sender_id FROM public.direct_messages dm
+    WHERE dm.conversation_id = c.id
+    ORDER BY dm.created_at DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE me.user_id = auth.uid()
+    AND c.last_message_at IS NOT NULL
+  ORDER BY c.last_message_at DESC;
+END;
+$$;
+
+ALTER TABLE public.direct_messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.direct_messages;
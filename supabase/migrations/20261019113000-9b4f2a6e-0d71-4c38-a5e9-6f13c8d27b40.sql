@@ -0,0 +1,92 @@
+-- How far each user has read in a help request's chat
+CREATE TABLE public.help_request_reads (
+  help_request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  -- created_at of the last read message, so comparisons use server timestamps
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (help_request_id, user_id)
+);
+
+CREATE INDEX idx_help_request_reads_user ON public.help_request_reads (user_id);
+CREATE INDEX idx_messages_help_request_created ON public.messages (help_request_id, created_at);
+
+ALTER TABLE public.help_request_reads ENABLE ROW LEVEL SECURITY;
+
+-- Request chats are public, so are their receipts; writes go through mark_help_request_read
+CREATE POLICY "Users can view help request reads" ON public.help_request_reads FOR SELECT USING (true);
+
+-- Move the caller's read position to the newest message in the request chat
+CREATE OR REPLACE FUNCTION public.mark_help_request_read(request_id UUID)
+RETURNS public.help_request_reads
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  latest public.messages;
+  receipt public.help_request_reads;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO latest FROM public.messages m
+  WHERE m.help_request_id = request_id
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1;
+
+  IF latest.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.help_request_reads (help_request_id, user_id, last_read_message_id, last_read_at)
+  VALUES (request_id, auth.uid(), latest.id, latest.created_at)
+  ON CONFLICT (help_request_id, user_id) DO UPDATE
+  SET last_read_message_id = EXCLUDED.last_read_message_id,
+      last_read_at = EXCLUDED.last_read_at,
+      updated_at = NOW()
+  WHERE public.help_request_reads.last_read_at < EXCLUDED.last_read_at
+  RETURNING * INTO receipt;
+
+  RETURN receipt;
+END;
+$$;
+
+-- Unread messages per request for requests the caller takes part in:
+-- their own, ones they offered help on, and ones they have chatted or read in
+CREATE OR REPLACE FUNCTION public.get_help_request_unread_counts()
+RETURNS TABLE (
+  help_request_id UUID,
+  unread_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH involved AS (
+    SELECT hr.id FROM public.help_requests hr WHERE hr.user_id = auth.uid()
+    UNION
+    SELECT h.help_request_id FROM public.help_request_helpers h
+    WHERE h.helper_id = auth.uid() AND h.status IN ('pending', 'accepted')
+    UNION
+    SELECT r.help_request_id FROM public.help_request_reads r WHERE r.user_id = auth.uid()
+    UNION
+    SELECT m.help_request_id FROM public.messages m
+    WHERE m.user_id = auth.uid() AND m.help_request_id IS NOT NULL
+  )
+  SELECT m.help_request_id, COUNT(*)::INTEGER
+  FROM involved i
+  JOIN public.messages m ON m.help_request_id = i.id
+  LEFT JOIN public.help_request_reads r
+    ON r.help_request_id = i.id AND r.user_id = auth.uid()
+  WHERE m.user_id <> auth.uid()
+    AND m.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+  GROUP BY m.help_request_id;
+END;
+$$;
+
+ALTER TABLE public.help_request_reads REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.help_request_reads;
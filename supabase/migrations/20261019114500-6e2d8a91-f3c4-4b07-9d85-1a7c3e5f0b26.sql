@@ -0,0 +1,94 @@
+-- Keyset pagination for the nearby feed: newest first on (created_at, id), with an
+-- optional page size and the last row of the previous page as the cursor
+CREATE INDEX IF NOT EXISTS idx_help_requests_created_id ON public.help_requests (created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_created_id ON public.messages (created_at DESC, id DESC);
+
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[]);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[],
+  page_size INTEGER DEFAULT NULL,
+  before_created_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category TEXT,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  escalation_level INTEGER,
+  edited_at TIMESTAMPTZ,
+  broadcast_radius_km DOUBLE PRECISION,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.expires_at,
+    hr.escalation_level,
+    hr.edited_at,
+    hr.broadcast_radius_km,
+    CASE WHEN viewer.is_precise THEN hr.location_name END as location_name,
+    shown.location_point,
+    ST_Y(shown.location_point::geometry) as lat,
+    ST_X(shown.location_point::geometry) as lng,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  LEFT JOIN public.profiles owner ON owner.id = hr.user_id
+  CROSS JOIN LATERAL (
+    SELECT public.can_see_precise_request_location(hr, owner.location_privacy) AS is_precise
+  ) viewer
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN viewer.is_precise THEN hr.location_point
+      ELSE public.fuzz_location(hr.location_point, public.request_location_privacy(owner.location_privacy), hr.id)
+    END AS location_point
+  ) shown
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      hr.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      LEAST(radius_km, hr.broadcast_radius_km) * 1000 * POWER(2, hr.escalation_level)
+    )
+    AND (
+      before_created_at IS NULL
+      OR (hr.created_at, hr.id) < (before_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+    )
+  ORDER BY hr.created_at DESC, hr.id DESC
+  LIMIT page_size;
+END;
+$$ LANGUAGE plpgsql;
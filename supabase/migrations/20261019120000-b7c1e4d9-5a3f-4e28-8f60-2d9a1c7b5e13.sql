@@ -0,0 +1,29 @@
+-- Photos and files shared in chats. Each entry describes an object in the
+-- chat-attachments bucket: { path, thumbnail_path, name, mime_type, size, width, height }
+ALTER TABLE public.messages
+ADD COLUMN attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_attachments_check CHECK (
+  jsonb_typeof(attachments) = 'array' AND jsonb_array_length(attachments) <= 4
+);
+
+-- Chats are public, so their attachments are too; 10 MB cap and an allow-list of types
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  true,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads live under "<user id>/<message id>/", so the first folder is the owner
+CREATE POLICY "Users can view chat attachments" ON storage.objects FOR SELECT USING (bucket_id = 'chat-attachments');
+CREATE POLICY "Users can upload own chat attachments" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]
+);
+CREATE POLICY "Users can delete own chat attachments" ON storage.objects FOR DELETE USING (
+  bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]
+);
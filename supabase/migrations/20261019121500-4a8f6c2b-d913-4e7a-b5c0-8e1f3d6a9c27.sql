@@ -0,0 +1,69 @@
+-- Photos attached to a help request, stored in the request-media bucket
+CREATE TABLE public.request_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  help_request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  mime_type TEXT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX idx_request_media_request ON public.request_media (help_request_id, position);
+
+ALTER TABLE public.request_media ENABLE ROW LEVEL SECURITY;
+
+-- Requests are public, so are their photos; only the requester can add or remove them
+CREATE POLICY "Users can view request media" ON public.request_media FOR SELECT USING (true);
+CREATE POLICY "Requesters can add request media" ON public.request_media FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.help_requests hr
+    WHERE hr.id = help_request_id AND hr.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Requesters can delete request media" ON public.request_media FOR DELETE USING (auth.uid() = user_id);
+
+-- At most four photos per request
+CREATE OR REPLACE FUNCTION public.check_request_media_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (SELECT COUNT(*) FROM public.request_media WHERE help_request_id = NEW.help_request_id) >= 4 THEN
+    RAISE EXCEPTION 'A help request can have at most 4 photos' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_request_media_limit
+  BEFORE INSERT ON public.request_media
+  FOR EACH ROW EXECUTE FUNCTION public.check_request_media_limit();
+
+-- Photos are re-encoded in the browser (which strips EXIF), so only JPEG/PNG/WebP arrive
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'request-media',
+  'request-media',
+  true,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads live under "<user id>/<request id>/", so the first folder is the owner
+CREATE POLICY "Users can view request photos" ON storage.objects FOR SELECT USING (bucket_id = 'request-media');
+CREATE POLICY "Users can upload own request photos" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'request-media' AND auth.uid()::text = (storage.foldername(name))[1]
+);
+CREATE POLICY "Users can delete own request photos" ON storage.objects FOR DELETE USING (
+  bucket_id = 'request-media' AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+ALTER TABLE public.request_media REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.request_media;
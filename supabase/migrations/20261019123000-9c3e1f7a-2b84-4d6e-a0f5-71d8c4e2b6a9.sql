@@ -0,0 +1,209 @@
+-- Live location sharing inside a request chat, streamed through user_locations
+ALTER TABLE public.user_locations
+ADD COLUMN help_request_id UUID REFERENCES public.help_requests(id) ON DELETE CASCADE,
+ADD COLUMN shared_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN accuracy_m DOUBLE PRECISION;
+
+CREATE INDEX idx_user_locations_help_request ON public.user_locations (help_request_id) WHERE help_request_id IS NOT NULL;
+
+-- The requester and their accepted helpers
+CREATE OR REPLACE FUNCTION public.is_help_request_participant(request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.help_requests hr
+    WHERE hr.id = request_id AND hr.user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.help_request_helpers h
+    WHERE h.help_request_id = request_id
+      AND h.helper_id = auth.uid()
+      AND h.status = 'accepted'
+  );
+$$;
+
+-- Positions are only visible to the other participants of the request they were shared on.
+-- Stopped shares stay readable (at their last point) so realtime delivers the stop to everyone;
+-- get_live_locations is what filters down to active ones.
+DROP POLICY IF EXISTS "Users can view all user locations" ON public.user_locations;
+CREATE POLICY "Participants can view shared live locations" ON public.user_locations FOR SELECT USING (
+  auth.uid() = user_id
+  OR (
+    help_request_id IS NOT NULL
+    AND public.is_help_request_participant(help_request_id)
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.start_live_location(
+  request_id UUID,
+  duration_minutes INTEGER,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS public.user_locations
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request_status help_request_status;
+  result public.user_locations;
+BEGIN
+  IF duration_minutes NOT IN (15, 30, 60) THEN
+    RAISE EXCEPTION 'Live location can be shared for 15, 30 or 60 minutes';
+  END IF;
+
+  SELECT status INTO request_status FROM public.help_requests WHERE id = request_id;
+
+  IF request_status IS NULL THEN
+    RAISE EXCEPTION 'Help request not found';
+  END IF;
+
+  IF request_status NOT IN ('open', 'claimed', 'in_progress') THEN
+    RAISE EXCEPTION 'Live location can only be shared on active requests';
+  END IF;
+
+  IF NOT public.is_help_request_participant(request_id) THEN
+    RAISE EXCEPTION 'Only the requester and accepted helpers can share live location';
+  END IF;
+
+  INSERT INTO public.user_locations (user_id, location_point, is_active, help_request_id, shared_until, accuracy_m, updated_at)
+  VALUES (
+    auth.uid(),
+    ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography,
+    true,
+    request_id,
+    NOW() + make_interval(mins => duration_minutes),
+    accuracy,
+    NOW()
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET location_point = EXCLUDED.location_point,
+      is_active = true,
+      help_request_id = EXCLUDED.help_request_id,
+      shared_until = EXCLUDED.shared_until,
+      accuracy_m = EXCLUDED.accuracy_m,
+      updated_at = NOW()
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- Returns false once the share has expired or been stopped, so the client can stop watching
+CREATE OR REPLACE FUNCTION public.update_live_location(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.user_locations
+  SET location_point = ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography,
+      accuracy_m = accuracy,
+      updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND is_active = true
+    AND help_request_id IS NOT NULL
+    AND shared_until > NOW();
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stop_live_location()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.user_locations
+  SET is_active = false,
+      shared_until = LEAST(shared_until, NOW()),
+      updated_at = NOW()
+  WHERE user_id = auth.uid() AND is_active = true;
+END;
+$$;
+
+-- Everyone currently sharing on a request, for its participants only
+CREATE OR REPLACE FUNCTION public.get_live_locations(request_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  accuracy_m DOUBLE PRECISION,
+  shared_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  full_name TEXT,
+  username TEXT,
+  avatar_emoji TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_help_request_participant(request_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ul.user_id,
+    ST_Y(ul.location_point::geometry),
+    ST_X(ul.location_point::geometry),
+    ul.accuracy_m,
+    ul.shared_until,
+    ul.updated_at,
+    p.full_name,
+    p.username,
+    p.avatar_emoji
+  FROM public.user_locations ul
+  JOIN public.profiles p ON p.id = ul.user_id
+  WHERE ul.help_request_id = get_live_locations.request_id
+    AND ul.is_active = true
+    AND ul.shared_until > NOW();
+END;
+$$;
+
+-- Sharing ends with the request, and for helpers who are no longer accepted
+CREATE OR REPLACE FUNCTION public.stop_live_locations_for_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'help_requests' THEN
+    IF NEW.status NOT IN ('open', 'claimed', 'in_progress') THEN
+      UPDATE public.user_locations
+      SET is_active = false, updated_at = NOW()
+      WHERE help_request_id = NEW.id AND is_active = true;
+    END IF;
+  ELSIF NEW.status <> 'accepted' THEN
+    UPDATE public.user_locations
+    SET is_active = false, updated_at = NOW()
+    WHERE help_request_id = NEW.help_request_id
+      AND user_id = NEW.helper_id
+      AND is_active = true;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_closed_stop_live_locations
+  AFTER UPDATE OF status ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.stop_live_locations_for_request();
+
+CREATE TRIGGER on_helper_left_stop_live_location
+  AFTER UPDATE OF status ON public.help_request_helpers
+  FOR EACH ROW EXECUTE FUNCTION public.stop_live_locations_for_request();
+
+GRANT EXECUTE ON FUNCTION public.start_live_location(UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_live_location(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.stop_live_location() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_live_locations(UUID) TO authenticated;
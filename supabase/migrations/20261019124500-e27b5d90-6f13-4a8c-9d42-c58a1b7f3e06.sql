@@ -0,0 +1,91 @@
+-- Community chat is local: messages carry the sender's location and are read by radius
+-- or by neighborhood room (a ~5 km geohash cell) instead of as one global feed
+ALTER TABLE public.messages
+ADD COLUMN room TEXT;
+
+CREATE INDEX idx_messages_community_room ON public.messages (room, created_at DESC, id DESC)
+  WHERE help_request_id IS NULL;
+CREATE INDEX idx_messages_community_location ON public.messages USING GIST (location_point)
+  WHERE help_request_id IS NULL;
+
+-- messages are publicly readable, so the stored point follows the sender's privacy setting
+-- just like the map does; the room is derived from that stored point
+CREATE OR REPLACE FUNCTION public.set_community_message_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  sender_privacy public.location_privacy;
+BEGIN
+  IF NEW.help_request_id IS NOT NULL OR NEW.location_point IS NULL THEN
+    NEW.room := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT location_privacy INTO sender_privacy FROM public.profiles WHERE id = NEW.user_id;
+
+  NEW.location_point := public.fuzz_location(
+    NEW.location_point,
+    public.request_location_privacy(sender_privacy),
+    NEW.user_id
+  );
+  IF sender_privacy IS DISTINCT FROM 'exact' THEN
+    NEW.location_name := NULL;
+  END IF;
+  NEW.room := ST_GeoHash(NEW.location_point::geometry, 5);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_community_message_location
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_community_message_location();
+
+UPDATE public.messages
+SET room = ST_GeoHash(location_point::geometry, 5)
+WHERE help_request_id IS NULL AND location_point IS NOT NULL;
+
+-- Community messages (never request threads) near the reader, newest first. With room_id
+-- set, only that neighborhood room is read and the radius is ignored.
+CREATE OR REPLACE FUNCTION public.get_community_messages(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  room_id TEXT DEFAULT NULL,
+  page_size INTEGER DEFAULT 50,
+  before_created_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF public.messages
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT m.*
+  FROM public.messages m
+  WHERE m.help_request_id IS NULL
+    AND m.location_point IS NOT NULL
+    AND (
+      CASE
+        WHEN room_id IS NOT NULL THEN m.room = room_id
+        ELSE ST_DWithin(
+          m.location_point,
+          ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+          radius_km * 1000
+        )
+      END
+    )
+    AND (since IS NULL OR m.created_at >= since)
+    AND (
+      before_created_at IS NULL
+      OR (m.created_at, m.id) < (before_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT page_size;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_community_messages(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, TIMESTAMPTZ, UUID, TIMESTAMPTZ) TO authenticated;
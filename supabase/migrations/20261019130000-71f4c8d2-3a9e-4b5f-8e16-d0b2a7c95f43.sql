@@ -0,0 +1,291 @@
+-- Named, persistent community groups (residents' associations, building volunteers, ...)
+-- with members, admins, a members-only chat and their own request feed
+CREATE TYPE public.group_role AS ENUM ('admin', 'member');
+
+CREATE TABLE public.groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 3 AND 60),
+  description TEXT,
+  avatar_emoji TEXT NOT NULL DEFAULT '🏘️',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  location_name TEXT,
+  location_point GEOGRAPHY(POINT, 4326),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id)
+);
+
+CREATE TABLE public.group_members (
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.group_role NOT NULL DEFAULT 'member',
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE TABLE public.group_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT NOT NULL CHECK (length(trim(message)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (id)
+);
+
+-- A request can also be posted to one group the requester belongs to
+ALTER TABLE public.help_requests
+ADD COLUMN group_id UUID REFERENCES public.groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_groups_location ON public.groups USING GIST (location_point);
+CREATE INDEX idx_group_members_user ON public.group_members (user_id);
+CREATE INDEX idx_group_messages_group ON public.group_messages (group_id, created_at DESC);
+CREATE INDEX idx_help_requests_group ON public.help_requests (group_id, created_at DESC) WHERE group_id IS NOT NULL;
+
+-- Policies on group_members can't query it directly without recursing
+CREATE OR REPLACE FUNCTION public.is_group_member(target_group_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = target_group_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_group_admin(target_group_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = target_group_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+ALTER TABLE public.groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_messages ENABLE ROW LEVEL SECURITY;
+
+-- Groups are discoverable by anyone; membership changes go through the functions below
+CREATE POLICY "Users can view groups" ON public.groups FOR SELECT USING (true);
+CREATE POLICY "Admins can update groups" ON public.groups FOR UPDATE USING (public.is_group_admin(id));
+CREATE POLICY "Admins can delete groups" ON public.groups FOR DELETE USING (public.is_group_admin(id));
+CREATE POLICY "Members can view group members" ON public.group_members FOR SELECT USING (public.is_group_member(group_id));
+CREATE POLICY "Members can view group messages" ON public.group_messages FOR SELECT USING (public.is_group_member(group_id));
+CREATE POLICY "Members can send group messages" ON public.group_messages FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND public.is_group_member(group_id)
+);
+CREATE POLICY "Users can delete own group messages" ON public.group_messages FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Requests can only be posted to own groups" ON public.help_requests
+  AS RESTRICTIVE FOR INSERT WITH CHECK (group_id IS NULL OR public.is_group_member(group_id));
+CREATE POLICY "Requests can only be moved to own groups" ON public.help_requests
+  AS RESTRICTIVE FOR UPDATE WITH CHECK (group_id IS NULL OR public.is_group_member(group_id));
+
+-- The creator becomes the group's first admin
+CREATE OR REPLACE FUNCTION public.create_group(
+  group_name TEXT,
+  group_description TEXT DEFAULT NULL,
+  group_emoji TEXT DEFAULT NULL,
+  lat DOUBLE PRECISION DEFAULT NULL,
+  lng DOUBLE PRECISION DEFAULT NULL,
+  group_location_name TEXT DEFAULT NULL
+)
+RETURNS public.groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result public.groups;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.groups (name, description, avatar_emoji, created_by, location_name, location_point)
+  VALUES (
+    trim(group_name),
+    NULLIF(trim(group_description), ''),
+    COALESCE(NULLIF(group_emoji, ''), '🏘️'),
+    auth.uid(),
+    group_location_name,
+    CASE WHEN lat IS NOT NULL AND lng IS NOT NULL
+      THEN ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+    END
+  )
+  RETURNING * INTO result;
+
+  INSERT INTO public.group_members (group_id, user_id, role)
+  VALUES (result.id, auth.uid(), 'admin');
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_group(target_group_id UUID)
+RETURNS public.group_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result public.group_members;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id)
+  VALUES (target_group_id, auth.uid())
+  ON CONFLICT (group_id, user_id) DO UPDATE SET group_id = EXCLUDED.group_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- A group always keeps an admin while it has members
+CREATE OR REPLACE FUNCTION public.leave_group(target_group_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF public.is_group_admin(target_group_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.group_members
+      WHERE group_id = target_group_id AND role = 'admin' AND user_id <> auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.group_members
+      WHERE group_id = target_group_id AND user_id <> auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Make another member an admin before leaving' USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.group_members
+  WHERE group_id = target_group_id AND user_id = auth.uid();
+
+  -- The last member out takes the group with them
+  DELETE FROM public.groups g
+  WHERE g.id = target_group_id
+    AND NOT EXISTS (SELECT 1 FROM public.group_members WHERE group_id = target_group_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_group_member_role(
+  target_group_id UUID,
+  member_id UUID,
+  new_role public.group_role
+)
+RETURNS public.group_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result public.group_members;
+BEGIN
+  IF NOT public.is_group_admin(target_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can change roles' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF new_role = 'member' AND NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = target_group_id AND role = 'admin' AND user_id <> member_id
+  ) THEN
+    RAISE EXCEPTION 'A group needs at least one admin' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.group_members
+  SET role = new_role
+  WHERE group_id = target_group_id AND user_id = member_id
+  RETURNING * INTO result;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_group_member(target_group_id UUID, member_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_group_admin(target_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can remove members' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF member_id = auth.uid() THEN
+    RAISE EXCEPTION 'Use leave_group to leave a group' USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.group_members
+  WHERE group_id = target_group_id AND user_id = member_id;
+END;
+$$;
+
+-- Groups for the browse list: the caller's own first, then nearby ones, with member counts
+CREATE OR REPLACE FUNCTION public.get_groups(
+  user_lat DOUBLE PRECISION DEFAULT NULL,
+  user_lng DOUBLE PRECISION DEFAULT NULL,
+  search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  avatar_emoji TEXT,
+  location_name TEXT,
+  created_at TIMESTAMPTZ,
+  member_count INTEGER,
+  my_role public.group_role,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.avatar_emoji,
+    g.location_name,
+    g.created_at,
+    (SELECT COUNT(*)::INTEGER FROM public.group_members gm WHERE gm.group_id = g.id) AS member_count,
+    me.role AS my_role,
+    CASE WHEN g.location_point IS NOT NULL AND user_lat IS NOT NULL AND user_lng IS NOT NULL
+      THEN ST_Distance(
+        g.location_point,
+        ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+      ) / 1000.0
+    END AS distance_km
+  FROM public.groups g
+  LEFT JOIN public.group_members me ON me.group_id = g.id AND me.user_id = auth.uid()
+  WHERE search IS NULL OR g.name ILIKE '%' || search || '%'
+  ORDER BY (me.role IS NULL), distance_km ASC NULLS LAST, g.created_at DESC
+  LIMIT 100;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_group(TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_group(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_group(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_group_member_role(UUID, UUID, public.group_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_group_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_groups(DOUBLE PRECISION, DOUBLE PRECISION, TEXT) TO authenticated;
+
+ALTER TABLE public.group_messages REPLICA IDENTITY FULL;
+ALTER TABLE public.group_members REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_members;
@@ -0,0 +1,112 @@
+-- Editing and removing chat messages. Edits keep the previous text in message_edits;
+-- removals blank the message in place so the thread shows a tombstone instead of a gap
+ALTER TABLE public.messages
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+-- No foreign key: a second link to profiles would make the profiles embed in chat queries ambiguous
+ADD COLUMN deleted_by UUID;
+
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  previous_message TEXT NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_edits_message ON public.message_edits (message_id, edited_at DESC);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Chats are public, so is how a message changed; rows are only written by the trigger below
+CREATE POLICY "Users can view message edits" ON public.message_edits FOR SELECT USING (true);
+
+-- Only the text of a live message can change, or it can be turned into a tombstone.
+-- Covers plain UPDATEs by authors as well as delete_message below.
+CREATE OR REPLACE FUNCTION public.track_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.help_request_id := OLD.help_request_id;
+  NEW.created_at := OLD.created_at;
+  NEW.location_point := OLD.location_point;
+  NEW.location_name := OLD.location_name;
+  NEW.room := OLD.room;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.message := '';
+    NEW.attachments := '[]'::jsonb;
+    NEW.deleted_at := NOW();
+    NEW.deleted_by := auth.uid();
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  NEW.deleted_by := NULL;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    INSERT INTO public.message_edits (message_id, previous_message, edited_at)
+    VALUES (OLD.id, OLD.message, NOW());
+    NEW.edited_at := NOW();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_message_edit
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.track_message_edit();
+
+-- Authors can remove their own messages, and requesters can moderate their request's chat.
+-- The trigger above blanks the row; attachment files are removed by the author's client,
+-- as storage only lets owners delete them.
+CREATE OR REPLACE FUNCTION public.delete_message(target_message_id UUID)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target public.messages;
+  result public.messages;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target FROM public.messages WHERE id = target_message_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.deleted_at IS NOT NULL THEN
+    RETURN target;
+  END IF;
+
+  IF target.user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.help_requests hr
+    WHERE hr.id = target.help_request_id
+      AND hr.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the author or the requester can remove this message'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.messages
+  SET deleted_at = NOW()
+  WHERE id = target.id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
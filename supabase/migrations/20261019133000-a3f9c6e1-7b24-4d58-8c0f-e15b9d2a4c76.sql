@@ -0,0 +1,77 @@
+-- Replies quote an earlier message from the same chat
+ALTER TABLE public.messages
+ADD COLUMN reply_to_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_reply_to ON public.messages (reply_to_message_id)
+WHERE reply_to_message_id IS NOT NULL;
+
+-- A reply has to stay in its thread: the same request chat, or community chat
+CREATE OR REPLACE FUNCTION public.check_message_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  original public.messages;
+BEGIN
+  IF NEW.reply_to_message_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO original FROM public.messages WHERE id = NEW.reply_to_message_id;
+
+  IF original.id IS NULL
+    OR original.help_request_id IS DISTINCT FROM NEW.help_request_id
+    OR original.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same chat' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_message_reply
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_reply();
+
+-- Same as before, with the quoted message fixed once sent
+CREATE OR REPLACE FUNCTION public.track_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.help_request_id := OLD.help_request_id;
+  NEW.created_at := OLD.created_at;
+  NEW.location_point := OLD.location_point;
+  NEW.location_name := OLD.location_name;
+  NEW.room := OLD.room;
+  NEW.reply_to_message_id := OLD.reply_to_message_id;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.message := '';
+    NEW.attachments := '[]'::jsonb;
+    NEW.deleted_at := NOW();
+    NEW.deleted_by := auth.uid();
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  NEW.deleted_by := NULL;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    INSERT INTO public.message_edits (message_id, previous_message, edited_at)
+    VALUES (OLD.id, OLD.message, NOW());
+    NEW.edited_at := NOW();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
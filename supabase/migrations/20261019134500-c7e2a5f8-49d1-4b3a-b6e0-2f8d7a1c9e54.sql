@@ -0,0 +1,68 @@
+-- Emoji reactions on chat messages, one of each emoji per person
+CREATE TABLE public.message_reactions (
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  -- Copied from the message so a request chat can subscribe to just its own reactions
+  help_request_id UUID REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_help_request ON public.message_reactions (help_request_id)
+WHERE help_request_id IS NOT NULL;
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Chats are public, so are their reactions
+CREATE POLICY "Users can view message reactions" ON public.message_reactions FOR SELECT USING (true);
+CREATE POLICY "Users can add own reactions" ON public.message_reactions FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND m.deleted_at IS NULL
+  )
+);
+CREATE POLICY "Users can remove own reactions" ON public.message_reactions FOR DELETE USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.set_message_reaction_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  SELECT m.help_request_id INTO NEW.help_request_id
+  FROM public.messages m
+  WHERE m.id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_reaction_request
+  BEFORE INSERT ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_message_reaction_request();
+
+-- A removed message loses its reactions along with its text
+CREATE OR REPLACE FUNCTION public.clear_deleted_message_reactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    DELETE FROM public.message_reactions WHERE message_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_deleted_message_reactions
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.clear_deleted_message_reactions();
+
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
@@ -0,0 +1,253 @@
+-- Exact locations were only blurred inside the RPCs while the tables stayed readable.
+-- Take the raw columns away from API roles so the security-definer RPCs are the only way in.
+REVOKE SELECT ON public.profiles FROM anon, authenticated;
+GRANT SELECT (
+  id, full_name, username, phone, age, gender, home_address, current_address,
+  avatar_emoji, avatar_url, social_links, status, status_override, last_seen,
+  search_radius_km, location_privacy, created_at, updated_at
+) ON public.profiles TO anon, authenticated;
+
+REVOKE SELECT ON public.help_requests FROM anon, authenticated;
+GRANT SELECT (
+  id, user_id, category, message, is_urgent, is_resolved, status, status_changed_at,
+  resolved_at, expires_at, escalation_level, escalated_at, edited_at, broadcast_radius_km,
+  precise_location_shared, group_id, created_at, updated_at
+) ON public.help_requests TO anon, authenticated;
+
+-- A profile's place name, for its owner or when they share their exact location
+CREATE OR REPLACE FUNCTION public.get_profile_location_name(profile_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT location_name
+  FROM public.profiles
+  WHERE id = profile_id
+    AND (id = auth.uid() OR location_privacy = 'exact');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_profile_location_name(UUID) TO authenticated;
+
+-- The edit log is public, so a moved request records that it moved but not where to
+CREATE OR REPLACE FUNCTION public.log_help_request_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  diff JSONB := '{}'::jsonb;
+BEGIN
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    diff := diff || jsonb_build_object('message', jsonb_build_object('from', OLD.message, 'to', NEW.message));
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    diff := diff || jsonb_build_object('category', jsonb_build_object('from', OLD.category, 'to', NEW.category));
+  END IF;
+
+  IF NEW.is_urgent IS DISTINCT FROM OLD.is_urgent THEN
+    diff := diff || jsonb_build_object('is_urgent', jsonb_build_object('from', OLD.is_urgent, 'to', NEW.is_urgent));
+  END IF;
+
+  IF NEW.location_name IS DISTINCT FROM OLD.location_name
+    OR NOT ST_Equals(COALESCE(NEW.location_point, 'POINT(0 0)')::geometry, COALESCE(OLD.location_point, 'POINT(0 0)')::geometry) THEN
+    diff := diff || jsonb_build_object('location', '{}'::jsonb);
+  END IF;
+
+  IF diff <> '{}'::jsonb THEN
+    INSERT INTO public.help_request_edits (help_request_id, edited_by, changes)
+    VALUES (NEW.id, auth.uid(), diff);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+UPDATE public.help_request_edits
+SET changes = (changes - 'location_name') || jsonb_build_object('location', '{}'::jsonb)
+WHERE changes ? 'location_name';
+
+-- Accepted helpers can call this too; they get the row without its location
+CREATE OR REPLACE FUNCTION public.set_help_request_status(
+  request_id UUID,
+  new_status help_request_status,
+  note TEXT DEFAULT NULL
+)
+RETURNS public.help_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request public.help_requests;
+  is_accepted_helper BOOLEAN;
+BEGIN
+  SELECT * INTO request FROM public.help_requests WHERE id = request_id;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.help_request_helpers
+    WHERE help_request_id = request_id AND helper_id = auth.uid() AND status = 'accepted'
+  ) INTO is_accepted_helper;
+
+  IF request.user_id <> auth.uid() AND NOT (is_accepted_helper AND new_status = 'in_progress') THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(note, ''), true);
+
+  UPDATE public.help_requests
+  SET status = new_status
+  WHERE id = request_id
+  RETURNING * INTO request;
+
+  IF request.user_id <> auth.uid() THEN
+    request.location_point := NULL;
+    request.location_name := NULL;
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+-- Radius checks run against the blurred point too: filtering on the exact one would let
+-- repeated queries from different spots trilaterate it
+DROP FUNCTION IF EXISTS public.get_nearby_users(double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_users(user_lat double precision, user_lng double precision, radius_km double precision DEFAULT 10.0)
+ RETURNS TABLE(user_id uuid, full_name text, username text, location_name text, lat double precision, lng double precision, distance_km double precision, is_online boolean, avatar_emoji text, location_precision public.location_privacy, status public.user_status)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id as user_id,
+    p.full_name,
+    p.username,
+    CASE WHEN p.location_privacy = 'exact' THEN p.location_name END as location_name,
+    ST_Y(shown.location_point::geometry) as lat,
+    ST_X(shown.location_point::geometry) as lng,
+    ST_Distance(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    -- Away and do-not-disturb users are nearby but not available to help
+    COALESCE(p.status = 'online', false) as is_online,
+    p.avatar_emoji,
+    p.location_privacy as location_precision,
+    COALESCE(p.status, 'offline'::public.user_status) as status
+  FROM profiles p
+  CROSS JOIN LATERAL (
+    SELECT public.fuzz_location(p.location_point::geography, p.location_privacy, p.id) AS location_point
+  ) shown
+  WHERE
+    p.location_point IS NOT NULL
+    AND p.location_privacy <> 'hidden'
+    AND ST_DWithin(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000
+    )
+    AND p.id != COALESCE((SELECT auth.uid()), '00000000-0000-0000-0000-000000000000'::uuid)
+  ORDER BY distance_km;
+END;
+$function$;
+
+-- Now reads the raw location column, so it runs as its owner like the other location RPCs
+DROP FUNCTION IF EXISTS public.get_nearby_help_requests(double precision, double precision, double precision, help_request_status[], integer, timestamptz, uuid);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_help_requests(
+  user_lat DOUBLE PRECISION,
+  user_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10.0,
+  statuses help_request_status[] DEFAULT ARRAY['open', 'claimed', 'in_progress']::help_request_status[],
+  page_size INTEGER DEFAULT NULL,
+  before_created_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category TEXT,
+  message TEXT,
+  is_urgent BOOLEAN,
+  is_resolved BOOLEAN,
+  status help_request_status,
+  status_changed_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  escalation_level INTEGER,
+  edited_at TIMESTAMPTZ,
+  broadcast_radius_km DOUBLE PRECISION,
+  location_name TEXT,
+  location_point GEOGRAPHY,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_km DOUBLE PRECISION,
+  accepted_helpers_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    hr.id,
+    hr.user_id,
+    hr.category,
+    hr.message,
+    hr.is_urgent,
+    hr.is_resolved,
+    hr.status,
+    hr.status_changed_at,
+    hr.resolved_at,
+    hr.expires_at,
+    hr.escalation_level,
+    hr.edited_at,
+    hr.broadcast_radius_km,
+    CASE WHEN viewer.is_precise THEN hr.location_name END as location_name,
+    shown.location_point,
+    ST_Y(shown.location_point::geometry) as lat,
+    ST_X(shown.location_point::geometry) as lng,
+    hr.created_at,
+    hr.updated_at,
+    ST_Distance(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status = 'accepted'
+    ) as accepted_helpers_count
+  FROM public.help_requests hr
+  LEFT JOIN public.profiles owner ON owner.id = hr.user_id
+  CROSS JOIN LATERAL (
+    SELECT public.can_see_precise_request_location(hr, owner.location_privacy) AS is_precise
+  ) viewer
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN viewer.is_precise THEN hr.location_point
+      ELSE public.fuzz_location(hr.location_point, public.request_location_privacy(owner.location_privacy), hr.id)
+    END AS location_point
+  ) shown
+  WHERE hr.status = ANY(statuses)
+    AND hr.location_point IS NOT NULL
+    AND ST_DWithin(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      LEAST(radius_km, hr.broadcast_radius_km) * 1000 * POWER(2, hr.escalation_level)
+    )
+    AND (
+      before_created_at IS NULL
+      OR (hr.created_at, hr.id) < (before_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+    )
+  ORDER BY hr.created_at DESC, hr.id DESC
+  LIMIT page_size;
+END;
+$$;
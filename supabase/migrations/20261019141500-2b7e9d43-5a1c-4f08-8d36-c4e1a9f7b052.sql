@@ -0,0 +1,21 @@
+-- The open UPDATE policy also let a participant rewrite conversation_id and join any
+-- thread; read positions now only move through mark_conversation_read
+DROP POLICY IF EXISTS "Users can update own read position" ON public.conversation_participants;
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(target_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = NOW()
+  WHERE conversation_id = target_conversation_id AND user_id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
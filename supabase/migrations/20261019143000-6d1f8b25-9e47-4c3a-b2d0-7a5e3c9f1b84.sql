@@ -0,0 +1,50 @@
+-- A quote may only be cleared once sent, which is what ON DELETE SET NULL does when the
+-- original row goes; that update also has to get through on tombstones
+CREATE OR REPLACE FUNCTION public.track_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.reply_to_message_id IS NULL AND OLD.reply_to_message_id IS NOT NULL THEN
+      NEW := OLD;
+      NEW.reply_to_message_id := NULL;
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.help_request_id := OLD.help_request_id;
+  NEW.created_at := OLD.created_at;
+  NEW.location_point := OLD.location_point;
+  NEW.location_name := OLD.location_name;
+  NEW.room := OLD.room;
+  IF NEW.reply_to_message_id IS NOT NULL THEN
+    NEW.reply_to_message_id := OLD.reply_to_message_id;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.message := '';
+    NEW.attachments := '[]'::jsonb;
+    NEW.deleted_at := NOW();
+    NEW.deleted_by := auth.uid();
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  NEW.deleted_by := NULL;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    INSERT INTO public.message_edits (message_id, previous_message, edited_at)
+    VALUES (OLD.id, OLD.message, NOW());
+    NEW.edited_at := NOW();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- The reader's neighborhood room, from the same blurred point set_community_message_location
+-- stores for their own messages; computing it from the exact location put some readers
+-- in a different room from the one they post to
+CREATE OR REPLACE FUNCTION public.get_community_room(user_lat DOUBLE PRECISION, user_lng DOUBLE PRECISION)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ST_GeoHash(
+    public.fuzz_location(
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      public.request_location_privacy((SELECT location_privacy FROM public.profiles WHERE id = auth.uid())),
+      auth.uid()
+    )::geometry,
+    5
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_community_room(DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
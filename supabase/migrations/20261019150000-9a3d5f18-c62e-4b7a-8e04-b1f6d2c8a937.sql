@@ -0,0 +1,38 @@
+-- Declining a pending offer leaves the accepted helpers as they were, so it no longer runs
+-- the claim sync that re-opened the request with an "All helpers withdrew" note
+CREATE OR REPLACE FUNCTION public.respond_to_help_offer(offer_id UUID, accept BOOLEAN)
+RETURNS public.help_request_helpers
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer public.help_request_helpers;
+BEGIN
+  SELECT o.* INTO offer
+  FROM public.help_request_helpers o
+  JOIN public.help_requests hr ON hr.id = o.help_request_id
+  WHERE o.id = offer_id AND hr.user_id = auth.uid();
+
+  IF offer.id IS NULL THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'Offer is no longer pending' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.help_request_helpers
+  SET status = CASE WHEN accept THEN 'accepted'::help_offer_status ELSE 'declined'::help_offer_status END,
+      responded_at = NOW(),
+      accepted_at = CASE WHEN accept THEN NOW() ELSE NULL END,
+      updated_at = NOW()
+  WHERE id = offer_id
+  RETURNING * INTO offer;
+
+  IF accept THEN
+    PERFORM public.sync_help_request_claim(offer.help_request_id);
+  END IF;
+
+  RETURN offer;
+END;
+$$;
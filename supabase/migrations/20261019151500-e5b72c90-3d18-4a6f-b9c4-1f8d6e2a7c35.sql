@@ -0,0 +1,49 @@
+-- Nobody writes "offline" when a tab is closed, so a status only counts while last_seen
+-- is fresh; the app refreshes it every minute (PRESENCE_HEARTBEAT_MS)
+DROP FUNCTION IF EXISTS public.get_nearby_users(double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.get_nearby_users(user_lat double precision, user_lng double precision, radius_km double precision DEFAULT 10.0)
+ RETURNS TABLE(user_id uuid, full_name text, username text, location_name text, lat double precision, lng double precision, distance_km double precision, is_online boolean, avatar_emoji text, location_precision public.location_privacy, status public.user_status)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id as user_id,
+    p.full_name,
+    p.username,
+    CASE WHEN p.location_privacy = 'exact' THEN p.location_name END as location_name,
+    ST_Y(shown.location_point::geometry) as lat,
+    ST_X(shown.location_point::geometry) as lng,
+    ST_Distance(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+    ) / 1000.0 as distance_km,
+    -- Away and do-not-disturb users are nearby but not available to help
+    presence.status = 'online' as is_online,
+    p.avatar_emoji,
+    p.location_privacy as location_precision,
+    presence.status
+  FROM profiles p
+  CROSS JOIN LATERAL (
+    SELECT public.fuzz_location(p.location_point::geography, p.location_privacy, p.id) AS location_point
+  ) shown
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN p.last_seen > NOW() - INTERVAL '2 minutes' THEN COALESCE(p.status, 'offline'::public.user_status)
+      ELSE 'offline'::public.user_status
+    END AS status
+  ) presence
+  WHERE
+    p.location_point IS NOT NULL
+    AND p.location_privacy <> 'hidden'
+    AND ST_DWithin(
+      shown.location_point,
+      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+      radius_km * 1000
+    )
+    AND p.id != COALESCE((SELECT auth.uid()), '00000000-0000-0000-0000-000000000000'::uuid)
+  ORDER BY distance_km;
+END;
+$function$;
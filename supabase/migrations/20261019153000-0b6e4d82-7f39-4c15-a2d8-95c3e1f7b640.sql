@@ -0,0 +1,19 @@
+-- Reactions are limited to the set the picker offers (REACTION_EMOJIS in src/utils/emojis.ts)
+-- rather than any short string
+CREATE OR REPLACE FUNCTION public.is_reaction_emoji(emoji TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT emoji = ANY (ARRAY[
+    '👍', '🙏', '✅', '😊', '😎', '🚀', '💪', '🎯', '🌟', '🔥', '👨‍💻', '👩‍💻', '🏃‍♂️', '🏃‍♀️', '🎨', '📚', '🌍', '⚡', '😀', '😄', '🥳', '🤓', '😌'
+  ]);
+$$;
+
+DELETE FROM public.message_reactions WHERE NOT public.is_reaction_emoji(emoji);
+
+ALTER TABLE public.message_reactions
+DROP CONSTRAINT IF EXISTS message_reactions_emoji_check;
+
+ALTER TABLE public.message_reactions
+ADD CONSTRAINT message_reactions_emoji_check CHECK (public.is_reaction_emoji(emoji));
@@ -0,0 +1,46 @@
+-- New messages always start live and unedited; tombstones and edit marks only come from
+-- the update trigger, so a client can't insert a message that looks removed by someone else
+CREATE OR REPLACE FUNCTION public.reset_new_message_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.edited_at := NULL;
+  NEW.deleted_at := NULL;
+  NEW.deleted_by := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_new_message_state
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.reset_new_message_state();
+
+-- Removed messages take their files with them, whoever removed them. Storage only lets the
+-- uploader delete through the API, so a requester moderating their chat left them public.
+CREATE OR REPLACE FUNCTION public.remove_deleted_message_attachments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL
+    AND jsonb_array_length(COALESCE(OLD.attachments, '[]'::jsonb)) > 0 THEN
+    PERFORM set_config('storage.allow_delete_query', 'true', true);
+
+    DELETE FROM storage.objects
+    WHERE bucket_id = 'chat-attachments'
+      AND name IN (
+        SELECT attachment ->> 'path' FROM jsonb_array_elements(OLD.attachments) attachment
+        UNION
+        SELECT attachment ->> 'thumbnail_path' FROM jsonb_array_elements(OLD.attachments) attachment
+      );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER remove_deleted_message_attachments
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.remove_deleted_message_attachments();
@@ -0,0 +1,57 @@
+-- Edits that change the category or urgency get that combination's TTL, counted from the same
+-- start as before (creation or the last renewal), so an urgent request doesn't linger for days
+CREATE OR REPLACE FUNCTION public.reset_help_request_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.expires_at IS NOT NULL THEN
+    NEW.expires_at := OLD.expires_at
+      - public.get_help_request_ttl(OLD.category, OLD.is_urgent)
+      + public.get_help_request_ttl(NEW.category, NEW.is_urgent);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_help_request_edited_reset_expiry
+  BEFORE UPDATE OF category, is_urgent ON public.help_requests
+  FOR EACH ROW
+  WHEN (NEW.category IS DISTINCT FROM OLD.category OR NEW.is_urgent IS DISTINCT FROM OLD.is_urgent)
+  EXECUTE FUNCTION public.reset_help_request_expiry();
+
+-- A location edit is whatever moves the point; the name alone can change on a re-geocode
+CREATE OR REPLACE FUNCTION public.log_help_request_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  diff JSONB := '{}'::jsonb;
+BEGIN
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    diff := diff || jsonb_build_object('message', jsonb_build_object('from', OLD.message, 'to', NEW.message));
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    diff := diff || jsonb_build_object('category', jsonb_build_object('from', OLD.category, 'to', NEW.category));
+  END IF;
+
+  IF NEW.is_urgent IS DISTINCT FROM OLD.is_urgent THEN
+    diff := diff || jsonb_build_object('is_urgent', jsonb_build_object('from', OLD.is_urgent, 'to', NEW.is_urgent));
+  END IF;
+
+  IF (NEW.location_point IS NULL) <> (OLD.location_point IS NULL)
+    OR NOT ST_Equals(NEW.location_point::geometry, OLD.location_point::geometry) THEN
+    diff := diff || jsonb_build_object('location', '{}'::jsonb);
+  END IF;
+
+  IF diff <> '{}'::jsonb THEN
+    INSERT INTO public.help_request_edits (help_request_id, edited_by, changes)
+    VALUES (NEW.id, auth.uid(), diff);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,49 @@
+-- The escalation cap moved into the category data along with the other expiry settings.
+-- Subcategories inherit it like the TTLs; 2 doublings was the old rules' default.
+ALTER TABLE public.help_categories
+ADD COLUMN max_escalation_level INTEGER CHECK (max_escalation_level >= 0);
+
+UPDATE public.help_categories SET max_escalation_level = 2 WHERE parent_id IS NULL;
+
+CREATE OR REPLACE VIEW public.help_categories_resolved AS
+SELECT
+  c.id,
+  c.parent_id,
+  COALESCE(c.default_ttl, p.default_ttl, INTERVAL '24 hours') AS default_ttl,
+  COALESCE(c.urgent_ttl, p.urgent_ttl, c.default_ttl, p.default_ttl, INTERVAL '24 hours') AS urgent_ttl,
+  COALESCE(c.escalate_after, p.escalate_after) AS escalate_after,
+  COALESCE(c.max_escalation_level, p.max_escalation_level, 2) AS max_escalation_level
+FROM public.help_categories c
+LEFT JOIN public.help_categories p ON p.id = c.parent_id;
+
+CREATE OR REPLACE FUNCTION public.escalate_unanswered_help_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  escalated_count INTEGER;
+BEGIN
+  UPDATE public.help_requests hr
+  SET escalation_level = hr.escalation_level + 1,
+      escalated_at = NOW()
+  FROM public.help_categories_resolved c
+  WHERE c.id = hr.category
+    AND hr.is_urgent = true
+    AND hr.status = 'open'
+    AND c.escalate_after IS NOT NULL
+    AND hr.escalation_level < c.max_escalation_level
+    AND COALESCE(hr.escalated_at, hr.created_at) <= NOW() - c.escalate_after
+    AND NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.help_request_id = hr.id AND m.user_id <> hr.user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.help_request_helpers h
+      WHERE h.help_request_id = hr.id AND h.status IN ('pending', 'accepted')
+    );
+
+  GET DIAGNOSTICS escalated_count = ROW_COUNT;
+  RETURN escalated_count;
+END;
+$$;
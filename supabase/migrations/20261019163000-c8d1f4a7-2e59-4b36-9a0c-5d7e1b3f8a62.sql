@@ -0,0 +1,23 @@
+-- Attachments must point at files the sender uploaded for this message, laid out as
+-- <sender id>/<message id>/..., so a message can't show or later remove someone else's files
+CREATE OR REPLACE FUNCTION public.message_attachments_are_own(attachments JSONB, sender_id UUID, message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(attachments) attachment
+    WHERE jsonb_typeof(attachment -> 'path') IS DISTINCT FROM 'string'
+      OR NOT starts_with(attachment ->> 'path', sender_id::text || '/' || message_id::text || '/')
+      OR (
+        attachment ->> 'thumbnail_path' IS NOT NULL
+        AND NOT starts_with(attachment ->> 'thumbnail_path', sender_id::text || '/' || message_id::text || '/')
+      )
+  );
+$$;
+
+-- Existing rows are left as they are; attachments can't change after a message is sent
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_attachments_own_check
+CHECK (public.message_attachments_are_own(attachments, user_id, id)) NOT VALID;
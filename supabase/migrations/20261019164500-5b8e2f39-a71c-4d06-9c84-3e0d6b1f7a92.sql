@@ -0,0 +1,52 @@
+-- Anonymous callers have no auth.uid(), which turned both owner checks into NULL and let them
+-- through; refuse them up front and compare with IS DISTINCT FROM
+CREATE OR REPLACE FUNCTION public.set_help_request_status(
+  request_id UUID,
+  new_status help_request_status,
+  note TEXT DEFAULT NULL
+)
+RETURNS public.help_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request public.help_requests;
+  is_accepted_helper BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO request FROM public.help_requests WHERE id = request_id;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.help_request_helpers
+    WHERE help_request_id = request_id AND helper_id = auth.uid() AND status = 'accepted'
+  ) INTO is_accepted_helper;
+
+  IF request.user_id IS DISTINCT FROM auth.uid() AND NOT (is_accepted_helper AND new_status = 'in_progress') THEN
+    RAISE EXCEPTION 'Help request not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(note, ''), true);
+
+  UPDATE public.help_requests
+  SET status = new_status
+  WHERE id = request_id
+  RETURNING * INTO request;
+
+  IF request.user_id IS DISTINCT FROM auth.uid() THEN
+    request.location_point := NULL;
+    request.location_name := NULL;
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_help_request_status(UUID, help_request_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_help_request_status(UUID, help_request_status, TEXT) TO authenticated;
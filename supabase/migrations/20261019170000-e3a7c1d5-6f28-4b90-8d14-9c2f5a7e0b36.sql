@@ -0,0 +1,17 @@
+-- Groups are readable by everyone and were pinned to the creator's GPS fix. Snap the pin to
+-- the ~2 km neighbourhood cell, which is all "show to people nearby" needs.
+CREATE OR REPLACE FUNCTION public.blur_group_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.location_point := public.fuzz_location(NEW.location_point, 'neighborhood', NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER blur_group_location
+  BEFORE INSERT OR UPDATE OF location_point ON public.groups
+  FOR EACH ROW EXECUTE FUNCTION public.blur_group_location();
+
+UPDATE public.groups SET location_point = location_point WHERE location_point IS NOT NULL;
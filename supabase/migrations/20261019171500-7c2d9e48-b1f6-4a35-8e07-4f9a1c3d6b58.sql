@@ -0,0 +1,15 @@
+-- Expiry, escalation and reach are set by the database: the expiry trigger, renew_help_request
+-- and the escalation job. Owners could write them directly, e.g. a request that never expires
+-- or an escalation level that covers the whole map, so the API roles only get the other columns.
+REVOKE INSERT, UPDATE ON public.help_requests FROM anon, authenticated;
+
+GRANT INSERT (
+  id, user_id, category, message, is_urgent, location_name, location_point,
+  broadcast_radius_km, precise_location_shared, group_id
+) ON public.help_requests TO authenticated;
+
+-- The radius is picked when posting; edits keep it
+GRANT UPDATE (
+  category, message, is_urgent, is_resolved, status, location_name, location_point,
+  precise_location_shared, group_id
+) ON public.help_requests TO authenticated;
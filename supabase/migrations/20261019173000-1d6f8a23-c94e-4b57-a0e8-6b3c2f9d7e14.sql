@@ -0,0 +1,16 @@
+-- Matches the edit log: a location edit is a moved point, not a re-geocoded name
+CREATE OR REPLACE FUNCTION public.stamp_help_request_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.is_urgent IS DISTINCT FROM OLD.is_urgent
+    OR (NEW.location_point IS NULL) <> (OLD.location_point IS NULL)
+    OR NOT ST_Equals(NEW.location_point::geometry, OLD.location_point::geometry) THEN
+    NEW.edited_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Phone and addresses were still readable by anyone, whatever the location privacy.
+-- Only the owner gets them now, through get_own_contact_details.
+REVOKE SELECT ON public.profiles FROM anon, authenticated;
+GRANT SELECT (
+  id, full_name, username, age, gender, avatar_emoji, avatar_url, social_links, status,
+  status_override, last_seen, search_radius_km, location_privacy, created_at, updated_at
+) ON public.profiles TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_own_contact_details()
+RETURNS TABLE (phone TEXT, home_address TEXT, current_address TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.phone, p.home_address, p.current_address
+  FROM public.profiles p
+  WHERE p.id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_own_contact_details() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_own_contact_details() TO authenticated;
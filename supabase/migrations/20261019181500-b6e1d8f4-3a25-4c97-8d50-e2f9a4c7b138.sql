@@ -0,0 +1,20 @@
+-- Photo rows must point at files the requester uploaded for this request, laid out as
+-- <user id>/<request id>/..., like message_attachments_are_own does for chat
+DROP POLICY IF EXISTS "Requesters can add request media" ON public.request_media;
+
+CREATE POLICY "Requesters can add request media" ON public.request_media FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.help_requests hr
+    WHERE hr.id = help_request_id AND hr.user_id = auth.uid()
+  )
+  AND split_part(storage_path, '/', 1) = auth.uid()::text
+  AND split_part(storage_path, '/', 2) = help_request_id::text
+  AND (
+    thumbnail_path IS NULL
+    OR (
+      split_part(thumbnail_path, '/', 1) = auth.uid()::text
+      AND split_part(thumbnail_path, '/', 2) = help_request_id::text
+    )
+  )
+);
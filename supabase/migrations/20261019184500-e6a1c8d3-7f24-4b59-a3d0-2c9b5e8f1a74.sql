@@ -0,0 +1,38 @@
+-- A stopped share keeps its row, so realtime still delivers the stop, but not its last point
+ALTER TABLE public.user_locations ALTER COLUMN location_point DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.clear_stopped_live_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    NEW.location_point := NULL;
+    NEW.accuracy_m := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_live_location_stopped_clear_point
+  BEFORE UPDATE OF is_active ON public.user_locations
+  FOR EACH ROW EXECUTE FUNCTION public.clear_stopped_live_location();
+
+UPDATE public.user_locations
+SET location_point = NULL, accuracy_m = NULL
+WHERE help_request_id IS NOT NULL
+  AND (is_active IS NOT TRUE OR shared_until <= NOW());
+
+-- Expired shares are never stopped explicitly, so the policy hides their points too
+DROP POLICY IF EXISTS "Participants can view shared live locations" ON public.user_locations;
+CREATE POLICY "Participants can view shared live locations" ON public.user_locations FOR SELECT USING (
+  auth.uid() = user_id
+  OR (
+    help_request_id IS NOT NULL
+    AND public.is_help_request_participant(help_request_id)
+    AND (
+      location_point IS NULL
+      OR (is_active = true AND shared_until > NOW())
+    )
+  )
+);